@@ -0,0 +1,169 @@
+/**
+ * Command-line companion to the flow builder for scripting flow creation.
+ *
+ *   npx tsx scripts/flows.ts validate welcome.yaml
+ *   npx tsx scripts/flows.ts preview welcome.yaml
+ *   npx tsx scripts/flows.ts create specs/*.yaml --base-url http://localhost:4010/api
+ *
+ * Specs use the same format as the builder's spec export, and go through the
+ * same sanitization and validation as `POST /api/flows`.
+ */
+import { readFile } from "fs/promises";
+import { userInfo } from "os";
+import { parseArgs } from "util";
+import { postFlowWithAudit } from "@/lib/auditLog";
+import { prepareFlow, type PreparedFlow } from "@/lib/flowPayload";
+import { parseFlowSpec, type ParsedFlowSpec } from "@/lib/flowSpec";
+import { parseIssuePath } from "@/lib/flowValidation";
+import { KLAVIYO_BASE_URL } from "@/lib/klaviyoApi";
+import { resourceOf } from "@/lib/klaviyoClient";
+import { mapKlaviyoErrors } from "@/lib/klaviyoErrors";
+
+const USAGE = `Usage: flows <command> <spec...> [options]
+
+Commands:
+  validate   Check spec files and print warnings
+  preview    Print the Klaviyo request body each spec would send
+  create     Create a Klaviyo flow from each spec (needs KLAVIYO_API_KEY)
+
+Options:
+  --base-url <url>   Klaviyo API base URL (default ${KLAVIYO_BASE_URL})
+  -h, --help         Show this help`;
+
+const COMMANDS = ["validate", "preview", "create"];
+
+type LoadedSpec = Exclude<PreparedFlow, { error: string }> &
+  Pick<ParsedFlowSpec, "lineOf">;
+
+const reportError = (file: string, line: number | null, message: string) => {
+  console.error(`${file}${line ? `:${line}` : ""}: error: ${message}`);
+};
+
+const loadSpec = async (file: string): Promise<LoadedSpec | null> => {
+  const spec = parseFlowSpec(await readFile(file, "utf8"));
+  if (!spec.payload) {
+    spec.issues.forEach((issue) => reportError(file, issue.line, issue.message));
+    return null;
+  }
+
+  const prepared = prepareFlow(spec.payload);
+  if ("error" in prepared) {
+    if (!prepared.issues) {
+      reportError(file, null, prepared.error);
+    }
+    prepared.issues?.forEach((issue) =>
+      reportError(file, spec.lineOf(parseIssuePath(issue.path)), issue.message),
+    );
+    return null;
+  }
+
+  prepared.warnings.forEach((warning) =>
+    console.warn(`${file}: warning: ${warning}`),
+  );
+  return { ...prepared, lineOf: spec.lineOf };
+};
+
+/** Returns the new flow ID, or null after reporting why Klaviyo rejected it. */
+const createFlow = async (
+  file: string,
+  prepared: LoadedSpec,
+  apiKey: string,
+  baseUrl: string,
+) => {
+  const { ok, status, json, attempts, auditError } = await postFlowWithAudit(
+    apiKey,
+    prepared,
+    { user: userInfo().username, account: null, source: "cli" },
+    baseUrl,
+  );
+  attempts.slice(0, -1).forEach(({ attempt, status: retried, error }) =>
+    console.warn(
+      `attempt ${attempt} failed (${retried ?? error}); retrying`,
+    ),
+  );
+  if (auditError) {
+    console.warn(`${file}: warning: ${auditError}`);
+  }
+
+  if (!ok) {
+    const errors = mapKlaviyoErrors(json, prepared.actionPaths);
+    if (!errors.length) {
+      throw new Error(
+        `Klaviyo API request failed with ${status}: ${JSON.stringify(json)}`,
+      );
+    }
+    errors.forEach((error) =>
+      reportError(
+        file,
+        error.path ? prepared.lineOf(parseIssuePath(error.path)) : null,
+        error.message,
+      ),
+    );
+    return null;
+  }
+  return resourceOf(json)?.id ?? "(no id returned)";
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "base-url": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...files] = positionals;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!command || !COMMANDS.includes(command) || !files.length) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const apiKey = process.env.KLAVIYO_API_KEY;
+  if (command === "create" && !apiKey) {
+    console.error("KLAVIYO_API_KEY is not set.");
+    return 2;
+  }
+  const baseUrl = values["base-url"] ?? KLAVIYO_BASE_URL;
+
+  let failures = 0;
+  for (const file of files) {
+    try {
+      const prepared = await loadSpec(file);
+      if (!prepared) {
+        failures += 1;
+        continue;
+      }
+
+      if (command === "validate") {
+        console.log(`${file}: ok`);
+      } else if (command === "preview") {
+        console.log(JSON.stringify(prepared.klaviyoPayload, null, 2));
+      } else {
+        const id = await createFlow(file, prepared, apiKey!, baseUrl);
+        if (id === null) {
+          failures += 1;
+        } else {
+          console.log(`${file}: created flow ${id}`);
+        }
+      }
+    } catch (error) {
+      failures += 1;
+      reportError(
+        file,
+        null,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  return failures ? 1 : 0;
+};
+
+main().then((code) => {
+  process.exitCode = code;
+});
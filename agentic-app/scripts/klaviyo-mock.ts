@@ -0,0 +1,1056 @@
+/**
+ * A local stand-in for the parts of the Klaviyo API the builder uses, for
+ * exercising the app without a real account.
+ *
+ *   npx tsx scripts/klaviyo-mock.ts --port 4010 --latency 300 --rate-limit 30
+ *   KLAVIYO_BASE_URL=http://localhost:4010/api npm run dev
+ *
+ * It serves flows (including status changes and deletes), flow
+ * actions and messages, templates, lists, segments and metrics from memory,
+ * answers with JSON:API errors shaped like Klaviyo's, and records every request
+ * so a test can assert on exactly what was sent. The `/__mock` endpoints
+ * inspect and control it:
+ *
+ *   GET    /__mock/requests  Requests received so far, oldest first
+ *   DELETE /__mock/requests  Forget recorded requests
+ *   POST   /__mock/reset     Restore the seed data and forget requests/faults
+ *   POST   /__mock/faults    Queue canned failures, e.g.
+ *                            {"method":"POST","path":"/api/flows/","status":429,"count":2}
+ *                            or {"path":"/api/flows/","drop":true} to handle the
+ *                            request and then close the connection unanswered
+ */
+import { randomBytes, randomUUID } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { parseArgs } from "util";
+import { KLAVIYO_REVISION } from "@/lib/klaviyoApi";
+import { WEEKDAYS, type StepStatus, type Weekday } from "@/lib/klaviyo";
+import {
+  ACTION_STATUSES,
+  FLOW_STATUSES,
+  type FlowStatus,
+} from "@/lib/klaviyoFlows";
+import { isCalendarDate, isTimeOfDay } from "@/lib/sendWindow";
+import { isValidTimezone } from "@/lib/timezones";
+
+const USAGE = `Usage: klaviyo-mock [options]
+
+Options:
+  --port <n>         Port to listen on (default 4010)
+  --latency <ms>     Delay each response by a random 0..ms (default 0)
+  --rate-limit <n>   Requests per minute per API key before answering 429
+                     (default 0, no limit)
+  --api-key <key>    Only accept this private key (default: any key)
+  -h, --help         Show this help
+
+Point the app or CLI at http://localhost:<port>/api.`;
+
+const PAGE_SIZE = 10;
+const WINDOW_MS = 60_000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Klaviyo reports trigger types by display name.
+const TRIGGER_TYPE_NAMES: Record<string, string> = {
+  list: "Added to List",
+  segment: "Added to Segment",
+  metric: "Metric",
+};
+
+const DELAY_UNITS = ["minutes", "hours", "days"];
+
+const ACTION_TYPES = [
+  "send-email",
+  "send-sms",
+  "send-push-notification",
+  "time-delay",
+  "conditional-split",
+  "trigger-split",
+];
+
+interface Resource {
+  type: string;
+  id: string;
+  attributes: Record<string, unknown>;
+}
+
+interface StoredFlow extends Resource {
+  definition: FlowDefinition;
+}
+
+interface FlowAction {
+  id?: string;
+  temporary_id?: string;
+  type: string;
+  links: Record<string, string | null | undefined>;
+  data: Record<string, unknown> & { message?: Record<string, unknown> };
+}
+
+interface FlowDefinition {
+  triggers: { type: string; id: string }[];
+  profile_filter: unknown;
+  actions: FlowAction[];
+  entry_action_id: string;
+}
+
+interface RecordedRequest {
+  at: string;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  revision: string | null;
+  body: unknown;
+  status: number;
+}
+
+interface Fault {
+  method?: string;
+  path: string;
+  status?: number;
+  /** Carry out the request, then drop the connection instead of answering. */
+  drop?: boolean;
+  count: number;
+  retryAfter?: number;
+  body?: unknown;
+}
+
+interface MockState {
+  lists: Resource[];
+  segments: Resource[];
+  metrics: Resource[];
+  templates: Resource[];
+  flows: StoredFlow[];
+  /** Flow actions and messages created alongside flows, keyed by action ID. */
+  messages: Map<string, Resource[]>;
+  nextActionId: number;
+}
+
+interface JsonApiError {
+  status: number;
+  code: string;
+  title: string;
+  detail: string;
+  pointer?: string;
+}
+
+class MockError extends Error {
+  constructor(readonly errors: JsonApiError[]) {
+    super(errors[0]?.detail ?? "Mock error");
+  }
+}
+
+const klaviyoId = () =>
+  randomBytes(6)
+    .toString("base64")
+    .replace(/[^A-Za-z0-9]/g, "")
+    .slice(0, 6)
+    .padEnd(6, "X");
+
+const invalid = (detail: string, pointer?: string): JsonApiError => ({
+  status: 400,
+  code: "invalid",
+  title: "Invalid input.",
+  detail,
+  pointer,
+});
+
+const notFound = (detail: string): JsonApiError => ({
+  status: 404,
+  code: "not_found",
+  title: "Not found.",
+  detail,
+});
+
+const now = () => new Date().toISOString();
+
+const seedState = (): MockState => {
+  const created = "2024-01-15T10:00:00+00:00";
+  const audience = (type: string, id: string, name: string, count: number) => ({
+    type,
+    id,
+    attributes: { name, created, updated: created, profile_count: count },
+  });
+
+  return {
+    lists: [
+      audience("list", "LiSt01", "Newsletter", 1204),
+      audience("list", "LiSt02", "VIP customers", 86),
+    ],
+    segments: [audience("segment", "SeGm01", "Engaged last 30 days", 512)],
+    metrics: [
+      {
+        type: "metric",
+        id: "MeTr01",
+        attributes: { name: "Placed Order", created, updated: created },
+      },
+    ],
+    templates: [
+      {
+        type: "template",
+        id: "TmPl01",
+        attributes: {
+          name: "Welcome email",
+          editor_type: "CODE",
+          html: "<html><body><h1>Welcome!</h1></body></html>",
+          created,
+          updated: created,
+        },
+      },
+    ],
+    flows: [],
+    messages: new Map(),
+    nextActionId: 10_000_001,
+  };
+};
+
+let state = seedState();
+let recorded: RecordedRequest[] = [];
+let faults: Fault[] = [];
+const requestTimes = new Map<string, number[]>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new MockError([invalid("The request body is not valid JSON.")]);
+  }
+};
+
+const send = (
+  response: ServerResponse,
+  status: number,
+  body?: unknown,
+  headers: Record<string, string> = {},
+) => {
+  response.writeHead(status, {
+    "Content-Type": "application/vnd.api+json",
+    ...headers,
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const errorBody = (errors: JsonApiError[]) => ({
+  errors: errors.map(({ pointer, ...error }) => ({
+    id: randomUUID(),
+    ...error,
+    source: pointer ? { pointer } : {},
+    meta: {},
+  })),
+});
+
+/** Pages a collection with an offset cursor, the way Klaviyo links pages. */
+const page = (url: URL, resources: Resource[]) => {
+  const size = Math.min(
+    100,
+    Number(url.searchParams.get("page[size]")) || PAGE_SIZE,
+  );
+  const offset = Number(url.searchParams.get("page[cursor]")) || 0;
+  const next = new URL(url);
+  next.searchParams.set("page[cursor]", String(offset + size));
+  const prev = new URL(url);
+  prev.searchParams.set("page[cursor]", String(Math.max(0, offset - size)));
+
+  return {
+    data: resources.slice(offset, offset + size),
+    links: {
+      self: url.toString(),
+      next: offset + size < resources.length ? next.toString() : null,
+      prev: offset > 0 ? prev.toString() : null,
+    },
+  };
+};
+
+/** Supports the `contains`/`equals` filters the app sends, joined by `and`. */
+const applyFilter = (resources: Resource[], filter: string | null) => {
+  if (!filter) {
+    return resources;
+  }
+  const clauses = [
+    ...filter.matchAll(/(contains|equals)\((\w+),"((?:[^"\\]|\\.)*)"\)/g),
+  ];
+  return resources.filter((resource) =>
+    clauses.every(([, operator, field, raw]) => {
+      const value = raw.replace(/\\(.)/g, "$1");
+      const actual = String(resource.attributes[field] ?? "");
+      return operator === "contains"
+        ? actual.toLowerCase().includes(value.toLowerCase())
+        : actual === value;
+    }),
+  );
+};
+
+const sortByUpdated = (resources: Resource[]) =>
+  [...resources].sort((a, b) =>
+    String(b.attributes.updated).localeCompare(String(a.attributes.updated)),
+  );
+
+const findOr404 = <T extends Resource>(
+  resources: T[],
+  id: string,
+  label: string,
+) => {
+  const resource = resources.find((item) => item.id === id);
+  if (!resource) {
+    throw new MockError([notFound(`${label} with id "${id}" does not exist.`)]);
+  }
+  return resource;
+};
+
+const collectionFor = (name: string) =>
+  (
+    ({
+      lists: state.lists,
+      segments: state.segments,
+      metrics: state.metrics,
+    }) as Record<string, Resource[]>
+  )[name];
+
+const validateMessage = (
+  action: FlowAction,
+  pointer: string,
+): JsonApiError[] => {
+  const message = action.data?.message;
+  if (!message || typeof message !== "object") {
+    return [invalid("'message' is a required field.", `${pointer}/message`)];
+  }
+
+  const errors: JsonApiError[] = [];
+  const text = (field: string) =>
+    typeof message[field] === "string" ? (message[field] as string) : "";
+
+  if (action.type === "send-email") {
+    if (!EMAIL_PATTERN.test(text("from_email"))) {
+      errors.push(
+        invalid(
+          "'from_email' must be a valid email address.",
+          `${pointer}/message/from_email`,
+        ),
+      );
+    }
+    if (!text("subject_line").trim()) {
+      errors.push(
+        invalid(
+          "'subject_line' is a required field.",
+          `${pointer}/message/subject_line`,
+        ),
+      );
+    }
+    const templateId = message.template_id;
+    if (
+      templateId !== null &&
+      templateId !== undefined &&
+      !state.templates.some((template) => template.id === templateId)
+    ) {
+      errors.push(
+        invalid(
+          `Template with id "${String(templateId)}" does not exist.`,
+          `${pointer}/message/template_id`,
+        ),
+      );
+    }
+  }
+
+  if (action.type === "send-sms" && !text("body").trim()) {
+    errors.push(
+      invalid("'body' is a required field.", `${pointer}/message/body`),
+    );
+  }
+
+  if (action.type === "send-push-notification") {
+    ["title", "body"]
+      .filter((field) => !text(field).trim())
+      .forEach((field) =>
+        errors.push(
+          invalid(
+            `'${field}' is a required field.`,
+            `${pointer}/message/${field}`,
+          ),
+        ),
+      );
+  }
+
+  return errors;
+};
+
+/** Checks a flow create body the way Klaviyo does, reporting every problem. */
+const validateFlow = (body: unknown): JsonApiError[] => {
+  const data = (body as { data?: Record<string, unknown> } | null)?.data;
+  if (!data || data.type !== "flow") {
+    return [invalid("Expected a resource of type 'flow'.", "/data/type")];
+  }
+
+  const attributes = (data.attributes ?? {}) as Record<string, unknown>;
+  const errors: JsonApiError[] = [];
+
+  if (typeof attributes.name !== "string" || !attributes.name.trim()) {
+    errors.push(
+      invalid("'name' is a required field.", "/data/attributes/name"),
+    );
+  }
+
+  const definition = attributes.definition as FlowDefinition | undefined;
+  const base = "/data/attributes/definition";
+  if (!definition || typeof definition !== "object") {
+    return [...errors, invalid("'definition' is a required field.", base)];
+  }
+
+  if (!Array.isArray(definition.triggers) || definition.triggers.length !== 1) {
+    errors.push(
+      invalid("A flow must have exactly one trigger.", `${base}/triggers`),
+    );
+  } else {
+    const [trigger] = definition.triggers;
+    const collection = collectionFor(`${trigger.type}s`);
+    if (!collection) {
+      errors.push(
+        invalid(
+          `'${trigger.type}' is not a supported trigger type.`,
+          `${base}/triggers/0/type`,
+        ),
+      );
+    } else if (!collection.some((item) => item.id === trigger.id)) {
+      errors.push(
+        invalid(
+          `${TRIGGER_TYPE_NAMES[trigger.type]} trigger references "${trigger.id}", which does not exist.`,
+          `${base}/triggers/0/id`,
+        ),
+      );
+    }
+  }
+
+  const actions = Array.isArray(definition.actions) ? definition.actions : [];
+  if (!actions.length) {
+    errors.push(
+      invalid("A flow must have at least one action.", `${base}/actions`),
+    );
+  }
+
+  const ids = new Set(actions.map((action) => action.temporary_id));
+  if (!ids.has(definition.entry_action_id)) {
+    errors.push(
+      invalid(
+        "'entry_action_id' does not match any action.",
+        `${base}/entry_action_id`,
+      ),
+    );
+  }
+
+  actions.forEach((action, index) => {
+    const pointer = `${base}/actions/${index}`;
+
+    if (!ACTION_TYPES.includes(action.type)) {
+      errors.push(
+        invalid(
+          `'${action.type}' is not a supported action type.`,
+          `${pointer}/type`,
+        ),
+      );
+      return;
+    }
+
+    Object.entries(action.links ?? {}).forEach(([link, target]) => {
+      if (target && !ids.has(target)) {
+        errors.push(
+          invalid(
+            `'${link}' points at "${target}", which is not an action in this flow.`,
+            `${pointer}/links/${link}`,
+          ),
+        );
+      }
+    });
+
+    if (action.type === "time-delay") {
+      const value = action.data?.value;
+      const untilDate = action.data?.delay_until_date;
+      const untilTime = action.data?.delay_until_time;
+      const weekdays = action.data?.delay_until_weekdays;
+      if (untilDate !== undefined) {
+        if (typeof untilDate !== "string" || !isCalendarDate(untilDate)) {
+          errors.push(
+            invalid(
+              "Delay 'delay_until_date' must be a date in YYYY-MM-DD format.",
+              `${pointer}/data/delay_until_date`,
+            ),
+          );
+        }
+      } else {
+        if (
+          typeof value !== "number" ||
+          !Number.isInteger(value) ||
+          value < 1
+        ) {
+          errors.push(
+            invalid(
+              "Delay 'value' must be a positive whole number.",
+              `${pointer}/data/value`,
+            ),
+          );
+        }
+        if (!DELAY_UNITS.includes(String(action.data?.unit))) {
+          errors.push(
+            invalid(
+              `Delay 'unit' must be one of ${DELAY_UNITS.join(", ")}.`,
+              `${pointer}/data/unit`,
+            ),
+          );
+        }
+      }
+      const timezone = action.data?.timezone;
+      if (
+        timezone !== undefined &&
+        (typeof timezone !== "string" || !isValidTimezone(timezone))
+      ) {
+        errors.push(
+          invalid(
+            "Delay 'timezone' must be profile, account or an IANA timezone.",
+            `${pointer}/data/timezone`,
+          ),
+        );
+      }
+      if (
+        untilTime !== undefined &&
+        (typeof untilTime !== "string" || !isTimeOfDay(untilTime))
+      ) {
+        errors.push(
+          invalid(
+            "Delay 'delay_until_time' must be a 24-hour HH:MM time.",
+            `${pointer}/data/delay_until_time`,
+          ),
+        );
+      }
+      if (
+        weekdays !== undefined &&
+        (!Array.isArray(weekdays) ||
+          !weekdays.length ||
+          weekdays.some((day) => !WEEKDAYS.includes(day as Weekday)))
+      ) {
+        errors.push(
+          invalid(
+            `Delay 'delay_until_weekdays' must list days from ${WEEKDAYS.join(", ")}.`,
+            `${pointer}/data/delay_until_weekdays`,
+          ),
+        );
+      }
+      return;
+    }
+
+    if (action.type.endsWith("-split")) {
+      const filter =
+        action.type === "trigger-split"
+          ? action.data?.trigger_filter
+          : action.data?.profile_filter;
+      if (!filter) {
+        errors.push(invalid("A split needs a filter.", `${pointer}/data`));
+      }
+      return;
+    }
+
+    errors.push(...validateMessage(action, `${pointer}/data`));
+  });
+
+  return errors;
+};
+
+/** Swaps temporary IDs for permanent ones, as Klaviyo does on create. */
+const storeFlow = (name: string, definition: FlowDefinition): StoredFlow => {
+  const idFor = new Map<string, string>();
+  definition.actions.forEach((action) =>
+    idFor.set(action.temporary_id ?? "", String(state.nextActionId++)),
+  );
+  const remap = (id: string | null | undefined) =>
+    id ? (idFor.get(id) ?? id) : null;
+
+  const actions = definition.actions.map(({ temporary_id, ...action }) => ({
+    ...action,
+    id: remap(temporary_id)!,
+    links: Object.fromEntries(
+      Object.entries(action.links ?? {}).map(([link, target]) => [
+        link,
+        remap(target),
+      ]),
+    ),
+  }));
+
+  actions.forEach((action) => {
+    if (action.data?.message) {
+      state.messages.set(action.id, [
+        {
+          type: "flow-message",
+          id: klaviyoId(),
+          attributes: {
+            name: action.data.message.name ?? "",
+            channel: action.type
+              .replace(/^send-/, "")
+              .replace("-notification", ""),
+            content: {
+              subject: action.data.message.subject_line,
+              from_email: action.data.message.from_email,
+            },
+            created: now(),
+            updated: now(),
+          },
+        },
+      ]);
+    }
+  });
+
+  const flow: StoredFlow = {
+    type: "flow",
+    id: klaviyoId(),
+    attributes: {
+      name,
+      status: "draft",
+      archived: false,
+      trigger_type: TRIGGER_TYPE_NAMES[definition.triggers[0].type],
+      created: now(),
+      updated: now(),
+    },
+    definition: {
+      ...definition,
+      actions,
+      entry_action_id: remap(definition.entry_action_id)!,
+    },
+  };
+  state.flows.push(flow);
+  return flow;
+};
+
+const flowResource = (flow: StoredFlow, url: URL): Resource => ({
+  type: flow.type,
+  id: flow.id,
+  attributes: url.searchParams
+    .get("additional-fields[flow]")
+    ?.includes("definition")
+    ? { ...flow.attributes, definition: flow.definition }
+    : flow.attributes,
+});
+
+const actionResource = (action: FlowAction): Resource => ({
+  type: "flow-action",
+  id: action.id!,
+  attributes: {
+    action_type: action.type.toUpperCase().replace(/-/g, "_"),
+    status: (action.data?.status as string | undefined) ?? "draft",
+    settings: {},
+  },
+});
+
+/** Routes a Klaviyo API request; returns the status and JSON:API body. */
+const route = async (
+  method: string,
+  url: URL,
+  body: unknown,
+): Promise<[number, unknown]> => {
+  const parts = url.pathname
+    .replace(/^\/api\/?/, "")
+    .split("/")
+    .filter(Boolean);
+  const [collection, id, relation, related] = parts;
+
+  if (collection === "flows") {
+    if (!id && method === "GET") {
+      return [
+        200,
+        page(
+          url,
+          sortByUpdated(
+            applyFilter(state.flows, url.searchParams.get("filter")),
+          ),
+        ),
+      ];
+    }
+    if (!id && method === "POST") {
+      const errors = validateFlow(body);
+      if (errors.length) {
+        throw new MockError(errors);
+      }
+      const { attributes } = (body as { data: Resource }).data;
+      const flow = storeFlow(
+        String(attributes.name),
+        attributes.definition as FlowDefinition,
+      );
+      return [201, { data: flowResource(flow, url) }];
+    }
+    if (id && method === "GET") {
+      const flow = findOr404(state.flows, id, "Flow");
+      const included = url.searchParams.get("include")?.includes("flow-actions")
+        ? flow.definition.actions.map(actionResource)
+        : undefined;
+      return [200, { data: flowResource(flow, url), included }];
+    }
+    if (id && method === "PATCH") {
+      const flow = findOr404(state.flows, id, "Flow");
+      const attributes = ((body as { data?: Resource } | null)?.data
+        ?.attributes ?? {}) as Record<string, unknown>;
+      // Update Flow only accepts a status, like Klaviyo's; names are fixed.
+      const unsupported = Object.keys(attributes).filter(
+        (name) => name !== "status",
+      );
+      if (unsupported.length) {
+        throw new MockError(
+          unsupported.map((name) =>
+            invalid(
+              `'${name}' is not a valid field for the resource 'flow'.`,
+              `/data/attributes/${name}`,
+            ),
+          ),
+        );
+      }
+      if (!FLOW_STATUSES.includes(attributes.status as FlowStatus)) {
+        throw new MockError([
+          invalid(
+            `'status' must be one of ${FLOW_STATUSES.join(", ")}.`,
+            "/data/attributes/status",
+          ),
+        ]);
+      }
+      // A flow status change cascades to every action, as in Klaviyo.
+      flow.definition.actions.forEach((action) => {
+        action.data = { ...action.data, status: attributes.status };
+      });
+      Object.assign(flow.attributes, {
+        status: attributes.status,
+        updated: now(),
+      });
+      return [200, { data: flowResource(flow, url) }];
+    }
+    if (id && method === "DELETE") {
+      findOr404(state.flows, id, "Flow");
+      state.flows = state.flows.filter((flow) => flow.id !== id);
+      return [204, undefined];
+    }
+  }
+
+  if (collection === "flow-actions" && id) {
+    const owner = state.flows.find((flow) =>
+      flow.definition.actions.some((candidate) => candidate.id === id),
+    );
+    const action = owner?.definition.actions.find(
+      (candidate) => candidate.id === id,
+    );
+    if (!owner || !action) {
+      throw new MockError([
+        notFound(`Flow action with id "${id}" does not exist.`),
+      ]);
+    }
+    if (
+      relation === "relationships" &&
+      related === "flow" &&
+      method === "GET"
+    ) {
+      return [200, { data: { type: "flow", id: owner.id } }];
+    }
+    if (relation === "flow-messages" && method === "GET") {
+      return [
+        200,
+        { data: state.messages.get(id) ?? [], links: { next: null } },
+      ];
+    }
+    if (!relation && method === "PATCH") {
+      const status = (body as { data?: Resource } | null)?.data?.attributes
+        ?.status;
+      if (!ACTION_STATUSES.includes(status as StepStatus)) {
+        throw new MockError([
+          invalid(
+            `'status' must be one of ${ACTION_STATUSES.join(", ")}.`,
+            "/data/attributes/status",
+          ),
+        ]);
+      }
+      action.data = { ...action.data, status };
+      return [200, { data: actionResource(action) }];
+    }
+  }
+
+  if (collection === "templates") {
+    if (!id && method === "GET") {
+      return [200, page(url, sortByUpdated(state.templates))];
+    }
+    if (!id && method === "POST") {
+      const attributes = ((body as { data?: Resource } | null)?.data
+        ?.attributes ?? {}) as Record<string, unknown>;
+      const errors = [
+        typeof attributes.name === "string" && attributes.name.trim()
+          ? null
+          : invalid("'name' is a required field.", "/data/attributes/name"),
+        attributes.editor_type === "CODE"
+          ? null
+          : invalid(
+              "Only 'CODE' templates can be created through the API.",
+              "/data/attributes/editor_type",
+            ),
+        typeof attributes.html === "string" && attributes.html.trim()
+          ? null
+          : invalid("'html' is a required field.", "/data/attributes/html"),
+      ].filter((error): error is JsonApiError => Boolean(error));
+      if (errors.length) {
+        throw new MockError(errors);
+      }
+      const template: Resource = {
+        type: "template",
+        id: klaviyoId(),
+        attributes: {
+          name: attributes.name,
+          editor_type: "CODE",
+          html: attributes.html,
+          created: now(),
+          updated: now(),
+        },
+      };
+      state.templates.push(template);
+      return [201, { data: template }];
+    }
+    if (id && method === "GET") {
+      return [200, { data: findOr404(state.templates, id, "Template") }];
+    }
+  }
+
+  const audiences = collectionFor(collection);
+  if (audiences && method === "GET") {
+    const label = collection
+      .replace(/s$/, "")
+      .replace(/^./, (c) => c.toUpperCase());
+    return id
+      ? [200, { data: findOr404(audiences, id, label) }]
+      : [200, page(url, audiences)];
+  }
+
+  throw new MockError([
+    {
+      status: 404,
+      code: "not_found",
+      title: "Not found.",
+      detail: `The mock doesn't implement ${method} ${url.pathname}.`,
+    },
+  ]);
+};
+
+/** Answers with a queued fault if one matches, consuming it. */
+const takeFault = (method: string, path: string) => {
+  const fault = faults.find(
+    (candidate) =>
+      candidate.count > 0 &&
+      (!candidate.method || candidate.method.toUpperCase() === method) &&
+      path.startsWith(candidate.path),
+  );
+  if (fault) {
+    fault.count -= 1;
+    faults = faults.filter((candidate) => candidate.count > 0);
+  }
+  return fault ?? null;
+};
+
+/** True when the key has used up its per-minute budget. */
+const isThrottled = (apiKey: string, limit: number) => {
+  if (!limit) {
+    return false;
+  }
+  const current = Date.now();
+  const recent = (requestTimes.get(apiKey) ?? []).filter(
+    (sentAt) => current - sentAt < WINDOW_MS,
+  );
+  const throttled = recent.length >= limit;
+  if (!throttled) {
+    recent.push(current);
+  }
+  requestTimes.set(apiKey, recent);
+  return throttled;
+};
+
+const throttledError = (retryAfter: number): JsonApiError => ({
+  status: 429,
+  code: "throttled",
+  title: "Request was throttled.",
+  detail: `Request was throttled. Expected available in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`,
+});
+
+const handleControl = async (
+  method: string,
+  url: URL,
+  request: IncomingMessage,
+  response: ServerResponse,
+) => {
+  if (url.pathname === "/__mock/requests" && method === "GET") {
+    return send(response, 200, { data: recorded });
+  }
+  if (url.pathname === "/__mock/requests" && method === "DELETE") {
+    recorded = [];
+    return send(response, 204);
+  }
+  if (url.pathname === "/__mock/reset" && method === "POST") {
+    state = seedState();
+    recorded = [];
+    faults = [];
+    requestTimes.clear();
+    return send(response, 204);
+  }
+  if (url.pathname === "/__mock/faults" && method === "POST") {
+    const fault = (await readBody(request)) as Partial<Fault> | null;
+    if (!fault?.path || (!fault.status && !fault.drop)) {
+      return send(response, 400, {
+        error: "A fault needs a path prefix and a status or drop.",
+      });
+    }
+    faults.push({ count: 1, ...fault } as Fault);
+    return send(response, 201, { data: faults });
+  }
+  return send(response, 404, { error: "Unknown mock control endpoint." });
+};
+
+const createMockServer = (options: {
+  latency: number;
+  rateLimit: number;
+  apiKey?: string;
+}) =>
+  createServer(async (request, response) => {
+    const method = (request.method ?? "GET").toUpperCase();
+    const url = new URL(request.url ?? "/", `http://${request.headers.host}`);
+
+    if (url.pathname.startsWith("/__mock/")) {
+      return handleControl(method, url, request, response).catch(() =>
+        send(response, 400, { error: "Invalid control request." }),
+      );
+    }
+
+    if (options.latency) {
+      await sleep(Math.random() * options.latency);
+    }
+
+    let body: unknown = null;
+    let status = 500;
+    let result: unknown;
+    const headers: Record<string, string> = {};
+    let fault: Fault | null = null;
+
+    try {
+      body = await readBody(request);
+
+      const apiKey = /^Klaviyo-API-Key (\S+)$/.exec(
+        String(request.headers.authorization ?? ""),
+      )?.[1];
+      if (!apiKey || (options.apiKey && apiKey !== options.apiKey)) {
+        throw new MockError([
+          {
+            status: 401,
+            code: "not_authenticated",
+            title: "Authentication credentials were not provided.",
+            detail: "Missing or invalid private key.",
+          },
+        ]);
+      }
+      if (!request.headers.revision) {
+        throw new MockError([
+          invalid("The 'revision' header is required.", undefined),
+        ]);
+      }
+
+      fault = takeFault(method, url.pathname);
+      if (fault?.drop) {
+        [status, result] = await route(method, url, body);
+      } else if (fault?.status) {
+        if (fault.status === 429) {
+          headers["Retry-After"] = String(fault.retryAfter ?? 1);
+        }
+        status = fault.status;
+        result =
+          fault.body ??
+          errorBody([
+            fault.status === 429
+              ? throttledError(fault.retryAfter ?? 1)
+              : {
+                  status: fault.status,
+                  code: "error",
+                  title: "A server error occurred.",
+                  detail: "Injected by the mock server.",
+                },
+          ]);
+      } else if (isThrottled(apiKey, options.rateLimit)) {
+        headers["Retry-After"] = "1";
+        status = 429;
+        result = errorBody([throttledError(1)]);
+      } else {
+        [status, result] = await route(method, url, body);
+      }
+    } catch (error) {
+      const errors =
+        error instanceof MockError
+          ? error.errors
+          : [
+              {
+                status: 500,
+                code: "error",
+                title: "A server error occurred.",
+                detail: error instanceof Error ? error.message : String(error),
+              },
+            ];
+      status = errors[0].status;
+      result = errorBody(errors);
+    }
+
+    recorded.push({
+      at: now(),
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      revision: (request.headers.revision as string | undefined) ?? null,
+      body,
+      status,
+    });
+    if (fault?.drop) {
+      request.socket.destroy();
+      return;
+    }
+    send(response, status, result, headers);
+  });
+
+const main = async (): Promise<number> => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string" },
+      latency: { type: "string" },
+      "rate-limit": { type: "string" },
+      "api-key": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const port = Number(values.port ?? 4010);
+  const latency = Number(values.latency ?? 0);
+  const rateLimit = Number(values["rate-limit"] ?? 0);
+  if (
+    ![port, latency, rateLimit].every(
+      (value) => Number.isInteger(value) && value >= 0,
+    )
+  ) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const server = createMockServer({
+    latency,
+    rateLimit,
+    apiKey: values["api-key"],
+  });
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log(
+    `Mock Klaviyo API (revision ${KLAVIYO_REVISION}) listening on http://localhost:${port}/api`,
+  );
+  return 0;
+};
+
+main().then((code) => {
+  process.exitCode = code;
+});
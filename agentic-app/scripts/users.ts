@@ -0,0 +1,103 @@
+/**
+ * Manages the builder's local sign-in accounts.
+ *
+ *   FLOW_BUILDER_PASSWORD=... npx tsx scripts/users.ts add alice --role publisher
+ *   npx tsx scripts/users.ts role bob editor
+ *   npx tsx scripts/users.ts list
+ *
+ * Users live in the same data directory as drafts (`DATA_DIR`, default
+ * `.data/`), with passwords stored as scrypt hashes.
+ */
+import { parseArgs } from "util";
+import { ROLES, isRole } from "@/lib/session";
+import {
+  MIN_PASSWORD_LENGTH,
+  deleteUser,
+  listUsers,
+  saveUser,
+  setUserRole,
+} from "@/lib/userStore";
+
+const USAGE = `Usage: users <command> [args] [options]
+
+Commands:
+  add <username>          Create a user, or reset an existing user's password
+  role <username> <role>  Change a user's role
+  remove <username>       Delete a user
+  list                    List users and roles
+
+Options:
+  --role <role>       Role for add: ${ROLES.join(", ")} (default viewer)
+  --password <value>  Password for add; prefer FLOW_BUILDER_PASSWORD so it
+                      stays out of shell history
+  -h, --help          Show this help`;
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      role: { type: "string" },
+      password: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, username, roleArg] = positionals;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (command === "list") {
+    (await listUsers()).forEach((user) =>
+      console.log(`${user.username}\t${user.role}`),
+    );
+    return 0;
+  }
+
+  if (!username || !["add", "role", "remove"].includes(command)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (command === "remove") {
+    if (!(await deleteUser(username))) {
+      console.error(`No user named ${username}.`);
+      return 1;
+    }
+    console.log(`Removed ${username}.`);
+    return 0;
+  }
+
+  const role = command === "role" ? roleArg : (values.role ?? "viewer");
+  if (!isRole(role)) {
+    console.error(`Role must be one of: ${ROLES.join(", ")}.`);
+    return 2;
+  }
+
+  if (command === "role") {
+    const user = await setUserRole(username, role);
+    if (!user) {
+      console.error(`No user named ${username}.`);
+      return 1;
+    }
+    console.log(`${user.username}'s role is now ${user.role}.`);
+    return 0;
+  }
+
+  const password = values.password ?? process.env.FLOW_BUILDER_PASSWORD ?? "";
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(
+      `Set a password of at least ${MIN_PASSWORD_LENGTH} characters with --password or FLOW_BUILDER_PASSWORD.`,
+    );
+    return 2;
+  }
+
+  const user = await saveUser(username, password, role);
+  console.log(`Saved ${user.username} (${user.role}).`);
+  return 0;
+};
+
+main().then((code) => {
+  process.exitCode = code;
+});
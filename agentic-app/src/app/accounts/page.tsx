@@ -0,0 +1,462 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+import TimezonePicker from "@/components/TimezonePicker";
+import UserMenu from "@/components/UserMenu";
+import type { AccountDefaults, AccountSummary } from "@/lib/accountStore";
+import type { ValidationIssue } from "@/lib/flowValidation";
+
+interface AccountResponse<T> {
+  data?: T;
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+interface TrackingRow {
+  id: string;
+  param: string;
+  value: string;
+}
+
+interface AccountFormState {
+  name: string;
+  apiKey: string;
+  fromName: string;
+  fromEmail: string;
+  replyToEmail: string;
+  timezone: string;
+  trackingRows: TrackingRow[];
+}
+
+const EMPTY_FORM: AccountFormState = {
+  name: "",
+  apiKey: "",
+  fromName: "",
+  fromEmail: "",
+  replyToEmail: "",
+  timezone: "profile",
+  trackingRows: [],
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20";
+
+const createRow = (param = "", value = ""): TrackingRow => ({
+  id: crypto.randomUUID(),
+  param,
+  value,
+});
+
+const toFormState = (account: AccountSummary): AccountFormState => ({
+  name: account.name,
+  apiKey: "",
+  fromName: account.defaults.fromName,
+  fromEmail: account.defaults.fromEmail,
+  replyToEmail: account.defaults.replyToEmail,
+  timezone: account.defaults.timezone,
+  trackingRows: account.defaults.trackingParams.map((track) =>
+    createRow(track.param, track.value),
+  ),
+});
+
+const toDefaults = (form: AccountFormState): AccountDefaults => ({
+  fromName: form.fromName,
+  fromEmail: form.fromEmail,
+  replyToEmail: form.replyToEmail,
+  timezone: form.timezone,
+  trackingParams: form.trackingRows.map(({ param, value }) => ({
+    param,
+    value,
+  })),
+});
+
+export default function AccountsPage() {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AccountFormState>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<ValidationIssue[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/accounts")
+      .then((response) => response.json())
+      .then((data: AccountResponse<AccountSummary[]>) => {
+        if (!cancelled) {
+          setAccounts(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Unable to load accounts.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const editing = accounts.find((account) => account.id === editingId) ?? null;
+
+  const updateForm = <Field extends keyof AccountFormState>(
+    field: Field,
+    value: AccountFormState[Field],
+  ) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const updateRow = (id: string, field: "param" | "value", value: string) =>
+    updateForm(
+      "trackingRows",
+      form.trackingRows.map((row) =>
+        row.id === id ? { ...row, [field]: value } : row,
+      ),
+    );
+
+  const fieldError = (path: string) =>
+    fieldErrors.find((issue) => issue.path === path)?.message;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFieldErrors([]);
+    setError(null);
+  };
+
+  const request = async <T,>(
+    url: string,
+    init?: RequestInit,
+  ): Promise<T | null> => {
+    setIsBusy(true);
+    setError(null);
+    setFieldErrors([]);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return null;
+      }
+      const data: AccountResponse<T> = await response.json();
+      if (!response.ok || !data.data) {
+        setError(data.error ?? "Account request failed.");
+        setFieldErrors(data.errors ?? []);
+        return null;
+      }
+      return data.data;
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Unexpected error talking to the accounts API.",
+      );
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const saved = await request<AccountSummary>(
+      editingId
+        ? `/api/accounts/${encodeURIComponent(editingId)}`
+        : "/api/accounts",
+      {
+        method: editingId ? "PUT" : "POST",
+        body: JSON.stringify({
+          name: form.name,
+          apiKey: form.apiKey,
+          defaults: toDefaults(form),
+        }),
+      },
+    );
+    if (saved) {
+      resetForm();
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleEdit = (account: AccountSummary) => {
+    setEditingId(account.id);
+    setForm(toFormState(account));
+    setFieldErrors([]);
+    setError(null);
+  };
+
+  const handleDelete = async (account: AccountSummary) => {
+    if (
+      !window.confirm(
+        `Remove "${account.name}"? Its API key is deleted from this server; flows in Klaviyo are untouched.`,
+      )
+    ) {
+      return;
+    }
+    await request(`/api/accounts/${encodeURIComponent(account.id)}`, {
+      method: "DELETE",
+    });
+    if (editingId === account.id) {
+      resetForm();
+    }
+    setRefreshKey((key) => key + 1);
+  };
+
+  const renderField = (
+    field: "name" | "fromName" | "fromEmail" | "replyToEmail",
+    label: string,
+    placeholder: string,
+  ) => {
+    const path = field === "name" ? "name" : `defaults.${field}`;
+    return (
+      <label className="flex flex-col gap-2 text-xs">
+        <span className="font-medium uppercase tracking-wide text-slate-400">
+          {label}
+        </span>
+        <input
+          className={FIELD_CLASS}
+          placeholder={placeholder}
+          value={form[field]}
+          onChange={(event) => updateForm(field, event.target.value)}
+        />
+        {fieldError(path) && (
+          <span className="text-[11px] text-rose-300">{fieldError(path)}</span>
+        )}
+      </label>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
+        <div>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-semibold tracking-tight text-white">
+                Klaviyo accounts
+              </h1>
+              <p className="mt-2 max-w-2xl text-sm text-slate-300">
+                Each client account keeps its own private API key, encrypted
+                on this server, plus the sender details, UTM parameters and
+                timezone that new steps start with.
+              </p>
+            </div>
+            <div className="flex shrink-0 flex-wrap justify-end gap-2">
+              <UserMenu />
+              <Link
+                href="/"
+                className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10"
+              >
+                Open builder
+              </Link>
+            </div>
+          </div>
+
+          <form
+            onSubmit={handleSubmit}
+            className="mt-8 space-y-5 rounded-2xl border border-slate-800 bg-slate-900/50 p-6"
+          >
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              {editing ? `Edit ${editing.name}` : "Add account"}
+            </h2>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {renderField("name", "Account name", "Acme Apparel")}
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Private API key
+                </span>
+                <input
+                  type="password"
+                  autoComplete="off"
+                  className={FIELD_CLASS}
+                  placeholder={
+                    editing
+                      ? `Leave blank to keep …${editing.apiKeyHint}`
+                      : "pk_xxxxxxxxxxxxxxxxxxxxxxxxxx"
+                  }
+                  value={form.apiKey}
+                  onChange={(event) => updateForm("apiKey", event.target.value)}
+                />
+                {fieldError("apiKey") && (
+                  <span className="text-[11px] text-rose-300">
+                    {fieldError("apiKey")}
+                  </span>
+                )}
+              </label>
+              {renderField("fromName", "Default from name", "Acme Apparel")}
+              {renderField(
+                "fromEmail",
+                "Default from email",
+                "hello@acme.example",
+              )}
+              {renderField(
+                "replyToEmail",
+                "Default reply-to email",
+                "support@acme.example",
+              )}
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Default delay timezone
+                </span>
+                <TimezonePicker
+                  className={FIELD_CLASS}
+                  value={form.timezone}
+                  onChange={(timezone) => updateForm("timezone", timezone)}
+                  showDstPreview
+                />
+                {fieldError("defaults.timezone") && (
+                  <span className="text-[11px] text-rose-300">
+                    {fieldError("defaults.timezone")}
+                  </span>
+                )}
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                  Default UTM parameters
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateForm("trackingRows", [
+                      ...form.trackingRows,
+                      createRow(),
+                    ])
+                  }
+                  className="text-xs text-indigo-300 transition hover:text-indigo-100"
+                >
+                  Add parameter
+                </button>
+              </div>
+              {form.trackingRows.map((row) => (
+                <div
+                  key={row.id}
+                  className="grid gap-2 md:grid-cols-[1fr_1fr_auto]"
+                >
+                  <input
+                    className={FIELD_CLASS}
+                    placeholder="utm_source"
+                    value={row.param}
+                    onChange={(event) =>
+                      updateRow(row.id, "param", event.target.value)
+                    }
+                  />
+                  <input
+                    className={FIELD_CLASS}
+                    placeholder="klaviyo"
+                    value={row.value}
+                    onChange={(event) =>
+                      updateRow(row.id, "value", event.target.value)
+                    }
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateForm(
+                        "trackingRows",
+                        form.trackingRows.filter((item) => item.id !== row.id),
+                      )
+                    }
+                    className="text-xs text-slate-400 transition hover:text-rose-200"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              {!form.trackingRows.length && (
+                <p className="text-[11px] text-slate-500">
+                  No default parameters; new email steps start without UTM
+                  tracking.
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <p className="rounded-lg border border-rose-500/40 bg-rose-500/10 px-3 py-2 text-sm text-rose-200">
+                {error}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isBusy}
+                className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+              >
+                {editing ? "Save changes" : "Add account"}
+              </button>
+              {editing && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+
+        <aside className="space-y-6">
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              Accounts
+            </h2>
+            <ul className="mt-4 space-y-2 text-xs">
+              {accounts.map((account) => (
+                <li
+                  key={account.id}
+                  className={`rounded-lg border px-3 py-2 ${
+                    account.id === editingId
+                      ? "border-indigo-500/60 bg-indigo-500/10"
+                      : "border-slate-800 bg-slate-950/60"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="truncate font-medium text-slate-100">
+                      {account.name}
+                    </p>
+                    <div className="flex shrink-0 gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(account)}
+                        className="text-indigo-300 transition hover:text-indigo-100"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(account)}
+                        disabled={isBusy}
+                        className="text-slate-400 transition hover:text-rose-200 disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <p className="mt-1 text-[11px] text-slate-500">
+                    Key …{account.apiKeyHint} ·{" "}
+                    {account.defaults.fromEmail || "no default sender"}
+                  </p>
+                </li>
+              ))}
+              {!accounts.length && (
+                <li className="text-slate-500">
+                  No accounts yet. Flows use the server&apos;s
+                  KLAVIYO_API_KEY until you add one.
+                </li>
+              )}
+            </ul>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import {
+  deleteAccount,
+  getAccount,
+  isAccountInput,
+  isAccountStoreConfigured,
+  updateAccount,
+  validateAccountInput,
+} from "@/lib/accountStore";
+import { summarizeIssues } from "@/lib/flowPayload";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      error: "Klaviyo account not found.",
+    },
+    { status: 404 },
+  );
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const account = await getAccount(id);
+
+  return account ? NextResponse.json({ data: account }) : notFound();
+}
+
+/**
+ * Updates the name, brand defaults or API key. Omitting `apiKey` (or sending
+ * it blank) keeps the stored key.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!isAccountInput(body)) {
+    return NextResponse.json(
+      {
+        error:
+          "Account name, API key and defaults must be strings, and default tracking params a list of { param, value } strings.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.apiKey?.trim() && !isAccountStoreConfigured()) {
+    return NextResponse.json(
+      {
+        error: "ACCOUNTS_SECRET is not configured on the server.",
+      },
+      { status: 500 },
+    );
+  }
+
+  const issues = validateAccountInput(body, false);
+
+  if (issues.length) {
+    return NextResponse.json(
+      {
+        error: summarizeIssues(issues),
+        errors: issues,
+      },
+      { status: 422 },
+    );
+  }
+
+  const account = await updateAccount(id, body);
+  return account ? NextResponse.json({ data: account }) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteAccount(id))) {
+    return notFound();
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
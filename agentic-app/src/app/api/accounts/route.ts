@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import {
+  createAccount,
+  isAccountInput,
+  isAccountStoreConfigured,
+  listAccounts,
+  validateAccountInput,
+} from "@/lib/accountStore";
+import { summarizeIssues } from "@/lib/flowPayload";
+
+export async function GET() {
+  return NextResponse.json({
+    data: await listAccounts(),
+    // Lets the switcher offer the server's own key alongside stored accounts.
+    hasDefaultKey: Boolean(process.env.KLAVIYO_API_KEY),
+  });
+}
+
+export async function POST(request: Request) {
+  if (!isAccountStoreConfigured()) {
+    return NextResponse.json(
+      {
+        error: "ACCOUNTS_SECRET is not configured on the server.",
+      },
+      { status: 500 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!isAccountInput(body)) {
+    return NextResponse.json(
+      {
+        error:
+          "Account name, API key and defaults must be strings, and default tracking params a list of { param, value } strings.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const issues = validateAccountInput({ ...body, name: body.name ?? "" }, true);
+
+  if (issues.length) {
+    return NextResponse.json(
+      {
+        error: summarizeIssues(issues),
+        errors: issues,
+      },
+      { status: 422 },
+    );
+  }
+
+  const account = await createAccount(body);
+
+  return NextResponse.json({ data: account }, { status: 201 });
+}
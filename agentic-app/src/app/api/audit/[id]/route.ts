@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getAuditEntry } from "@/lib/auditLog";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const entry = await getAuditEntry(id);
+
+  if (!entry) {
+    return NextResponse.json(
+      {
+        error: "Audit entry not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ data: entry });
+}
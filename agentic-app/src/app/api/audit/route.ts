@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import {
+  AUDIT_OUTCOMES,
+  AUDIT_SOURCES,
+  MAX_AUDIT_RESULTS,
+  isAuditOutcome,
+  isAuditSource,
+  listAuditEntries,
+} from "@/lib/auditLog";
+
+/**
+ * Flow creation attempts, newest first. `q` searches flow names, users,
+ * account names, flow IDs and error messages; `limit` caps the results at
+ * up to `MAX_AUDIT_RESULTS`.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const outcome = params.get("outcome")?.trim();
+  const source = params.get("source")?.trim();
+  const limit = params.get("limit")?.trim();
+
+  if (outcome && !isAuditOutcome(outcome)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported outcome filter. Use one of: ${AUDIT_OUTCOMES.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (source && !isAuditSource(source)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported source filter. Use one of: ${AUDIT_SOURCES.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (limit && !Number.isFinite(Number(limit))) {
+    return NextResponse.json(
+      {
+        error: `The limit must be a number up to ${MAX_AUDIT_RESULTS}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json({
+    data: await listAuditEntries({
+      q: params.get("q") ?? undefined,
+      outcome: isAuditOutcome(outcome) ? outcome : undefined,
+      source: isAuditSource(source) ? source : undefined,
+      limit: limit ? Number(limit) : MAX_AUDIT_RESULTS,
+    }),
+  });
+}
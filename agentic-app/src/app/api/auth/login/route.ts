@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import {
+  clearLoginFailures,
+  loginRetryAfter,
+  loginThrottleKeys,
+  recordLoginFailure,
+} from "@/lib/loginThrottle";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  createSessionToken,
+  isSessionConfigured,
+} from "@/lib/session";
+import { authenticate } from "@/lib/userStore";
+
+interface LoginRequestBody {
+  username?: string;
+  password?: string;
+}
+
+export async function POST(request: Request) {
+  if (!isSessionConfigured()) {
+    return NextResponse.json(
+      {
+        error: "SESSION_SECRET is not configured on the server.",
+      },
+      { status: 500 },
+    );
+  }
+
+  let body: LoginRequestBody;
+  try {
+    body = (await request.json()) as LoginRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const username = `${body.username ?? ""}`;
+  const throttleKeys = loginThrottleKeys(request, username);
+  const retryAfter = loginRetryAfter(throttleKeys);
+
+  if (retryAfter > 0) {
+    const minutes = Math.ceil(retryAfter / 60_000);
+    return NextResponse.json(
+      {
+        error: `Too many failed sign-ins. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": String(Math.ceil(retryAfter / 1000)) },
+      },
+    );
+  }
+
+  const user = await authenticate(username, `${body.password ?? ""}`);
+
+  if (!user) {
+    recordLoginFailure(throttleKeys);
+    return NextResponse.json(
+      {
+        error: "Incorrect username or password.",
+      },
+      { status: 401 },
+    );
+  }
+
+  clearLoginFailures(throttleKeys);
+  const response = NextResponse.json({
+    data: { username: user.username, role: user.role },
+  });
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { ROLE_HEADER, USER_HEADER } from "@/lib/session";
+
+/** The signed-in user, as established by middleware. */
+export async function GET(request: Request) {
+  return NextResponse.json({
+    data: {
+      username: request.headers.get(USER_HEADER),
+      role: request.headers.get(ROLE_HEADER),
+    },
+  });
+}
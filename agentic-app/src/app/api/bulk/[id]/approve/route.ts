@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { approveBulkJob, getBulkJob } from "@/lib/bulkJobs";
+import { requestUser } from "@/lib/session";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Approves a validated bulk job so it can be run. As with reviews, the
+ * creator can't approve their own job.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getBulkJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: "Bulk job not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const approver = requestUser(request)?.username ?? "unknown";
+
+  if (approver === job.createdBy) {
+    return NextResponse.json(
+      {
+        error: "Someone other than the creator has to approve this job.",
+      },
+      { status: 403 },
+    );
+  }
+
+  if (job.approval) {
+    return NextResponse.json(
+      {
+        error: `This job was already approved by ${job.approval.by}.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({
+    data: await approveBulkJob(job, approver),
+  });
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { getBulkJob, isBulkJobRunning, reconcileBulkRow } from "@/lib/bulkJobs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface ReconcileRequestBody {
+  row?: number;
+  /** The flow found in Klaviyo; leave it out if the create never landed. */
+  flowId?: string;
+}
+
+/**
+ * Settles an unconfirmed row after checking Klaviyo: with the flow's ID it's
+ * marked created, without one it's pending again for the next run.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: ReconcileRequestBody;
+  try {
+    body = (await request.json()) as ReconcileRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !Number.isInteger(body?.row) ||
+    (body.flowId !== undefined && typeof body.flowId !== "string")
+  ) {
+    return NextResponse.json(
+      {
+        error: "Give the row number and, if the flow exists, its ID.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const job = await getBulkJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: "Bulk job not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  if (isBulkJobRunning(id)) {
+    return NextResponse.json(
+      {
+        error: "Wait for the job's run to finish before reconciling rows.",
+      },
+      { status: 409 },
+    );
+  }
+
+  const reconciled = await reconcileBulkRow(
+    job,
+    body.row as number,
+    body.flowId?.trim() || undefined,
+  );
+
+  return reconciled
+    ? NextResponse.json({ data: reconciled })
+    : NextResponse.json(
+        {
+          error: `Row ${body.row} isn't waiting to be reconciled.`,
+        },
+        { status: 409 },
+      );
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { deleteBulkJob, getBulkJob, isBulkJobRunning } from "@/lib/bulkJobs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      error: "Bulk job not found.",
+    },
+    { status: 404 },
+  );
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getBulkJob(id);
+
+  if (!job) {
+    return notFound();
+  }
+
+  return NextResponse.json({
+    data: { ...job, running: isBulkJobRunning(id) },
+  });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (isBulkJobRunning(id)) {
+    return NextResponse.json(
+      {
+        error: "This job is still running.",
+      },
+      { status: 409 },
+    );
+  }
+
+  if (!(await deleteBulkJob(id))) {
+    return notFound();
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
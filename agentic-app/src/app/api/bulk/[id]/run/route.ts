@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { resolveAccountKey } from "@/lib/accountStore";
+import { getBulkJob, isBulkJobRunning, runBulkJob } from "@/lib/bulkJobs";
+import { requestUser } from "@/lib/session";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Creates flows for the job's pending and failed rows once the job has been
+ * approved. Rows that were already created are skipped, so calling this again
+ * resumes an interrupted run.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getBulkJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      {
+        error: "Bulk job not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  if (!job.approval) {
+    return NextResponse.json(
+      {
+        error:
+          "Bulk jobs are run once a publisher other than their creator approves them.",
+      },
+      { status: 409 },
+    );
+  }
+
+  // Jobs run against the account they were created for.
+  const key = await resolveAccountKey(job.accountId);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  if (isBulkJobRunning(id)) {
+    return NextResponse.json(
+      {
+        error: "This job is already running. Refresh to follow its progress.",
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({
+    data: await runBulkJob(id, key.apiKey, {
+      user: requestUser(request)?.username ?? "unknown",
+      account: key.account,
+    }),
+  });
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { getAccount } from "@/lib/accountStore";
+import { parseCsv } from "@/lib/csv";
+import { isDraftPayload } from "@/lib/draftStore";
+import { MAX_BULK_ROWS, createBulkJob, listBulkJobs } from "@/lib/bulkJobs";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { requestUser } from "@/lib/session";
+
+interface BulkJobRequestBody {
+  name?: string;
+  template?: FlowRequestPayload;
+  csv?: string;
+}
+
+export async function GET() {
+  return NextResponse.json({
+    data: await listBulkJobs(),
+  });
+}
+
+export async function POST(request: Request) {
+  let body: BulkJobRequestBody;
+  try {
+    body = (await request.json()) as BulkJobRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!isDraftPayload(body.template)) {
+    return NextResponse.json(
+      {
+        error: "Template must include a trigger and a steps array.",
+      },
+      { status: 400 },
+    );
+  }
+
+  let table;
+  try {
+    table = parseCsv(body.csv ?? "");
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Unable to parse CSV.",
+        details: error instanceof Error ? error.message : error,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!table.rows.length) {
+    return NextResponse.json(
+      {
+        error: "CSV needs a header row and at least one data row.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (table.rows.length > MAX_BULK_ROWS) {
+    return NextResponse.json(
+      {
+        error: `CSV has ${table.rows.length} rows; the limit is ${MAX_BULK_ROWS} per job.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const accountId = new URL(request.url).searchParams.get("account");
+
+  if (accountId && !(await getAccount(accountId))) {
+    return NextResponse.json(
+      {
+        error: "Klaviyo account not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const job = await createBulkJob(
+    body.name?.trim() || body.template.flowName || "Bulk job",
+    body.template,
+    table.headers,
+    table.rows,
+    requestUser(request)?.username ?? "unknown",
+    accountId,
+  );
+
+  return NextResponse.json({ data: job }, { status: 201 });
+}
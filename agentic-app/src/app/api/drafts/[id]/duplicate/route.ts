@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { duplicateDraft } from "@/lib/draftStore";
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const draft = await duplicateDraft(id);
+
+  if (!draft) {
+    return NextResponse.json(
+      {
+        error: "Draft not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ data: draft }, { status: 201 });
+}
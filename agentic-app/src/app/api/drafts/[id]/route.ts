@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import {
+  deleteDraft,
+  getDraft,
+  isDraftPayload,
+  renameDraft,
+  saveDraftVersion,
+} from "@/lib/draftStore";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface DraftUpdateBody {
+  name?: string;
+  payload?: FlowRequestPayload;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      error: "Draft not found.",
+    },
+    { status: 404 },
+  );
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const draft = await getDraft(id);
+
+  if (!draft) {
+    return notFound();
+  }
+
+  return NextResponse.json({ data: draft });
+}
+
+/**
+ * Saves a new version when `payload` is present; a body with only `name`
+ * renames the draft without touching its history.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: DraftUpdateBody;
+  try {
+    body = (await request.json()) as DraftUpdateBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const name = body.name?.trim();
+
+  if (body.payload === undefined) {
+    if (!name) {
+      return NextResponse.json(
+        {
+          error: "Provide a payload to save or a name to rename the draft.",
+        },
+        { status: 400 },
+      );
+    }
+    const renamed = await renameDraft(id, name);
+    return renamed ? NextResponse.json({ data: renamed }) : notFound();
+  }
+
+  if (!isDraftPayload(body.payload)) {
+    return NextResponse.json(
+      {
+        error: "Draft payload must include a trigger and a steps array.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const draft = await saveDraftVersion(id, body.payload, name);
+  return draft ? NextResponse.json({ data: draft }) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteDraft(id))) {
+    return notFound();
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { createDraft, isDraftPayload, listDrafts } from "@/lib/draftStore";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+
+interface DraftRequestBody {
+  name?: string;
+  payload?: FlowRequestPayload;
+}
+
+export async function GET() {
+  return NextResponse.json({
+    data: await listDrafts(),
+  });
+}
+
+export async function POST(request: Request) {
+  let body: DraftRequestBody;
+  try {
+    body = (await request.json()) as DraftRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const name = body.name?.trim() || body.payload?.flowName?.trim();
+
+  if (!name) {
+    return NextResponse.json(
+      {
+        error: "Draft name is required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!isDraftPayload(body.payload)) {
+    return NextResponse.json(
+      {
+        error: "Draft payload must include a trigger and a steps array.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const draft = await createDraft(name, body.payload);
+
+  return NextResponse.json({ data: draft }, { status: 201 });
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { KlaviyoNetworkError, resourceOf } from "@/lib/klaviyoClient";
+import {
+  ACTION_STATUSES,
+  getFlowActionFlow,
+  isActionStatus,
+  updateFlowAction,
+} from "@/lib/klaviyoFlows";
+
+interface RouteContext {
+  params: Promise<{ id: string; actionId: string }>;
+}
+
+interface ActionUpdateBody {
+  status?: string;
+}
+
+/**
+ * Sets one action's status using the builder's step statuses (`draft`,
+ * `live`, `manual` or `disabled`), leaving the rest of the flow as it is.
+ * The action must belong to the flow in the URL.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+  const { id, actionId } = await params;
+
+  let body: ActionUpdateBody;
+  try {
+    body = (await request.json()) as ActionUpdateBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!isActionStatus(body.status)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported status. Use one of: ${ACTION_STATUSES.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const owner = await getFlowActionFlow(apiKey, actionId.trim());
+
+    if (!owner.ok && owner.status !== 404) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo API request failed.",
+          details: owner.json ?? undefined,
+          attempts: owner.attempts,
+        },
+        { status: owner.status },
+      );
+    }
+
+    if (resourceOf(owner.json)?.id !== id.trim()) {
+      return NextResponse.json(
+        {
+          error: owner.ok
+            ? "Flow action not found in this flow."
+            : "Flow action not found in Klaviyo.",
+        },
+        { status: 404 },
+      );
+    }
+
+    const { ok, status, json, attempts } = await updateFlowAction(
+      apiKey,
+      actionId.trim(),
+      body.status,
+    );
+
+    if (!ok) {
+      return NextResponse.json(
+        {
+          error:
+            status === 404
+              ? "Flow action not found in Klaviyo."
+              : "Klaviyo API request failed.",
+          details: json ?? undefined,
+          attempts,
+        },
+        { status },
+      );
+    }
+
+    return NextResponse.json({
+      data: {
+        id: actionId,
+        attributes: resourceOf(json)?.attributes ?? { status: body.status },
+      },
+      attempts,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
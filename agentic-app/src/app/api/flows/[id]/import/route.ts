@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { parseFlowDefinition } from "@/lib/klaviyo";
+import { klaviyoUrl } from "@/lib/klaviyoApi";
+import {
+  KlaviyoNetworkError,
+  klaviyoRequest,
+  resourceOf,
+} from "@/lib/klaviyoClient";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+
+  const { id } = await params;
+  const flowId = id.trim();
+
+  if (!flowId) {
+    return NextResponse.json(
+      {
+        error: "Flow ID is required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { ok, status, json, attempts } = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl(`flows/${encodeURIComponent(flowId)}/`, {
+        "additional-fields[flow]": "definition",
+      }),
+    );
+
+    if (!ok) {
+      return NextResponse.json(
+        {
+          error:
+            status === 404
+              ? "Flow not found in Klaviyo."
+              : "Klaviyo API request failed.",
+          details: json ?? undefined,
+          attempts,
+        },
+        { status },
+      );
+    }
+
+    const attributes = resourceOf(json)?.attributes ?? {};
+
+    if (!attributes.definition) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo did not return a definition for this flow.",
+        },
+        { status: 422 },
+      );
+    }
+
+    const parsed = parseFlowDefinition(attributes.definition);
+
+    return NextResponse.json({
+      data: {
+        flowName: typeof attributes.name === "string" ? attributes.name : "",
+        trigger: parsed.trigger,
+        profileFilters: parsed.profileFilters,
+        steps: parsed.steps,
+        unsupported: parsed.unsupported,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
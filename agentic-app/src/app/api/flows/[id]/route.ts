@@ -0,0 +1,247 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { klaviyoUrl } from "@/lib/klaviyoApi";
+import {
+  KlaviyoNetworkError,
+  klaviyoRequest,
+  resourceOf,
+  resourcesOf,
+} from "@/lib/klaviyoClient";
+import {
+  FLOW_STATUSES,
+  deleteFlow,
+  isFlowStatus,
+  toFlowSummary,
+  updateFlow,
+  type FlowUpdate,
+  type KlaviyoFlowResource,
+} from "@/lib/klaviyoFlows";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface FlowUpdateBody {
+  name?: string;
+  status?: string;
+}
+
+const klaviyoFailure = (
+  status: number,
+  json: unknown,
+  attempts: unknown,
+) =>
+  NextResponse.json(
+    {
+      error:
+        status === 404
+          ? "Flow not found in Klaviyo."
+          : "Klaviyo API request failed.",
+      details: json ?? undefined,
+      attempts,
+    },
+    { status },
+  );
+
+const unreachable = (error: unknown) =>
+  NextResponse.json(
+    {
+      error: "Failed to reach Klaviyo API.",
+      details: error instanceof Error ? error.message : error,
+      attempts:
+        error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+    },
+    { status: 502 },
+  );
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+
+  const { id } = await params;
+  const flowId = id.trim();
+
+  if (!flowId) {
+    return NextResponse.json(
+      {
+        error: "Flow ID is required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { ok, status, json, attempts } = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl(`flows/${encodeURIComponent(flowId)}/`, {
+        include: "flow-actions",
+      }),
+    );
+
+    if (!ok) {
+      return klaviyoFailure(status, json, attempts);
+    }
+
+    const flow = resourceOf(json);
+
+    if (!flow) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo returned a flow response without the flow.",
+          details: json ?? undefined,
+          attempts,
+        },
+        { status: 502 },
+      );
+    }
+
+    const actions = resourcesOf(json?.included).filter(
+      (item) => item.type === "flow-action",
+    );
+
+    // Klaviyo does not allow including messages two levels deep, so each
+    // action's messages are fetched separately.
+    const actionsWithMessages = await Promise.all(
+      actions.map(async (action) => {
+        const messages = await klaviyoRequest(
+          apiKey,
+          klaviyoUrl(
+            `flow-actions/${encodeURIComponent(action.id)}/flow-messages/`,
+          ),
+        );
+
+        return {
+          id: action.id,
+          attributes: action.attributes ?? {},
+          messages: messages.ok
+            ? resourcesOf(messages.json?.data).map((message) => ({
+                id: message.id,
+                attributes: message.attributes ?? {},
+              }))
+            : [],
+        };
+      }),
+    );
+
+    return NextResponse.json({
+      data: {
+        id: flow.id,
+        attributes: flow.attributes ?? {},
+        actions: actionsWithMessages,
+      },
+    });
+  } catch (error) {
+    return unreachable(error);
+  }
+}
+
+/**
+ * Sets the flow's status (`draft`, `live` or `manual`). Klaviyo doesn't let
+ * its API rename flows, so a `name` is refused rather than sent.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+  const { id } = await params;
+
+  let body: FlowUpdateBody;
+  try {
+    body = (await request.json()) as FlowUpdateBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body?.name !== undefined) {
+    return NextResponse.json(
+      {
+        error: "Klaviyo's API can't rename flows. Rename the flow in Klaviyo.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!isFlowStatus(body?.status)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported status. Use one of: ${FLOW_STATUSES.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const update: FlowUpdate = { status: body.status };
+
+  try {
+    const { ok, status, json, attempts } = await updateFlow(
+      apiKey,
+      id.trim(),
+      update,
+    );
+
+    if (!ok) {
+      return klaviyoFailure(status, json, attempts);
+    }
+
+    return NextResponse.json({
+      data: toFlowSummary(resourceOf<KlaviyoFlowResource>(json) ?? { id }),
+      attempts,
+    });
+  } catch (error) {
+    return unreachable(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+  const { id } = await params;
+
+  try {
+    const { ok, status, json, attempts } = await deleteFlow(apiKey, id.trim());
+
+    if (!ok) {
+      return klaviyoFailure(status, json, attempts);
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return unreachable(error);
+  }
+}
@@ -1,105 +1,182 @@
 import { NextResponse } from "next/server";
+import { resolveAccountKey, resolveApiKey } from "@/lib/accountStore";
+import { postFlowWithAudit } from "@/lib/auditLog";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { extractCursor, filterString, klaviyoUrl } from "@/lib/klaviyoApi";
 import {
-  DelayUnit,
-  FlowRequestPayload,
-  StepStatus,
-  buildFlowDefinition,
-} from "@/lib/klaviyo";
-
-const KLAVIYO_API_URL = "https://a.klaviyo.com/api/flows/";
-const KLAVIYO_REVISION = "2024-10-15";
-
-const VALID_STATUSES: StepStatus[] = ["draft", "live", "manual", "disabled"];
-const VALID_UNITS: DelayUnit[] = ["minutes", "hours", "days"];
-
-const normalizeDelayUnit = (unit: string | undefined): DelayUnit => {
-  return VALID_UNITS.includes(unit as DelayUnit) ? (unit as DelayUnit) : "days";
-};
+  KlaviyoNetworkError,
+  klaviyoRequest,
+  resourceOf,
+  resourcesOf,
+} from "@/lib/klaviyoClient";
+import { prepareFlow, summarizeIssues } from "@/lib/flowPayload";
+import { verifyTrigger } from "@/lib/klaviyoAudiences";
+import { mapKlaviyoErrors } from "@/lib/klaviyoErrors";
+import {
+  FLOW_STATUSES,
+  isFlowStatus,
+  toFlowSummary,
+  type KlaviyoFlowResource,
+} from "@/lib/klaviyoFlows";
+import {
+  claimReviewPublish,
+  getReview,
+  recordReviewStatus,
+  releaseReviewPublish,
+} from "@/lib/reviewStore";
+import { requestUser } from "@/lib/session";
 
-const normalizeStatus = (status: string | undefined): StepStatus => {
-  return VALID_STATUSES.includes(status as StepStatus)
-    ? (status as StepStatus)
-    : "draft";
+const isDryRun = (request: Request) => {
+  const value = new URL(request.url).searchParams.get("dryRun");
+  return value === "1" || value === "true";
 };
 
-const sanitizePayload = (payload: FlowRequestPayload): FlowRequestPayload => {
-  const steps = payload.steps.map((step) => ({
-    internalName: step.internalName?.trim() ?? "",
-    subjectLine: step.subjectLine?.trim() ?? "",
-    previewText: step.previewText?.trim() ?? "",
-    fromEmail: step.fromEmail?.trim() ?? "",
-    fromName: step.fromName?.trim() ?? "",
-    replyToEmail: step.replyToEmail?.trim() ?? "",
-    ccEmail: step.ccEmail?.trim() ?? "",
-    bccEmail: step.bccEmail?.trim() ?? "",
-    templateId: step.templateId?.trim() ?? "",
-    smartSendingEnabled: Boolean(step.smartSendingEnabled),
-    status: normalizeStatus(step.status),
-    delay:
-      step.delay && typeof step.delay.value === "number" && step.delay.value > 0
-        ? {
-            value: Math.max(0, Math.round(step.delay.value)),
-            unit: normalizeDelayUnit(step.delay.unit),
-            timezone: step.delay.timezone?.trim() || "profile",
-          }
-        : null,
-    customTracking: Array.isArray(step.customTracking)
-      ? step.customTracking
-          .map((track) => ({
-            param: `${track.param ?? ""}`.trim(),
-            value: `${track.value ?? ""}`.trim(),
-          }))
-          .filter((track) => track.param && track.value)
-      : [],
-  }));
-
-  return {
-    flowName: payload.flowName.trim(),
-    trigger: {
-      type: payload.trigger.type,
-      id: payload.trigger.id.trim(),
-    },
-    steps,
-  };
-};
+const publishApprovedReview = async (request: Request, reviewId: string) => {
+  const review = await getReview(reviewId);
 
-const validatePayload = (payload: FlowRequestPayload) => {
-  if (!payload.flowName) {
-    return "Flow name is required.";
+  if (!review) {
+    return NextResponse.json(
+      {
+        error: "Review not found.",
+      },
+      { status: 404 },
+    );
   }
 
-  if (!["list", "segment"].includes(payload.trigger.type)) {
-    return "Unsupported trigger type. Only list and segment triggers are supported.";
+  if (review.status !== "approved") {
+    return NextResponse.json(
+      {
+        error: `Only approved reviews can be published; this one is ${review.status}.`,
+      },
+      { status: 409 },
+    );
   }
 
-  if (!payload.trigger.id) {
-    return "Trigger identifier is required.";
+  const key = await resolveAccountKey(review.accountId);
+  const user = requestUser(request)?.username ?? "unknown";
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
   }
 
-  if (!payload.steps.length) {
-    return "At least one email step is required.";
+  try {
+    const { ok, status, json, attempts, auditError } = await postFlowWithAudit(
+      key.apiKey,
+      review,
+      {
+        user,
+        account: key.account,
+        source: "builder",
+        reviewId: review.id,
+      },
+    );
+
+    if (!ok) {
+      const errors = mapKlaviyoErrors(json, review.actionPaths);
+      return NextResponse.json(
+        {
+          error: errors.length
+            ? `Klaviyo rejected the flow. ${summarizeIssues(errors)}`
+            : "Klaviyo API request failed.",
+          errors,
+          details: json ?? undefined,
+          attempts,
+          warnings: auditError ? [auditError] : undefined,
+        },
+        { status },
+      );
+    }
+
+    const published = await recordReviewStatus(review, "published", user, {
+      flowId: resourceOf(json)?.id,
+    });
+
+    return NextResponse.json({
+      data: json,
+      review: published,
+      attempts,
+      warnings: auditError ? [auditError] : undefined,
+    });
+  } catch (error) {
+    // The create may have reached Klaviyo before the connection failed, so
+    // publishing again could duplicate the flow. A publisher checks Klaviyo
+    // and reconciles the review instead.
+    const message =
+      error instanceof Error ? error.message : "Failed to reach Klaviyo API.";
+    const unconfirmed = await recordReviewStatus(review, "unconfirmed", user, {
+      note: message,
+    });
+
+    return NextResponse.json(
+      {
+        error:
+          "Failed to reach Klaviyo API. The flow may have been created; check Klaviyo, then reconcile the review.",
+        details: message,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+        review: unconfirmed,
+      },
+      { status: 502 },
+    );
   }
+};
 
-  const invalidStepIndex = payload.steps.findIndex(
-    (step) => !step.subjectLine || !step.fromEmail || !step.fromName,
-  );
+const publishReview = async (request: Request) => {
+  const reviewId = new URL(request.url).searchParams.get("review");
 
-  if (invalidStepIndex !== -1) {
-    return `Step ${invalidStepIndex + 1} is missing subject, from name, or from email.`;
+  if (!reviewId) {
+    return NextResponse.json(
+      {
+        error:
+          "Flows are created from approved reviews. Submit the flow for review, then publish it with ?review=<id>.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!claimReviewPublish(reviewId)) {
+    return NextResponse.json(
+      {
+        error: "This review is already being published.",
+      },
+      { status: 409 },
+    );
   }
 
-  return null;
+  // The review is read after claiming it, so a publish that finished in the
+  // meantime is seen as `published`.
+  try {
+    return await publishApprovedReview(request, reviewId);
+  } finally {
+    releaseReviewPublish(reviewId);
+  }
 };
 
+/**
+ * Dry runs validate and build the posted payload. Anything else publishes an
+ * approved review: `?review=<id>` sends the exact payload the reviewer saw,
+ * in the account it was submitted for.
+ */
 export async function POST(request: Request) {
-  const apiKey = process.env.KLAVIYO_API_KEY;
+  if (!isDryRun(request)) {
+    return publishReview(request);
+  }
 
-  if (!apiKey) {
+  const key = await resolveApiKey(request);
+  const { apiKey } = key;
+
+  // Dry runs work without the server key, but not with an unusable account.
+  if (!apiKey && new URL(request.url).searchParams.has("account")) {
     return NextResponse.json(
       {
-        error: "KLAVIYO_API_KEY is not configured on the server.",
+        error: key.error,
       },
-      { status: 500 },
+      { status: key.status },
     );
   }
 
@@ -117,78 +194,146 @@ export async function POST(request: Request) {
     );
   }
 
-  const sanitizedPayload = sanitizePayload(rawPayload);
-  const validationError = validatePayload(sanitizedPayload);
+  const prepared = prepareFlow(rawPayload);
 
-  if (validationError) {
+  if ("error" in prepared) {
     return NextResponse.json(
       {
-        error: validationError,
+        error: prepared.error,
+        errors: prepared.issues,
       },
-      { status: 400 },
+      { status: prepared.issues ? 422 : 400 },
     );
   }
 
-  let definition;
-  try {
-    definition = buildFlowDefinition(sanitizedPayload);
-  } catch (error) {
+  const { payload, klaviyoPayload } = prepared;
+  const warnings = [...prepared.warnings];
+
+  // Dry runs without a key can't reach Klaviyo, so they skip this check.
+  if (apiKey) {
+    const trigger = await verifyTrigger(apiKey, payload.trigger);
+    if (trigger?.issue) {
+      return NextResponse.json(
+        {
+          error: trigger.issue.message,
+          errors: [trigger.issue],
+        },
+        { status: 422 },
+      );
+    }
+    if (trigger?.warning) {
+      warnings.push(trigger.warning);
+    }
+  }
+
+  return NextResponse.json({
+    dryRun: true,
+    flow: payload,
+    payload: klaviyoPayload,
+    warnings,
+  });
+}
+
+// Klaviyo reports trigger types by display name rather than the builder's keys.
+const TRIGGER_TYPE_FILTERS: Record<string, string> = {
+  list: "Added to List",
+  segment: "Added to Segment",
+  metric: "Metric",
+  date: "Date Based",
+};
+
+const MAX_PAGE_SIZE = 50;
+
+export async function GET(request: Request) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
     return NextResponse.json(
       {
-        error:
-          error instanceof Error
-            ? error.message
-            : "Unable to construct Klaviyo flow payload.",
+        error: key.error,
       },
-      { status: 400 },
+      { status: key.status },
     );
   }
 
-  const klaviyoPayload = {
-    data: {
-      type: "flow" as const,
-      attributes: {
-        name: sanitizedPayload.flowName,
-        definition,
+  const { apiKey } = key;
+
+  const params = new URL(request.url).searchParams;
+  const name = params.get("name")?.trim();
+  const status = params.get("status")?.trim();
+  const triggerType = params.get("triggerType")?.trim();
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Number(params.get("pageSize")) || 20),
+  );
+
+  if (status && !isFlowStatus(status)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported status filter. Use one of: ${FLOW_STATUSES.join(", ")}.`,
       },
-    },
-  };
+      { status: 400 },
+    );
+  }
 
-  try {
-    const response = await fetch(KLAVIYO_API_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Klaviyo-API-Key ${apiKey}`,
-        "Content-Type": "application/vnd.api+json",
-        Accept: "application/vnd.api+json",
-        revision: KLAVIYO_REVISION,
+  if (triggerType && !TRIGGER_TYPE_FILTERS[triggerType]) {
+    return NextResponse.json(
+      {
+        error: `Unsupported trigger type filter. Use one of: ${Object.keys(TRIGGER_TYPE_FILTERS).join(", ")}.`,
       },
-      body: JSON.stringify(klaviyoPayload),
-    });
+      { status: 400 },
+    );
+  }
 
-    const json = await response.json().catch(() => null);
+  const filters = [
+    name ? `contains(name,${filterString(name)})` : null,
+    status ? `equals(status,${filterString(status)})` : null,
+    triggerType
+      ? `equals(trigger_type,${filterString(TRIGGER_TYPE_FILTERS[triggerType])})`
+      : null,
+  ].filter(Boolean);
 
-    if (!response.ok) {
+  try {
+    const { ok, status, json, attempts } = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl("flows/", {
+        filter:
+          filters.length > 1
+            ? `and(${filters.join(",")})`
+            : (filters[0] ?? undefined),
+        sort: "-updated",
+        "page[size]": String(pageSize),
+        "page[cursor]": params.get("cursor") ?? undefined,
+      }),
+    );
+
+    if (!ok) {
       return NextResponse.json(
         {
           error: "Klaviyo API request failed.",
           details: json ?? undefined,
+          attempts,
         },
-        { status: response.status },
+        { status },
       );
     }
 
+    const resources = resourcesOf<KlaviyoFlowResource>(json?.data);
+
     return NextResponse.json({
-      data: json,
+      data: resources.map(toFlowSummary),
+      nextCursor: extractCursor(json?.links?.next),
+      previousCursor: extractCursor(json?.links?.prev),
     });
   } catch (error) {
     return NextResponse.json(
       {
         error: "Failed to reach Klaviyo API.",
         details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
       },
       { status: 502 },
     );
   }
 }
-
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { addReviewComment, getReview } from "@/lib/reviewStore";
+import { requestUser } from "@/lib/session";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface CommentRequestBody {
+  /** Step path such as `steps[1].yes[0]`; omit for a comment on the whole flow. */
+  path?: string;
+  body?: string;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: CommentRequestBody;
+  try {
+    body = (await request.json()) as CommentRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const text = body.body?.trim();
+  if (!text) {
+    return NextResponse.json(
+      {
+        error: "Comment text is required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const review = await getReview(id);
+
+  if (!review) {
+    return NextResponse.json(
+      {
+        error: "Review not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const path = body.path ?? "";
+
+  if (
+    path &&
+    !review.actionPaths.some(
+      (actionPath) => actionPath === path || actionPath.startsWith(`${path}.`),
+    )
+  ) {
+    return NextResponse.json(
+      {
+        error: `${path} is not a step in this flow.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const updated = await addReviewComment(id, {
+    path,
+    author: requestUser(request)?.username ?? "unknown",
+    body: text,
+  });
+
+  return NextResponse.json({ data: updated }, { status: 201 });
+}
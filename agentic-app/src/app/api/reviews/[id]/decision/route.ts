@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getReview, recordReviewStatus } from "@/lib/reviewStore";
+import { requestUser } from "@/lib/session";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface DecisionRequestBody {
+  decision?: "approve" | "reject";
+  note?: string;
+}
+
+/**
+ * Approves or rejects a pending review. The submitter can't decide their own
+ * review, so every flow that reaches Klaviyo has been seen by two people.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: DecisionRequestBody;
+  try {
+    body = (await request.json()) as DecisionRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.decision !== "approve" && body.decision !== "reject") {
+    return NextResponse.json(
+      {
+        error: 'Decision must be "approve" or "reject".',
+      },
+      { status: 400 },
+    );
+  }
+
+  const note = body.note?.trim() || undefined;
+  if (body.decision === "reject" && !note) {
+    return NextResponse.json(
+      {
+        error: "Say what needs to change when rejecting a review.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const review = await getReview(id);
+
+  if (!review) {
+    return NextResponse.json(
+      {
+        error: "Review not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  const reviewer = requestUser(request)?.username ?? "unknown";
+
+  if (reviewer === review.submittedBy) {
+    return NextResponse.json(
+      {
+        error: "Someone other than the submitter has to review this flow.",
+      },
+      { status: 403 },
+    );
+  }
+
+  if (review.status !== "pending") {
+    return NextResponse.json(
+      {
+        error: `This review is already ${review.status}.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({
+    data: await recordReviewStatus(
+      review,
+      body.decision === "approve" ? "approved" : "rejected",
+      reviewer,
+      { note },
+    ),
+  });
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getReview, recordReviewStatus } from "@/lib/reviewStore";
+import { requestUser } from "@/lib/session";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface ReconcileRequestBody {
+  /** The flow found in Klaviyo; leave it out if the create never landed. */
+  flowId?: string;
+}
+
+/**
+ * Settles an unconfirmed publish once a publisher has checked Klaviyo: with
+ * the flow's ID the review becomes `published`, without one it goes back to
+ * `approved` so it can be published again.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: ReconcileRequestBody;
+  try {
+    body = (await request.json()) as ReconcileRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body?.flowId !== undefined && typeof body.flowId !== "string") {
+    return NextResponse.json(
+      {
+        error: "The flow ID must be a string.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const review = await getReview(id);
+
+  if (!review) {
+    return NextResponse.json(
+      {
+        error: "Review not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  if (review.status !== "unconfirmed") {
+    return NextResponse.json(
+      {
+        error: `Only unconfirmed publishes need reconciling; this review is ${review.status}.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  const user = requestUser(request)?.username ?? "unknown";
+  const flowId = body?.flowId?.trim();
+
+  return NextResponse.json({
+    data: flowId
+      ? await recordReviewStatus(review, "published", user, {
+          flowId,
+          note: "Found in Klaviyo.",
+        })
+      : await recordReviewStatus(review, "approved", user, {
+          note: "Not created in Klaviyo.",
+        }),
+  });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getReview } from "@/lib/reviewStore";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const review = await getReview(id);
+
+  if (!review) {
+    return NextResponse.json(
+      {
+        error: "Review not found.",
+      },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ data: review });
+}
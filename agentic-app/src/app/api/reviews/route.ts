@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { prepareFlow } from "@/lib/flowPayload";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { verifyTrigger } from "@/lib/klaviyoAudiences";
+import {
+  REVIEW_STATUSES,
+  createReview,
+  isReviewStatus,
+  listReviews,
+} from "@/lib/reviewStore";
+import { requestUser } from "@/lib/session";
+
+interface ReviewRequestBody {
+  payload?: FlowRequestPayload;
+  note?: string;
+}
+
+export async function GET(request: Request) {
+  const status = new URL(request.url).searchParams.get("status");
+
+  if (status && !isReviewStatus(status)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported status filter. Use one of: ${REVIEW_STATUSES.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json({
+    data: await listReviews(isReviewStatus(status) ? status : undefined),
+  });
+}
+
+/**
+ * Validates and builds the flow, then stores the exact Klaviyo payload for a
+ * second person to approve. Nothing reaches Klaviyo until it's approved and
+ * published through `POST /api/flows?review=`.
+ */
+export async function POST(request: Request) {
+  const user = requestUser(request);
+  const key = await resolveApiKey(request);
+  const accountId = new URL(request.url).searchParams.get("account");
+
+  if (!key.apiKey && accountId) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  let body: ReviewRequestBody;
+  try {
+    body = (await request.json()) as ReviewRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!body.payload || typeof body.payload !== "object") {
+    return NextResponse.json(
+      {
+        error: "Provide the flow payload to submit for review.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const prepared = prepareFlow(body.payload);
+
+  if ("error" in prepared) {
+    return NextResponse.json(
+      {
+        error: prepared.error,
+        errors: prepared.issues,
+      },
+      { status: prepared.issues ? 422 : 400 },
+    );
+  }
+
+  const trigger = key.apiKey
+    ? await verifyTrigger(key.apiKey, prepared.payload.trigger)
+    : null;
+
+  if (trigger?.issue) {
+    return NextResponse.json(
+      {
+        error: trigger.issue.message,
+        errors: [trigger.issue],
+      },
+      { status: 422 },
+    );
+  }
+
+  // The reviewer sees the warning with the payload, before approving it.
+  const review = await createReview(
+    trigger?.warning
+      ? { ...prepared, warnings: [...prepared.warnings, trigger.warning] }
+      : prepared,
+    key.account?.id ?? null,
+    user?.username ?? "unknown",
+    body.note?.trim() || undefined,
+  );
+
+  return NextResponse.json({ data: review }, { status: 201 });
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { getAudience } from "@/lib/klaviyoAudiences";
+import { KlaviyoNetworkError } from "@/lib/klaviyoClient";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** One segment with its profile count, for the audience picker's selection. */
+export async function GET(request: Request, { params }: RouteContext) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const audience = await getAudience(key.apiKey, "segment", id);
+
+    if (!audience.ok) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo API request failed.",
+          details: audience.result.json ?? undefined,
+          attempts: audience.result.attempts,
+        },
+        { status: audience.result.ok ? 502 : audience.result.status },
+      );
+    }
+
+    return NextResponse.json({ data: audience.data });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
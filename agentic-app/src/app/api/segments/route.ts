@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { listAudiences } from "@/lib/klaviyoAudiences";
+import { KlaviyoNetworkError } from "@/lib/klaviyoClient";
+
+export async function GET(request: Request) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+
+  const cursor = new URL(request.url).searchParams.get("cursor") ?? undefined;
+
+  try {
+    const page = await listAudiences(apiKey, "segment", cursor);
+
+    if (!page.ok) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo API request failed.",
+          details: page.result.json ?? undefined,
+          attempts: page.result.attempts,
+        },
+        { status: page.result.status },
+      );
+    }
+
+    return NextResponse.json({
+      data: page.data,
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
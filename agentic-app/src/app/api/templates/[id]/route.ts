@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { klaviyoUrl } from "@/lib/klaviyoApi";
+import {
+  KlaviyoNetworkError,
+  klaviyoRequest,
+  resourceOf,
+} from "@/lib/klaviyoClient";
+
+interface KlaviyoTemplateDetail {
+  id: string;
+  attributes?: {
+    name?: string;
+    editor_type?: string;
+    html?: string;
+    updated?: string;
+  };
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+
+  const { id } = await params;
+  const templateId = id.trim();
+
+  if (!templateId) {
+    return NextResponse.json(
+      {
+        error: "Template ID is required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { ok, status, json, attempts } = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl(`templates/${encodeURIComponent(templateId)}/`),
+    );
+
+    if (!ok) {
+      return NextResponse.json(
+        {
+          error:
+            status === 404
+              ? "Template not found in Klaviyo."
+              : "Klaviyo API request failed.",
+          details: json ?? undefined,
+          attempts,
+        },
+        { status },
+      );
+    }
+
+    const template = resourceOf<KlaviyoTemplateDetail>(json);
+    const attributes = template?.attributes ?? {};
+
+    return NextResponse.json({
+      data: {
+        id: template?.id ?? templateId,
+        name: attributes.name ?? "",
+        editorType: attributes.editor_type ?? "",
+        html: attributes.html ?? "",
+        updated: attributes.updated ?? null,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
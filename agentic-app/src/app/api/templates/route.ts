@@ -0,0 +1,184 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/accountStore";
+import { extractCursor, klaviyoUrl } from "@/lib/klaviyoApi";
+import {
+  KlaviyoNetworkError,
+  klaviyoRequest,
+  resourceOf,
+  resourcesOf,
+} from "@/lib/klaviyoClient";
+
+interface KlaviyoTemplateResource {
+  id: string;
+  attributes?: {
+    name?: string;
+    editor_type?: string;
+    created?: string;
+    updated?: string;
+  };
+}
+
+const MAX_HTML_LENGTH = 512 * 1024;
+
+export async function GET(request: Request) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+
+  const params = new URL(request.url).searchParams;
+
+  try {
+    // The template list can't be filtered by partial name, so the picker
+    // searches the pages it has loaded.
+    const { ok, status, json, attempts } = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl("templates/", {
+        "fields[template]": "name,editor_type,created,updated",
+        sort: "-updated",
+        "page[cursor]": params.get("cursor") ?? undefined,
+      }),
+    );
+
+    if (!ok) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo API request failed.",
+          details: json ?? undefined,
+          attempts,
+        },
+        { status },
+      );
+    }
+
+    const resources = resourcesOf<KlaviyoTemplateResource>(json?.data);
+
+    return NextResponse.json({
+      data: resources.map((template) => ({
+        id: template.id,
+        name: template.attributes?.name ?? "",
+        editorType: template.attributes?.editor_type ?? "",
+        created: template.attributes?.created ?? null,
+        updated: template.attributes?.updated ?? null,
+      })),
+      nextCursor: extractCursor(json?.links?.next),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const key = await resolveApiKey(request);
+
+  if (!key.apiKey) {
+    return NextResponse.json(
+      {
+        error: key.error,
+      },
+      { status: key.status },
+    );
+  }
+
+  const { apiKey } = key;
+
+  let body: { name?: unknown; html?: unknown };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const name = `${body.name ?? ""}`.trim();
+  const html = `${body.html ?? ""}`;
+
+  if (!name || !html.trim()) {
+    return NextResponse.json(
+      {
+        error: "Template name and HTML are required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (html.length > MAX_HTML_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Template HTML must be under ${MAX_HTML_LENGTH / 1024} KB.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { ok, status, json, attempts } = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl("templates/"),
+      {
+        method: "POST",
+        body: {
+          data: {
+            type: "template",
+            attributes: { name, editor_type: "CODE", html },
+          },
+        },
+      },
+    );
+
+    if (!ok) {
+      return NextResponse.json(
+        {
+          error: "Klaviyo API request failed.",
+          details: json ?? undefined,
+          attempts,
+        },
+        { status },
+      );
+    }
+
+    const created = resourceOf<KlaviyoTemplateResource>(json);
+
+    return NextResponse.json(
+      {
+        data: {
+          id: created?.id,
+          name: created?.attributes?.name ?? name,
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to reach Klaviyo API.",
+        details: error instanceof Error ? error.message : error,
+        attempts:
+          error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+      },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import type { TrackingParamPayload } from "@/lib/klaviyo";
+import {
+  deleteTrackingPreset,
+  getTrackingPreset,
+  isTrackingParamList,
+  updateTrackingPreset,
+} from "@/lib/trackingPresetStore";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface TrackingPresetUpdateBody {
+  name?: string;
+  params?: TrackingParamPayload[];
+}
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      error: "Tracking preset not found.",
+    },
+    { status: 404 },
+  );
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const preset = await getTrackingPreset(id);
+
+  if (!preset) {
+    return notFound();
+  }
+
+  return NextResponse.json({ data: preset });
+}
+
+/** Renames the preset, replaces its params, or both. */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: TrackingPresetUpdateBody;
+  try {
+    body = (await request.json()) as TrackingPresetUpdateBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const name = body.name?.trim();
+
+  if (body.params === undefined && !name) {
+    return NextResponse.json(
+      {
+        error: "Provide a name or params to update the preset.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    body.params !== undefined &&
+    (!isTrackingParamList(body.params) ||
+      !body.params.some((track) => track.param.trim() && track.value.trim()))
+  ) {
+    return NextResponse.json(
+      {
+        error: "A preset needs at least one parameter with a value.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const preset = await updateTrackingPreset(id, {
+    name,
+    params: body.params,
+  });
+  return preset ? NextResponse.json({ data: preset }) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteTrackingPreset(id))) {
+    return notFound();
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
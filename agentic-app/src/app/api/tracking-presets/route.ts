@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import type { TrackingParamPayload } from "@/lib/klaviyo";
+import { requestUser } from "@/lib/session";
+import {
+  createTrackingPreset,
+  isTrackingParamList,
+  listTrackingPresets,
+} from "@/lib/trackingPresetStore";
+
+interface TrackingPresetRequestBody {
+  name?: string;
+  params?: TrackingParamPayload[];
+}
+
+export async function GET() {
+  return NextResponse.json({
+    data: await listTrackingPresets(),
+  });
+}
+
+export async function POST(request: Request) {
+  const user = requestUser(request);
+
+  let body: TrackingPresetRequestBody;
+  try {
+    body = (await request.json()) as TrackingPresetRequestBody;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON payload.",
+        details:
+          error instanceof Error ? error.message : "Unable to parse request.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const name = body.name?.trim();
+
+  if (!name) {
+    return NextResponse.json(
+      {
+        error: "Preset name is required.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (
+    !isTrackingParamList(body.params) ||
+    !body.params.some((track) => track.param.trim() && track.value.trim())
+  ) {
+    return NextResponse.json(
+      {
+        error: "A preset needs at least one parameter with a value.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const preset = await createTrackingPreset(
+    name,
+    body.params,
+    user?.username ?? "unknown",
+  );
+
+  return NextResponse.json({ data: preset }, { status: 201 });
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import JsonTree from "@/components/JsonTree";
+import UserMenu from "@/components/UserMenu";
+import type {
+  AuditEntry,
+  AuditEntrySummary,
+  AuditOutcome,
+} from "@/lib/auditLog";
+
+interface AuditResponse<T> {
+  data?: T;
+  error?: string;
+}
+
+interface ListResult {
+  query: string;
+  entries: AuditEntrySummary[];
+  error: string | null;
+}
+
+interface Filters {
+  q: string;
+  outcome: string;
+  source: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: "", outcome: "", source: "" };
+
+const FIELD_CLASS =
+  "rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20";
+
+const OUTCOME_STYLES: Record<AuditOutcome, string> = {
+  created: "bg-emerald-500/15 text-emerald-200",
+  failed: "bg-rose-500/15 text-rose-200",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export default function AuditPage() {
+  const [draftFilters, setDraftFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [result, setResult] = useState<ListResult | null>(null);
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams();
+    if (filters.q.trim()) params.set("q", filters.q.trim());
+    if (filters.outcome) params.set("outcome", filters.outcome);
+    if (filters.source) params.set("source", filters.source);
+    return params.toString();
+  }, [filters]);
+
+  const isLoading = result?.query !== query;
+  const entries = result?.entries ?? [];
+  const error = result?.error ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async (): Promise<ListResult> => {
+      try {
+        const response = await fetch(`/api/audit?${query}`);
+        const data: AuditResponse<AuditEntrySummary[]> = await response.json();
+
+        return response.ok
+          ? { query, entries: data.data ?? [], error: null }
+          : {
+              query,
+              entries: [],
+              error: data.error ?? "Unable to load the audit log.",
+            };
+      } catch (loadError) {
+        return {
+          query,
+          entries: [],
+          error:
+            loadError instanceof Error
+              ? loadError.message
+              : "Unexpected error loading the audit log.",
+        };
+      }
+    };
+
+    load().then((next) => {
+      if (!cancelled) {
+        setResult(next);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const handleFilterSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFilters(draftFilters);
+  };
+
+  const handleSelect = async (id: string) => {
+    setIsLoadingDetail(true);
+    setDetailError(null);
+    setSelected(null);
+
+    try {
+      const response = await fetch(`/api/audit/${id}`);
+      const data: AuditResponse<AuditEntry> = await response.json();
+
+      if (!response.ok || !data.data) {
+        setDetailError(data.error ?? "Unable to load the audit entry.");
+        return;
+      }
+
+      setSelected(data.data);
+    } catch (loadError) {
+      setDetailError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Unexpected error loading the audit entry.",
+      );
+    } finally {
+      setIsLoadingDetail(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
+        <div>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-semibold tracking-tight text-white">
+                Audit log
+              </h1>
+              <p className="mt-2 max-w-2xl text-sm text-slate-300">
+                Every request to create a flow in Klaviyo, from the builder,
+                bulk jobs or the command line, with who sent it and what
+                Klaviyo answered.
+              </p>
+            </div>
+            <div className="flex shrink-0 flex-wrap justify-end gap-2">
+              <UserMenu />
+              <Link
+                href="/"
+                className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10"
+              >
+                Open builder
+              </Link>
+            </div>
+          </div>
+
+          <form
+            onSubmit={handleFilterSubmit}
+            className="mt-8 grid gap-4 rounded-2xl border border-slate-800 bg-slate-900/40 p-6 md:grid-cols-[2fr_1fr_1fr_auto]"
+          >
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Search
+              </span>
+              <input
+                className={FIELD_CLASS}
+                placeholder="Flow name, user, account, flow ID or error"
+                value={draftFilters.q}
+                onChange={(event) =>
+                  setDraftFilters((prev) => ({
+                    ...prev,
+                    q: event.target.value,
+                  }))
+                }
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Outcome
+              </span>
+              <select
+                className={FIELD_CLASS}
+                value={draftFilters.outcome}
+                onChange={(event) =>
+                  setDraftFilters((prev) => ({
+                    ...prev,
+                    outcome: event.target.value,
+                  }))
+                }
+              >
+                <option value="">Any</option>
+                <option value="created">Created</option>
+                <option value="failed">Failed</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Source
+              </span>
+              <select
+                className={FIELD_CLASS}
+                value={draftFilters.source}
+                onChange={(event) =>
+                  setDraftFilters((prev) => ({
+                    ...prev,
+                    source: event.target.value,
+                  }))
+                }
+              >
+                <option value="">Any</option>
+                <option value="builder">Builder</option>
+                <option value="bulk">Bulk job</option>
+                <option value="cli">Command line</option>
+              </select>
+            </label>
+            <button
+              type="submit"
+              className="self-end rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400"
+            >
+              Search
+            </button>
+          </form>
+
+          {error && (
+            <div className="mt-6 rounded-lg border border-rose-400/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              {error}
+            </div>
+          )}
+
+          <div className="mt-6 overflow-hidden rounded-2xl border border-slate-800">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-900/70 text-xs uppercase tracking-wide text-slate-400">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Flow</th>
+                  <th className="px-4 py-3 font-medium">By</th>
+                  <th className="px-4 py-3 font-medium">Outcome</th>
+                  <th className="px-4 py-3 font-medium">When</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {entries.map((entry) => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => handleSelect(entry.id)}
+                    className={`cursor-pointer transition hover:bg-slate-900/60 ${
+                      selected?.id === entry.id ? "bg-slate-900/60" : ""
+                    }`}
+                  >
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-white">
+                        {entry.flowName || "Untitled flow"}
+                      </div>
+                      <div className="text-[11px] text-slate-500">
+                        {entry.accountName ?? "Default account"} ·{" "}
+                        {entry.source}
+                        {entry.bulkRow !== undefined &&
+                          ` row ${entry.bulkRow}`}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-300">
+                      {entry.user}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs ${OUTCOME_STYLES[entry.outcome]}`}
+                      >
+                        {entry.outcome}
+                        {entry.status !== null && ` · ${entry.status}`}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-400">
+                      {formatDate(entry.createdAt)}
+                    </td>
+                  </tr>
+                ))}
+                {!entries.length && (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-4 py-6 text-center text-xs text-slate-400"
+                    >
+                      {isLoading ? "Loading..." : "No matching attempts."}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <aside className="space-y-6">
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              Attempt details
+            </h2>
+            {isLoadingDetail && (
+              <p className="mt-3 text-xs text-slate-400">Loading...</p>
+            )}
+            {detailError && (
+              <p className="mt-3 text-xs text-rose-200">{detailError}</p>
+            )}
+            {!selected && !isLoadingDetail && !detailError && (
+              <p className="mt-3 text-xs text-slate-400">
+                Select an attempt to see what was sent and what came back.
+              </p>
+            )}
+            {selected && (
+              <div className="mt-3 space-y-4 text-xs">
+                <div>
+                  <p className="font-semibold text-white">
+                    {selected.flowName || "Untitled flow"}
+                  </p>
+                  <p className="text-slate-400">
+                    {selected.user} · {formatDate(selected.createdAt)}
+                  </p>
+                  <p className="text-slate-400">
+                    {selected.accountName ?? "Default account"}
+                  </p>
+                </div>
+
+                {selected.flowId && (
+                  <p className="text-emerald-200">
+                    Flow ID:{" "}
+                    <span className="font-mono">{selected.flowId}</span>
+                  </p>
+                )}
+                {selected.error && (
+                  <p className="text-rose-200">{selected.error}</p>
+                )}
+                <p className="text-slate-400">
+                  Klaviyo status {selected.status ?? "unreachable"} after{" "}
+                  {selected.attempts.length} attempt(s).
+                </p>
+                {selected.reviewId && (
+                  <Link
+                    href={`/reviews?id=${selected.reviewId}`}
+                    className="block text-indigo-300 underline-offset-2 hover:underline"
+                  >
+                    View the approved review
+                  </Link>
+                )}
+
+                <Link
+                  href={`/?audit=${selected.id}`}
+                  className="inline-block rounded-lg border border-indigo-500 px-3 py-1.5 font-medium text-indigo-200 transition hover:bg-indigo-500/10"
+                >
+                  Re-open in builder
+                </Link>
+
+                <details>
+                  <summary className="cursor-pointer text-slate-300">
+                    Builder payload
+                  </summary>
+                  <div className="mt-2 max-h-72 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px] leading-relaxed">
+                    <JsonTree value={selected.payload} />
+                  </div>
+                </details>
+                <details>
+                  <summary className="cursor-pointer text-slate-300">
+                    Generated definition
+                  </summary>
+                  <div className="mt-2 max-h-72 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px] leading-relaxed">
+                    <JsonTree value={selected.definition} />
+                  </div>
+                </details>
+                {selected.details !== undefined && (
+                  <details>
+                    <summary className="cursor-pointer text-slate-300">
+                      Klaviyo response
+                    </summary>
+                    <div className="mt-2 max-h-72 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px] leading-relaxed">
+                      <JsonTree value={selected.details} />
+                    </div>
+                  </details>
+                )}
+              </div>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
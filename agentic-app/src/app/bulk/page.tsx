@@ -0,0 +1,577 @@
+'use client';
+
+import Link from "next/link";
+import { ChangeEvent, FormEvent, useEffect, useState } from "react";
+import AccountSwitcher, { withAccount } from "@/components/AccountSwitcher";
+import UserMenu from "@/components/UserMenu";
+import type {
+  BulkJob,
+  BulkJobSummary,
+  BulkRowStatus,
+} from "@/lib/bulkJobs";
+import { parseFlowSpec, type FlowSpecIssue } from "@/lib/flowSpec";
+import { findPlaceholders } from "@/lib/flowTemplate";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { hasRole, type SessionUser } from "@/lib/session";
+
+interface BulkResponse<T> {
+  data?: T;
+  error?: string;
+  details?: unknown;
+}
+
+type BulkJobDetail = BulkJob & { running?: boolean };
+
+interface LoadedTemplate {
+  fileName: string;
+  payload: FlowRequestPayload;
+  placeholders: string[];
+}
+
+const STATUS_STYLES: Record<BulkRowStatus, string> = {
+  pending: "bg-slate-700/60 text-slate-200",
+  invalid: "bg-amber-500/20 text-amber-200",
+  created: "bg-emerald-500/20 text-emerald-200",
+  failed: "bg-rose-500/20 text-rose-200",
+  unconfirmed: "bg-orange-500/20 text-orange-200",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export default function BulkPage() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<BulkJobSummary[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [jobName, setJobName] = useState("");
+  const [template, setTemplate] = useState<LoadedTemplate | null>(null);
+  const [templateIssues, setTemplateIssues] = useState<FlowSpecIssue[]>([]);
+  const [csv, setCsv] = useState("");
+  const [job, setJob] = useState<BulkJobDetail | null>(null);
+  const [foundFlowIds, setFoundFlowIds] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/bulk")
+      .then((response) => response.json())
+      .then((data: BulkResponse<BulkJobSummary[]>) => {
+        if (!cancelled) {
+          setJobs(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Unable to load bulk jobs.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const request = async <T,>(
+    url: string,
+    init?: RequestInit,
+  ): Promise<T | null> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return null;
+      }
+      const data: BulkResponse<T> = await response.json();
+      if (!response.ok || !data.data) {
+        setError(data.error ?? "Bulk request failed.");
+        return null;
+      }
+      return data.data;
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Unexpected error talking to the bulk API.",
+      );
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTemplateFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const spec = parseFlowSpec(await file.text());
+    setTemplateIssues(spec.issues);
+    setTemplate(
+      spec.payload
+        ? {
+            fileName: file.name,
+            payload: spec.payload,
+            placeholders: findPlaceholders(spec.payload),
+          }
+        : null,
+    );
+  };
+
+  const handleCsvFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      setCsv(await file.text());
+    }
+  };
+
+  const handleCreateJob = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!template) {
+      setError("Upload a template spec first.");
+      return;
+    }
+
+    const created = await request<BulkJobDetail>(
+      withAccount("/api/bulk", accountId),
+      {
+        method: "POST",
+        body: JSON.stringify({
+          name: jobName,
+          template: template.payload,
+          csv,
+        }),
+      },
+    );
+    if (created) {
+      setJob(created);
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    const opened = await request<BulkJobDetail>(`/api/bulk/${id}`);
+    if (opened) {
+      setJob(opened);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!job) {
+      return;
+    }
+    const approved = await request<BulkJobDetail>(
+      `/api/bulk/${job.id}/approve`,
+      { method: "POST" },
+    );
+    if (approved) {
+      setJob(approved);
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!job) {
+      return;
+    }
+    const finished = await request<BulkJobDetail>(`/api/bulk/${job.id}/run`, {
+      method: "POST",
+    });
+    if (finished) {
+      setJob(finished);
+    } else {
+      // A failed run may still have created some rows; reload to show them.
+      await handleOpen(job.id);
+    }
+    setRefreshKey((key) => key + 1);
+  };
+
+  const handleReconcile = async (row: number, flowId?: string) => {
+    if (!job) {
+      return;
+    }
+    const reconciled = await request<BulkJobDetail>(
+      `/api/bulk/${job.id}/reconcile`,
+      { method: "POST", body: JSON.stringify({ row, flowId }) },
+    );
+    if (reconciled) {
+      setJob(reconciled);
+      setFoundFlowIds((prev) => ({ ...prev, [row]: "" }));
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this bulk job? Created flows stay in Klaviyo.")) {
+      return;
+    }
+    await request(`/api/bulk/${id}`, { method: "DELETE" });
+    if (job?.id === id) {
+      setJob(null);
+    }
+    setRefreshKey((key) => key + 1);
+  };
+
+  const remaining = job
+    ? job.rows.filter(
+        (row) => row.status === "pending" || row.status === "failed",
+      ).length
+    : 0;
+  const started = job?.rows.some(
+    (row) =>
+      row.status === "created" ||
+      row.status === "failed" ||
+      row.status === "unconfirmed",
+  );
+  const isPublisher = user !== null && hasRole(user.role, "publisher");
+  const isCreator = user !== null && job?.createdBy === user.username;
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
+        <div>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-semibold tracking-tight text-white">
+                Bulk flow generation
+              </h1>
+              <p className="mt-2 max-w-2xl text-sm text-slate-300">
+                Expand a template spec once per CSV row. Use{" "}
+                <code className="text-indigo-200">{"{{column}}"}</code>{" "}
+                placeholders in any text field, such as the flow name, trigger
+                ID, sender details, or tracking values.
+              </p>
+            </div>
+            <div className="flex shrink-0 flex-wrap justify-end gap-2">
+              <UserMenu onSession={setUser} />
+              <AccountSwitcher
+                value={accountId}
+                onChange={(account) => setAccountId(account?.id ?? null)}
+              />
+              <Link
+                href="/"
+                className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10"
+              >
+                Open builder
+              </Link>
+            </div>
+          </div>
+
+          <form
+            onSubmit={handleCreateJob}
+            className="mt-8 space-y-5 rounded-2xl border border-slate-800 bg-slate-900/50 p-6"
+          >
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Job name
+              </span>
+              <input
+                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                placeholder={template?.payload.flowName || "Welcome series rollout"}
+                value={jobName}
+                onChange={(event) => setJobName(event.target.value)}
+              />
+            </label>
+
+            <div className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Template spec
+              </span>
+              <input
+                type="file"
+                accept=".json,.yaml,.yml,application/json,application/yaml"
+                onChange={handleTemplateFile}
+                className="text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-3 file:py-2 file:text-xs file:text-slate-200"
+              />
+              <span className="text-slate-500">
+                Export a spec from the builder, add placeholders, and upload it
+                here.
+              </span>
+              {template && (
+                <p className="text-slate-300">
+                  {template.fileName}:{" "}
+                  {template.placeholders.length
+                    ? template.placeholders
+                        .map((placeholder) => `{{${placeholder}}}`)
+                        .join(", ")
+                    : "no placeholders"}
+                </p>
+              )}
+              {templateIssues.map((issue, index) => (
+                <p key={index} className="text-rose-200">
+                  {issue.line !== null && `Line ${issue.line}: `}
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Variables CSV
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleCsvFile}
+                className="text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-3 file:py-2 file:text-xs file:text-slate-200"
+              />
+              <textarea
+                rows={6}
+                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                placeholder={"list_id,brand,utm_campaign\nAbC123,Acme,welcome-acme"}
+                value={csv}
+                onChange={(event) => setCsv(event.target.value)}
+              />
+              <span className="text-slate-500">
+                The header row names the placeholders; each following row
+                becomes one flow.
+              </span>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isBusy || !template || !csv.trim()}
+              className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+            >
+              Validate rows
+            </button>
+            <p className="text-[11px] text-slate-400">
+              The job keeps the account selected above; running it later
+              creates flows there even if you switch accounts.
+            </p>
+          </form>
+
+          {error && (
+            <div className="mt-6 rounded-lg border border-rose-400/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              {error}
+            </div>
+          )}
+
+          {job && (
+            <div className="mt-8 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-white">
+                    {job.name}
+                  </h2>
+                  <p className="text-xs text-slate-400">
+                    {job.rows.length} row(s) · created by {job.createdBy} ·
+                    updated {formatDate(job.updatedAt)}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {job.approval
+                      ? `Approved by ${job.approval.by} · ${formatDate(job.approval.at)}`
+                      : isCreator
+                        ? "Someone other than you has to approve this job before it runs."
+                        : "A publisher has to approve this job before it runs."}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  {!job.approval && (
+                    <button
+                      type="button"
+                      onClick={handleApprove}
+                      disabled={isBusy || !isPublisher || isCreator}
+                      className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleRun}
+                    disabled={
+                      isBusy ||
+                      job.running ||
+                      !remaining ||
+                      !job.approval ||
+                      !isPublisher
+                    }
+                    className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+                  >
+                    {isBusy
+                      ? "Working..."
+                      : started
+                        ? `Resume (${remaining} left)`
+                        : `Create ${remaining} flow(s)`}
+                  </button>
+                </div>
+              </div>
+
+              {job.unmatchedPlaceholders.length > 0 && (
+                <p className="rounded-lg border border-amber-400/40 bg-amber-500/10 px-4 py-3 text-xs text-amber-100">
+                  No CSV column for{" "}
+                  {job.unmatchedPlaceholders
+                    .map((placeholder) => `{{${placeholder}}}`)
+                    .join(", ")}
+                  . These are sent to Klaviyo unchanged, which is only right
+                  for Klaviyo personalization tags.
+                </p>
+              )}
+
+              <div className="overflow-hidden rounded-2xl border border-slate-800">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-900/70 text-xs uppercase tracking-wide text-slate-400">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">Row</th>
+                      <th className="px-4 py-3 font-medium">Flow</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                      <th className="px-4 py-3 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {job.rows.map((row) => (
+                      <tr key={row.row} className="align-top">
+                        <td className="px-4 py-3 text-xs text-slate-400">
+                          {row.row}
+                        </td>
+                        <td className="px-4 py-3 font-medium text-white">
+                          {row.flowName || "Untitled flow"}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[row.status]}`}
+                          >
+                            {row.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-slate-300">
+                          {row.flowId && (
+                            <span className="font-mono text-emerald-200">
+                              {row.flowId}
+                            </span>
+                          )}
+                          {row.error && (
+                            <span className="text-rose-200">{row.error}</span>
+                          )}
+                          {row.attempts && row.attempts.length > 1 && (
+                            <span className="ml-2 text-slate-500">
+                              {row.attempts.length} attempts
+                            </span>
+                          )}
+                          {row.status === "unconfirmed" && isPublisher && (
+                            <span className="mt-2 flex flex-wrap items-center gap-2">
+                              <input
+                                className="w-40 rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-400"
+                                placeholder="Flow ID in Klaviyo"
+                                value={foundFlowIds[row.row] ?? ""}
+                                onChange={(event) =>
+                                  setFoundFlowIds((prev) => ({
+                                    ...prev,
+                                    [row.row]: event.target.value,
+                                  }))
+                                }
+                              />
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  handleReconcile(
+                                    row.row,
+                                    foundFlowIds[row.row],
+                                  )
+                                }
+                                disabled={
+                                  isBusy || !foundFlowIds[row.row]?.trim()
+                                }
+                                className="text-emerald-200 hover:underline disabled:opacity-50"
+                              >
+                                Mark created
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleReconcile(row.row)}
+                                disabled={isBusy}
+                                className="text-slate-300 hover:underline disabled:opacity-50"
+                              >
+                                Not created
+                              </button>
+                            </span>
+                          )}
+                          {!row.error && row.warnings.length > 0 && (
+                            <span
+                              className="text-amber-200"
+                              title={row.warnings.join("\n")}
+                            >
+                              {row.warnings.length} warning(s)
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <aside className="space-y-6">
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              Recent jobs
+            </h2>
+            <p className="mt-2 text-xs text-slate-400">
+              Jobs keep per-row results, so an interrupted run can be resumed
+              without creating duplicates.
+            </p>
+            <ul className="mt-4 space-y-2 text-xs">
+              {jobs.map((summary) => (
+                <li
+                  key={summary.id}
+                  className={`rounded-lg border p-3 ${
+                    job?.id === summary.id
+                      ? "border-indigo-500/60 bg-indigo-500/5"
+                      : "border-slate-800 bg-slate-950/60"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-slate-100">
+                        {summary.name}
+                      </p>
+                      <p className="text-[11px] text-slate-500">
+                        {summary.counts.created} created ·{" "}
+                        {summary.counts.pending + summary.counts.failed} left ·{" "}
+                        {summary.counts.invalid} invalid
+                        {summary.counts.unconfirmed > 0 &&
+                          ` · ${summary.counts.unconfirmed} to reconcile`}
+                        {!summary.approved && " · awaiting approval"}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-2 text-[11px]">
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(summary.id)}
+                        className="text-indigo-200 hover:underline"
+                      >
+                        Open
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(summary.id)}
+                        className="text-rose-200 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+              {!jobs.length && (
+                <li className="text-slate-500">No bulk jobs yet.</li>
+              )}
+            </ul>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,861 @@
+'use client';
+
+import Link from "next/link";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import AccountSwitcher, { withAccount } from "@/components/AccountSwitcher";
+import UserMenu from "@/components/UserMenu";
+import type { AccountSummary } from "@/lib/accountStore";
+import type { StepStatus } from "@/lib/klaviyo";
+import {
+  ACTION_STATUSES,
+  FLOW_STATUSES,
+  type FlowStatus,
+  type FlowUpdate,
+} from "@/lib/klaviyoFlows";
+import { hasRole, type SessionUser } from "@/lib/session";
+
+interface FlowSummary {
+  id: string;
+  name: string;
+  status: string;
+  archived: boolean;
+  triggerType: string;
+  created: string | null;
+  updated: string | null;
+}
+
+interface ListFlowsResponse {
+  data?: FlowSummary[];
+  nextCursor?: string | null;
+  previousCursor?: string | null;
+  error?: string;
+}
+
+interface FlowDetail {
+  id: string;
+  attributes: Record<string, unknown>;
+  actions: {
+    id: string;
+    attributes: Record<string, unknown>;
+    messages: {
+      id: string;
+      attributes: Record<string, unknown>;
+    }[];
+  }[];
+}
+
+interface FlowDetailResponse {
+  data?: FlowDetail;
+  error?: string;
+}
+
+interface UpdatedAction {
+  id: string;
+  attributes: Record<string, unknown>;
+}
+
+interface StatusChange {
+  ids: string[];
+  status: FlowStatus;
+}
+
+interface StatusChangeResult {
+  id: string;
+  name: string;
+  error: string | null;
+}
+
+interface ListResult {
+  query: string;
+  flows: FlowSummary[];
+  nextCursor: string | null;
+  error: string | null;
+}
+
+interface Filters {
+  name: string;
+  status: string;
+  triggerType: string;
+}
+
+const EMPTY_FILTERS: Filters = { name: "", status: "", triggerType: "" };
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+const STATUS_STYLES: Record<string, string> = {
+  live: "bg-emerald-500/15 text-emerald-200",
+  manual: "bg-amber-500/15 text-amber-200",
+  draft: "bg-slate-500/20 text-slate-300",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  live: "Live",
+  manual: "Manual",
+  disabled: "Disabled",
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const sendUpdate = async <T,>(
+  url: string,
+  body: unknown,
+): Promise<{ data?: T; error?: string }> => {
+  try {
+    const response = await fetch(url, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data: { data?: T; error?: string } = await response.json();
+    return response.ok
+      ? data
+      : { error: data.error ?? "Klaviyo rejected the update." };
+  } catch (updateError) {
+    return {
+      error: errorMessage(updateError, "Unexpected error updating the flow."),
+    };
+  }
+};
+
+export default function FlowsDashboard() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [draftFilters, setDraftFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  // Cursors for every page visited so far; the last entry is the current page.
+  const [cursorStack, setCursorStack] = useState<(string | null)[]>([null]);
+  const [result, setResult] = useState<ListResult | null>(null);
+  const [selected, setSelected] = useState<FlowDetail | null>(null);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [pendingChange, setPendingChange] = useState<StatusChange | null>(
+    null,
+  );
+  const [changeResults, setChangeResults] = useState<StatusChangeResult[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [manageError, setManageError] = useState<string | null>(null);
+
+  const canManage = user !== null && hasRole(user.role, "publisher");
+  const cursor = cursorStack[cursorStack.length - 1];
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams();
+    if (filters.name.trim()) params.set("name", filters.name.trim());
+    if (filters.status) params.set("status", filters.status);
+    if (filters.triggerType) params.set("triggerType", filters.triggerType);
+    if (cursor) params.set("cursor", cursor);
+    if (accountId) params.set("account", accountId);
+    return params.toString();
+  }, [filters, cursor, accountId]);
+
+  const isLoading = result?.query !== query;
+  const flows = result?.flows ?? [];
+  const nextCursor = result?.nextCursor ?? null;
+  const error = result?.error ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async (): Promise<ListResult> => {
+      try {
+        const response = await fetch(`/api/flows?${query}`);
+        const data: ListFlowsResponse = await response.json();
+
+        if (!response.ok) {
+          return {
+            query,
+            flows: [],
+            nextCursor: null,
+            error: data.error ?? "Unable to load flows from Klaviyo.",
+          };
+        }
+
+        return {
+          query,
+          flows: data.data ?? [],
+          nextCursor: data.nextCursor ?? null,
+          error: null,
+        };
+      } catch (loadError) {
+        return {
+          query,
+          flows: [],
+          nextCursor: null,
+          error:
+            loadError instanceof Error
+              ? loadError.message
+              : "Unexpected error loading flows.",
+        };
+      }
+    };
+
+    load().then((next) => {
+      if (!cancelled) {
+        setResult(next);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const handleFilterSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFilters(draftFilters);
+    setCursorStack([null]);
+    setCheckedIds([]);
+  };
+
+  const handleAccountChange = (account: AccountSummary | null) => {
+    setAccountId(account?.id ?? null);
+    setCursorStack([null]);
+    setSelected(null);
+    setCheckedIds([]);
+    setPendingChange(null);
+    setChangeResults([]);
+  };
+
+  const flowName = (id: string) => {
+    const listed = flows.find((flow) => flow.id === id);
+    if (listed) {
+      return listed.name || "Untitled flow";
+    }
+    return selected?.id === id
+      ? String(selected.attributes.name ?? id)
+      : id;
+  };
+
+  // Keeps the table and the open detail in step with what Klaviyo returned,
+  // so a change shows up without reloading the page.
+  const applySummary = (summary: FlowSummary) => {
+    setResult((prev) =>
+      prev
+        ? {
+            ...prev,
+            flows: prev.flows.map((flow) =>
+              flow.id === summary.id ? summary : flow,
+            ),
+          }
+        : prev,
+    );
+    setSelected((prev) =>
+      prev?.id === summary.id
+        ? {
+            ...prev,
+            attributes: {
+              ...prev.attributes,
+              name: summary.name,
+              status: summary.status,
+            },
+          }
+        : prev,
+    );
+  };
+
+  const runStatusChange = async ({ ids, status }: StatusChange) => {
+    setPendingChange(null);
+    setIsUpdating(true);
+    setChangeResults([]);
+
+    const results: StatusChangeResult[] = [];
+    // One at a time, so a rate-limited account isn't hit with a burst.
+    for (const id of ids) {
+      const update = await sendUpdate<FlowSummary>(
+        withAccount(`/api/flows/${encodeURIComponent(id)}`, accountId),
+        { status } satisfies FlowUpdate,
+      );
+      if (update.data) {
+        applySummary(update.data);
+      }
+      results.push({
+        id,
+        name: flowName(id),
+        error: update.data ? null : (update.error ?? "Update failed."),
+      });
+    }
+
+    setChangeResults(results);
+    setCheckedIds((prev) =>
+      prev.filter((id) => results.some((r) => r.id === id && r.error)),
+    );
+    setIsUpdating(false);
+  };
+
+  // Going live starts sending to real profiles, so it waits for a second
+  // click; other changes apply straight away.
+  const requestStatusChange = (ids: string[], status: FlowStatus) => {
+    if (!ids.length) {
+      return;
+    }
+    if (status === "live") {
+      setPendingChange({ ids, status });
+      return;
+    }
+    void runStatusChange({ ids, status });
+  };
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+    );
+  };
+
+  const allChecked =
+    flows.length > 0 && flows.every((flow) => checkedIds.includes(flow.id));
+
+  const handleDelete = async () => {
+    if (!selected) {
+      return;
+    }
+    const name = String(selected.attributes.name ?? selected.id);
+    if (
+      !window.confirm(
+        `Delete "${name}" from Klaviyo? This removes the flow and its messages and cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    setIsUpdating(true);
+    setManageError(null);
+    try {
+      const response = await fetch(
+        withAccount(`/api/flows/${encodeURIComponent(selected.id)}`, accountId),
+        { method: "DELETE" },
+      );
+      if (!response.ok) {
+        const data: { error?: string } = await response.json();
+        setManageError(data.error ?? "Unable to delete the flow.");
+        return;
+      }
+
+      const { id } = selected;
+      setResult((prev) =>
+        prev
+          ? { ...prev, flows: prev.flows.filter((flow) => flow.id !== id) }
+          : prev,
+      );
+      setCheckedIds((prev) => prev.filter((item) => item !== id));
+      setSelected(null);
+    } catch (deleteError) {
+      setManageError(
+        errorMessage(deleteError, "Unexpected error deleting the flow."),
+      );
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleActionStatus = async (actionId: string, status: StepStatus) => {
+    if (!selected) {
+      return;
+    }
+    if (
+      status === "live" &&
+      !window.confirm(
+        "Set this action live? Klaviyo starts sending it to profiles in the flow straight away.",
+      )
+    ) {
+      return;
+    }
+
+    setIsUpdating(true);
+    setManageError(null);
+    const update = await sendUpdate<UpdatedAction>(
+      withAccount(
+        `/api/flows/${encodeURIComponent(selected.id)}/actions/${encodeURIComponent(actionId)}`,
+        accountId,
+      ),
+      { status },
+    );
+    const updated = update.data;
+    if (updated) {
+      setSelected((prev) =>
+        prev
+          ? {
+              ...prev,
+              actions: prev.actions.map((action) =>
+                action.id === updated.id
+                  ? {
+                      ...action,
+                      attributes: { ...action.attributes, ...updated.attributes },
+                    }
+                  : action,
+              ),
+            }
+          : prev,
+      );
+    } else {
+      setManageError(update.error ?? "Unable to update the action.");
+    }
+    setIsUpdating(false);
+  };
+
+  const handleSelect = async (id: string) => {
+    setIsLoadingDetail(true);
+    setDetailError(null);
+    setManageError(null);
+    setSelected(null);
+
+    try {
+      const response = await fetch(
+        withAccount(`/api/flows/${encodeURIComponent(id)}`, accountId),
+      );
+      const data: FlowDetailResponse = await response.json();
+
+      if (!response.ok || !data.data) {
+        setDetailError(data.error ?? "Unable to load flow details.");
+        return;
+      }
+
+      setSelected(data.data);
+    } catch (loadError) {
+      setDetailError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Unexpected error loading flow details.",
+      );
+    } finally {
+      setIsLoadingDetail(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
+        <div>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-semibold tracking-tight text-white">
+                Klaviyo Flows
+              </h1>
+              <p className="mt-2 max-w-2xl text-sm text-slate-300">
+                Everything that already exists in the connected account. Check
+                here before building a new flow to avoid duplicates, and switch
+                flows on or off or delete them without leaving the app.
+              </p>
+            </div>
+            <div className="flex shrink-0 flex-wrap justify-end gap-2">
+              <UserMenu onSession={setUser} />
+              <AccountSwitcher
+                value={accountId}
+                onChange={handleAccountChange}
+              />
+              <Link
+                href="/"
+                className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10"
+              >
+                Open builder
+              </Link>
+            </div>
+          </div>
+
+          <form
+            onSubmit={handleFilterSubmit}
+            className="mt-8 grid gap-4 rounded-2xl border border-slate-800 bg-slate-900/40 p-6 md:grid-cols-[2fr_1fr_1fr_auto]"
+          >
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Name contains
+              </span>
+              <input
+                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                placeholder="Welcome"
+                value={draftFilters.name}
+                onChange={(event) =>
+                  setDraftFilters((prev) => ({
+                    ...prev,
+                    name: event.target.value,
+                  }))
+                }
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Status
+              </span>
+              <select
+                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                value={draftFilters.status}
+                onChange={(event) =>
+                  setDraftFilters((prev) => ({
+                    ...prev,
+                    status: event.target.value,
+                  }))
+                }
+              >
+                <option value="">Any</option>
+                <option value="draft">Draft</option>
+                <option value="live">Live</option>
+                <option value="manual">Manual</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Trigger
+              </span>
+              <select
+                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                value={draftFilters.triggerType}
+                onChange={(event) =>
+                  setDraftFilters((prev) => ({
+                    ...prev,
+                    triggerType: event.target.value,
+                  }))
+                }
+              >
+                <option value="">Any</option>
+                <option value="list">List</option>
+                <option value="segment">Segment</option>
+                <option value="metric">Metric</option>
+                <option value="date">Date based</option>
+              </select>
+            </label>
+            <button
+              type="submit"
+              className="self-end rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400"
+            >
+              Filter
+            </button>
+          </form>
+
+          {error && (
+            <div className="mt-6 rounded-lg border border-rose-400/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              {error}
+            </div>
+          )}
+
+          {canManage && checkedIds.length > 0 && (
+            <div className="mt-6 flex flex-wrap items-center gap-3 rounded-lg border border-slate-800 bg-slate-900/60 px-4 py-3 text-xs text-slate-300">
+              <span>{checkedIds.length} selected</span>
+              <span className="text-slate-500">Set status:</span>
+              {FLOW_STATUSES.map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  disabled={isUpdating}
+                  onClick={() => requestStatusChange(checkedIds, status)}
+                  className="rounded-lg border border-slate-700 px-3 py-1 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  {STATUS_LABELS[status]}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setCheckedIds([])}
+                className="ml-auto text-slate-400 underline-offset-2 hover:underline"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+
+          {pendingChange && (
+            <div className="mt-6 rounded-lg border border-amber-400/60 bg-amber-500/10 px-4 py-3 text-sm text-amber-100">
+              <p className="font-medium">
+                Set {pendingChange.ids.length} flow(s) live? Klaviyo will start
+                sending to everyone who triggers them.
+              </p>
+              <ul className="mt-2 list-inside list-disc text-xs text-amber-200">
+                {pendingChange.ids.map((id) => (
+                  <li key={id}>{flowName(id)}</li>
+                ))}
+              </ul>
+              <div className="mt-3 flex gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => runStatusChange(pendingChange)}
+                  className="rounded-lg bg-amber-500 px-3 py-1.5 font-semibold text-slate-950 transition hover:bg-amber-400"
+                >
+                  Go live
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPendingChange(null)}
+                  className="rounded-lg border border-amber-400/60 px-3 py-1.5 transition hover:bg-amber-500/10"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isUpdating && (
+            <p className="mt-6 text-xs text-slate-400">Updating Klaviyo...</p>
+          )}
+
+          {changeResults.length > 0 && (
+            <div className="mt-6 rounded-lg border border-slate-800 bg-slate-900/40 px-4 py-3 text-xs">
+              <div className="flex justify-between gap-2 text-slate-300">
+                <span>
+                  Updated{" "}
+                  {changeResults.filter((change) => !change.error).length} of{" "}
+                  {changeResults.length} flow(s).
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setChangeResults([])}
+                  className="text-slate-400 underline-offset-2 hover:underline"
+                >
+                  Dismiss
+                </button>
+              </div>
+              {changeResults
+                .filter((change) => change.error)
+                .map((change) => (
+                  <p key={change.id} className="mt-1 text-rose-200">
+                    {change.name}: {change.error}
+                  </p>
+                ))}
+            </div>
+          )}
+
+          <div className="mt-6 overflow-hidden rounded-2xl border border-slate-800">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-900/70 text-xs uppercase tracking-wide text-slate-400">
+                <tr>
+                  {canManage && (
+                    <th className="w-10 px-4 py-3">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all flows on this page"
+                        checked={allChecked}
+                        onChange={() =>
+                          setCheckedIds(
+                            allChecked ? [] : flows.map((flow) => flow.id),
+                          )
+                        }
+                      />
+                    </th>
+                  )}
+                  <th className="px-4 py-3 font-medium">Name</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                  <th className="px-4 py-3 font-medium">Trigger</th>
+                  <th className="px-4 py-3 font-medium">Updated</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {flows.map((flow) => (
+                  <tr
+                    key={flow.id}
+                    onClick={() => handleSelect(flow.id)}
+                    className={`cursor-pointer transition hover:bg-slate-900/60 ${
+                      selected?.id === flow.id ? "bg-slate-900/60" : ""
+                    }`}
+                  >
+                    {canManage && (
+                      <td
+                        className="px-4 py-3"
+                        onClick={(event) => event.stopPropagation()}
+                      >
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${flow.name || flow.id}`}
+                          checked={checkedIds.includes(flow.id)}
+                          onChange={() => toggleChecked(flow.id)}
+                        />
+                      </td>
+                    )}
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-white">
+                        {flow.name || "Untitled flow"}
+                      </div>
+                      <div className="font-mono text-[11px] text-slate-500">
+                        {flow.id}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs ${
+                          STATUS_STYLES[flow.status] ?? STATUS_STYLES.draft
+                        }`}
+                      >
+                        {flow.archived ? "archived" : flow.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-300">
+                      {flow.triggerType || "—"}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-400">
+                      {formatDate(flow.updated)}
+                    </td>
+                  </tr>
+                ))}
+                {!flows.length && (
+                  <tr>
+                    <td
+                      colSpan={canManage ? 5 : 4}
+                      className="px-4 py-6 text-center text-xs text-slate-400"
+                    >
+                      {isLoading ? "Loading flows..." : "No flows found."}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center justify-between text-xs text-slate-400">
+            <span>Page {cursorStack.length}</span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={cursorStack.length === 1 || isLoading}
+                onClick={() => setCursorStack((prev) => prev.slice(0, -1))}
+                className="rounded-lg border border-slate-700 px-3 py-1 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                disabled={!nextCursor || isLoading}
+                onClick={() =>
+                  setCursorStack((prev) => [...prev, nextCursor])
+                }
+                className="rounded-lg border border-slate-700 px-3 py-1 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <aside className="space-y-6">
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              Flow details
+            </h2>
+            {isLoadingDetail && (
+              <p className="mt-3 text-xs text-slate-400">Loading...</p>
+            )}
+            {detailError && (
+              <p className="mt-3 text-xs text-rose-200">{detailError}</p>
+            )}
+            {!selected && !isLoadingDetail && !detailError && (
+              <p className="mt-3 text-xs text-slate-400">
+                Select a flow to see its actions and messages.
+              </p>
+            )}
+            {selected && (
+              <div className="mt-3 space-y-4 text-xs">
+                <div>
+                  <p className="font-semibold text-white">
+                    {String(selected.attributes.name ?? selected.id)}
+                  </p>
+                  <p className="font-mono text-slate-500">{selected.id}</p>
+                </div>
+                {manageError && <p className="text-rose-200">{manageError}</p>}
+                {canManage ? (
+                  <div className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/60 p-3">
+                    <p className="text-slate-500">
+                      Rename flows in Klaviyo; its API can only change their
+                      status.
+                    </p>
+                    <label className="flex items-center justify-between gap-2 text-slate-400">
+                      Status
+                      <select
+                        className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-50"
+                        disabled={isUpdating}
+                        value={String(selected.attributes.status ?? "draft")}
+                        onChange={(event) =>
+                          requestStatusChange(
+                            [selected.id],
+                            event.target.value as FlowStatus,
+                          )
+                        }
+                      >
+                        {FLOW_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {STATUS_LABELS[status]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      type="button"
+                      disabled={isUpdating}
+                      onClick={handleDelete}
+                      className="text-rose-300 underline-offset-2 hover:underline disabled:opacity-40"
+                    >
+                      Delete flow
+                    </button>
+                  </div>
+                ) : (
+                  user && (
+                    <p className="text-slate-400">
+                      Changing flows in Klaviyo needs the publisher role.
+                    </p>
+                  )
+                )}
+                <ol className="space-y-3">
+                  {selected.actions.map((action, index) => (
+                    <li
+                      key={action.id}
+                      className="rounded-lg border border-slate-800 bg-slate-950/60 p-3"
+                    >
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium text-slate-200">
+                          {index + 1}.{" "}
+                          {String(action.attributes.action_type ?? "action")}
+                        </span>
+                        {canManage ? (
+                          <select
+                            className="rounded border border-slate-800 bg-slate-950 px-1 text-xs text-slate-300"
+                            aria-label={`Status of step ${index + 1}`}
+                            disabled={isUpdating}
+                            value={String(action.attributes.status ?? "")}
+                            onChange={(event) =>
+                              handleActionStatus(
+                                action.id,
+                                event.target.value as StepStatus,
+                              )
+                            }
+                          >
+                            {ACTION_STATUSES.map((status) => (
+                              <option key={status} value={status}>
+                                {STATUS_LABELS[status]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-slate-400">
+                            {String(action.attributes.status ?? "")}
+                          </span>
+                        )}
+                      </div>
+                      {action.messages.map((message) => {
+                        const content = (message.attributes.content ??
+                          {}) as Record<string, unknown>;
+                        return (
+                          <div key={message.id} className="mt-2 text-slate-400">
+                            <p className="text-slate-300">
+                              {String(message.attributes.name ?? message.id)}
+                            </p>
+                            {typeof content.subject === "string" && (
+                              <p>Subject: {content.subject}</p>
+                            )}
+                            {typeof message.attributes.channel === "string" && (
+                              <p>Channel: {message.attributes.channel}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </li>
+                  ))}
+                  {!selected.actions.length && (
+                    <li className="text-slate-400">This flow has no actions.</li>
+                  )}
+                </ol>
+              </div>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { FormEvent, useState } from "react";
+
+interface LoginResponse {
+  data?: { username: string; role: string };
+  error?: string;
+}
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20";
+
+// Only same-origin paths, so the login page can't be used as an open redirect.
+// The value is resolved the way the browser would, which also catches forms
+// like `/\evil.com` that browsers read as `//evil.com`.
+const safeNextPath = (value: string | null) => {
+  if (!value) {
+    return "/";
+  }
+  try {
+    const target = new URL(value, window.location.origin);
+    return target.origin === window.location.origin
+      ? `${target.pathname}${target.search}`
+      : "/";
+  } catch {
+    return "/";
+  }
+};
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data: LoginResponse = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? "Unable to sign in.");
+        return;
+      }
+
+      // A full navigation so middleware sees the new session cookie.
+      window.location.assign(
+        safeNextPath(new URLSearchParams(window.location.search).get("next")),
+      );
+    } catch (loginError) {
+      setError(
+        loginError instanceof Error
+          ? loginError.message
+          : "Unexpected error signing in.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-950 px-6 text-slate-100">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-5 rounded-2xl border border-slate-800 bg-slate-900/50 p-6"
+      >
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight text-white">
+            Sign in
+          </h1>
+          <p className="mt-1 text-sm text-slate-400">
+            Klaviyo Flow Builder
+          </p>
+        </div>
+
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Username
+          </span>
+          <input
+            className={FIELD_CLASS}
+            autoComplete="username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            required
+          />
+        </label>
+
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Password
+          </span>
+          <input
+            type="password"
+            className={FIELD_CLASS}
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            required
+          />
+        </label>
+
+        {error && (
+          <p className="rounded-lg border border-rose-500/40 bg-rose-500/10 px-3 py-2 text-sm text-rose-200">
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+        >
+          {isSubmitting ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
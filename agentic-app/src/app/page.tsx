@@ -1,21 +1,93 @@
 'use client';
 
+import Link from "next/link";
 import { FormEvent, useMemo, useState } from "react";
+import AccountSwitcher, { withAccount } from "@/components/AccountSwitcher";
+import AuditEntryNotice from "@/components/AuditEntryNotice";
+import AudiencePicker from "@/components/AudiencePicker";
+import DraftsPanel from "@/components/DraftsPanel";
+import FlowImportPanel from "@/components/FlowImportPanel";
+import FlowSpecPanel from "@/components/FlowSpecPanel";
+import FlowTimeline, { type TimelineStep } from "@/components/FlowTimeline";
+import ReviewSubmissionPanel from "@/components/ReviewSubmissionPanel";
+import TemplatePicker from "@/components/TemplatePicker";
+import TimezonePicker from "@/components/TimezonePicker";
+import TrackingDefaultsPanel, {
+  type TrackingRow,
+} from "@/components/TrackingDefaultsPanel";
+import UserMenu from "@/components/UserMenu";
+import type { AccountDefaults, AccountSummary } from "@/lib/accountStore";
+import { sanitizePayload, summarizeIssues } from "@/lib/flowPayload";
+import {
+  validateFlowPayload,
+  type ValidationIssue,
+} from "@/lib/flowValidation";
+import type { KlaviyoErrorIssue } from "@/lib/klaviyoErrors";
+import {
+  WEEKDAYS,
+  isSplitStep,
+  type FlowDelayPayload,
+  type FlowRequestPayload,
+  type FlowStepPayload,
+  type TrackingParamPayload,
+  type Weekday,
+} from "@/lib/klaviyo";
+import { hasRole, type Role } from "@/lib/session";
+import {
+  effectiveTracking,
+  fillTrackingTokens,
+  trackingOverrides,
+} from "@/lib/tracking";
 
-type TriggerType = "list" | "segment";
+type TriggerType = "list" | "segment" | "metric";
 
 type StepStatus = "draft" | "live" | "manual" | "disabled";
 
 type DelayUnit = "minutes" | "hours" | "days";
 
-interface TrackingRow {
+type SplitConditionType =
+  | "profile-property"
+  | "has-done-metric"
+  | "trigger-property";
+
+type ProfilePropertyOperator =
+  | "equals"
+  | "not-equals"
+  | "contains"
+  | "is-set"
+  | "is-not-set";
+
+type TriggerPropertyOperator = "equals" | "contains" | "greater-than";
+
+interface TriggerFilterRow {
+  id: string;
+  property: string;
+  operator: TriggerPropertyOperator;
+  value: string;
+}
+
+interface ProfileFilterRow {
   id: string;
-  param: string;
+  property: string;
+  operator: ProfilePropertyOperator;
   value: string;
 }
 
-interface EmailStepForm {
+interface DelayFields {
+  delayEnabled: boolean;
+  delayMode: "duration" | "until-date";
+  delayValue: number;
+  delayUnit: DelayUnit;
+  delayUntilDate: string;
+  delayTimezone: string;
+  /** `HH:MM`, or empty to send as soon as the wait is over. */
+  delaySendAtTime: string;
+  delayWeekdays: Weekday[];
+}
+
+interface EmailStepForm extends DelayFields {
   id: string;
+  kind: "email";
   internalName: string;
   subjectLine: string;
   previewText: string;
@@ -29,25 +101,90 @@ interface EmailStepForm {
   status: StepStatus;
   addTrackingParams: boolean;
   trackingRows: TrackingRow[];
-  delayEnabled: boolean;
-  delayValue: number;
-  delayUnit: DelayUnit;
-  delayTimezone: string;
+  inheritTracking: boolean;
+}
+
+interface SmsStepForm extends DelayFields {
+  id: string;
+  kind: "sms";
+  internalName: string;
+  body: string;
+  mediaUrl: string;
+  sender: string;
+  shortenLinks: boolean;
+  quietHoursEnabled: boolean;
+  smartSendingEnabled: boolean;
+  status: StepStatus;
+}
+
+interface PushStepForm extends DelayFields {
+  id: string;
+  kind: "push";
+  internalName: string;
+  title: string;
+  body: string;
+  deepLink: string;
+  smartSendingEnabled: boolean;
+  status: StepStatus;
+}
+
+interface SplitStepForm extends DelayFields {
+  id: string;
+  kind: "conditional-split";
+  internalName: string;
+  conditionType: SplitConditionType;
+  property: string;
+  operator: ProfilePropertyOperator | TriggerPropertyOperator;
+  value: string;
+  metricId: string;
+  metricCount: number;
+  timeframeDays: number;
+  yes: FlowStepForm[];
+  no: FlowStepForm[];
+}
+
+type MessageStepForm = EmailStepForm | SmsStepForm | PushStepForm;
+
+type FlowStepForm = MessageStepForm | SplitStepForm;
+
+// Problems tied to a payload path, from local validation or from Klaviyo.
+type FieldIssue = ValidationIssue | KlaviyoErrorIssue;
+
+interface BranchTarget {
+  parentId: string;
+  branch: "yes" | "no";
 }
 
-interface CreateFlowResponse {
+interface SubmitReviewResponse {
   data?: {
-    data?: {
-      id?: string;
-      attributes?: {
-        name?: string;
-      };
-    };
+    id?: string;
+    flowName?: string;
   };
   error?: string;
+  errors?: FieldIssue[];
+  details?: unknown;
+}
+
+interface PreviewFlowResponse {
+  dryRun?: boolean;
+  payload?: unknown;
+  warnings?: string[];
+  error?: string;
+  errors?: FieldIssue[];
   details?: unknown;
 }
 
+const NO_BRAND_DEFAULTS: AccountDefaults = {
+  fromName: "",
+  fromEmail: "",
+  replyToEmail: "",
+  trackingParams: [],
+  timezone: "profile",
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20";
+
 const createId = (prefix: string) => {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
     return `${prefix}-${crypto.randomUUID()}`;
@@ -61,14 +198,78 @@ const createTrackingRow = (): TrackingRow => ({
   value: "",
 });
 
-const createEmptyStep = (): EmailStepForm => ({
+const createTriggerFilterRow = (): TriggerFilterRow => ({
+  id: createId("trigger-filter"),
+  property: "",
+  operator: "equals",
+  value: "",
+});
+
+const createProfileFilterRow = (): ProfileFilterRow => ({
+  id: createId("profile-filter"),
+  property: "",
+  operator: "equals",
+  value: "",
+});
+
+const toTrackingRows = (params: TrackingParamPayload[]) =>
+  params.map((track) => ({
+    ...createTrackingRow(),
+    param: track.param,
+    value: track.value,
+  }));
+
+const toTrackingParams = (rows: TrackingRow[]): TrackingParamPayload[] =>
+  rows
+    .map((row) => ({
+      param: row.param.trim(),
+      value: row.value.trim(),
+    }))
+    .filter((row) => row.param && row.value);
+
+const hasTrackingParams = (
+  rows: TrackingRow[],
+  params: TrackingParamPayload[],
+) =>
+  rows.length === params.length &&
+  rows.every(
+    (row, index) =>
+      row.param === params[index].param && row.value === params[index].value,
+  );
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: "Mon",
+  tuesday: "Tue",
+  wednesday: "Wed",
+  thursday: "Thu",
+  friday: "Fri",
+  saturday: "Sat",
+  sunday: "Sun",
+};
+
+const createDelayFields = (brand: AccountDefaults): DelayFields => ({
+  delayEnabled: false,
+  delayMode: "duration",
+  delayValue: 1,
+  delayUnit: "days",
+  delayUntilDate: "",
+  delayTimezone: brand.timezone,
+  delaySendAtTime: "",
+  delayWeekdays: WEEKDAYS,
+});
+
+// New steps start from the selected account's brand defaults.
+const createEmptyStep = (
+  brand: AccountDefaults = NO_BRAND_DEFAULTS,
+): EmailStepForm => ({
   id: createId("step"),
+  kind: "email",
   internalName: "",
   subjectLine: "",
   previewText: "",
-  fromEmail: "",
-  fromName: "",
-  replyToEmail: "",
+  fromEmail: brand.fromEmail,
+  fromName: brand.fromName,
+  replyToEmail: brand.replyToEmail,
   ccEmail: "",
   bccEmail: "",
   templateId: "",
@@ -76,57 +277,464 @@ const createEmptyStep = (): EmailStepForm => ({
   status: "draft",
   addTrackingParams: false,
   trackingRows: [],
-  delayEnabled: false,
-  delayValue: 1,
-  delayUnit: "days",
-  delayTimezone: "profile",
+  inheritTracking: true,
+  ...createDelayFields(brand),
+});
+
+const createEmptySms = (
+  brand: AccountDefaults = NO_BRAND_DEFAULTS,
+): SmsStepForm => ({
+  id: createId("sms"),
+  kind: "sms",
+  internalName: "",
+  body: "",
+  mediaUrl: "",
+  sender: "",
+  shortenLinks: true,
+  quietHoursEnabled: true,
+  smartSendingEnabled: true,
+  status: "draft",
+  ...createDelayFields(brand),
+});
+
+const createEmptyPush = (
+  brand: AccountDefaults = NO_BRAND_DEFAULTS,
+): PushStepForm => ({
+  id: createId("push"),
+  kind: "push",
+  internalName: "",
+  title: "",
+  body: "",
+  deepLink: "",
+  smartSendingEnabled: true,
+  status: "draft",
+  ...createDelayFields(brand),
+});
+
+const createEmptySplit = (
+  brand: AccountDefaults = NO_BRAND_DEFAULTS,
+): SplitStepForm => ({
+  id: createId("split"),
+  kind: "conditional-split",
+  internalName: "",
+  conditionType: "profile-property",
+  property: "",
+  operator: "equals",
+  value: "",
+  metricId: "",
+  metricCount: 1,
+  timeframeDays: 30,
+  ...createDelayFields(brand),
+  yes: [],
+  no: [],
+});
+
+const STEP_FACTORIES: Record<
+  FlowStepForm["kind"],
+  (brand?: AccountDefaults) => FlowStepForm
+> = {
+  email: createEmptyStep,
+  sms: createEmptySms,
+  push: createEmptyPush,
+  "conditional-split": createEmptySplit,
+};
+
+const isSplitForm = (step: FlowStepForm): step is SplitStepForm =>
+  step.kind === "conditional-split";
+
+// Moves fields still holding the previous account's defaults over to the new
+// account's, leaving anything that was edited by hand alone.
+const swapBrandDefaults = (
+  steps: FlowStepForm[],
+  from: AccountDefaults,
+  to: AccountDefaults,
+): FlowStepForm[] =>
+  steps.map((step) => {
+    const delayTimezone =
+      step.delayTimezone === from.timezone ? to.timezone : step.delayTimezone;
+
+    if (isSplitForm(step)) {
+      return {
+        ...step,
+        delayTimezone,
+        yes: swapBrandDefaults(step.yes, from, to),
+        no: swapBrandDefaults(step.no, from, to),
+      };
+    }
+    if (step.kind !== "email") {
+      return { ...step, delayTimezone };
+    }
+
+    const swap = (field: "fromName" | "fromEmail" | "replyToEmail") =>
+      step[field] === from[field] ? to[field] : step[field];
+    return {
+      ...step,
+      delayTimezone,
+      fromName: swap("fromName"),
+      fromEmail: swap("fromEmail"),
+      replyToEmail: swap("replyToEmail"),
+    };
+  });
+
+const mapStepTree = (
+  steps: FlowStepForm[],
+  id: string,
+  update: (step: FlowStepForm) => FlowStepForm,
+): FlowStepForm[] =>
+  steps.map((step) => {
+    if (step.id === id) {
+      return update(step);
+    }
+    if (!isSplitForm(step)) {
+      return step;
+    }
+    return {
+      ...step,
+      yes: mapStepTree(step.yes, id, update),
+      no: mapStepTree(step.no, id, update),
+    };
+  });
+
+const removeFromTree = (steps: FlowStepForm[], id: string): FlowStepForm[] =>
+  steps
+    .filter((step) => step.id !== id)
+    .map((step) =>
+      isSplitForm(step)
+        ? {
+            ...step,
+            yes: removeFromTree(step.yes, id),
+            no: removeFromTree(step.no, id),
+          }
+        : step,
+    );
+
+// Reorders within the step's own branch; refuses moves that leave a split
+// anywhere but last, since split branches never rejoin.
+const moveInTree = (
+  steps: FlowStepForm[],
+  id: string,
+  toIndex: number,
+): FlowStepForm[] => {
+  const from = steps.findIndex((step) => step.id === id);
+  if (from === -1) {
+    return steps.map((step) =>
+      isSplitForm(step)
+        ? {
+            ...step,
+            yes: moveInTree(step.yes, id, toIndex),
+            no: moveInTree(step.no, id, toIndex),
+          }
+        : step,
+    );
+  }
+
+  const moved = [...steps];
+  moved.splice(toIndex, 0, ...moved.splice(from, 1));
+  return moved.slice(0, -1).some(isSplitForm) ? steps : moved;
+};
+
+const TRIGGER_LABELS: Record<TriggerType, string> = {
+  list: "Added to list",
+  segment: "Added to segment",
+  metric: "Metric",
+};
+
+const SPLIT_SUMMARIES: Record<SplitConditionType, string> = {
+  "profile-property": "Profile property",
+  "trigger-property": "Event property",
+  "has-done-metric": "Has done metric",
+};
+
+const toTimelineStep = (step: FlowStepForm): TimelineStep => {
+  const base = {
+    id: step.id,
+    kind: step.kind,
+    delay: toDelayPayload(step),
+  };
+
+  switch (step.kind) {
+    case "email":
+      return { ...base, title: step.subjectLine || step.internalName };
+    case "sms":
+      return { ...base, title: step.internalName || step.body };
+    case "push":
+      return { ...base, title: step.title || step.internalName };
+    default:
+      return {
+        ...base,
+        title:
+          step.internalName ||
+          `${SPLIT_SUMMARIES[step.conditionType]}: ${
+            step.conditionType === "has-done-metric"
+              ? step.metricId
+              : step.property
+          }`,
+        yes: step.yes.map(toTimelineStep),
+        no: step.no.map(toTimelineStep),
+      };
+  }
+};
+
+// Splits never rejoin, so new messages are slotted in ahead of a trailing split.
+const appendStep = (
+  steps: FlowStepForm[],
+  step: FlowStepForm,
+): FlowStepForm[] => {
+  const last = steps[steps.length - 1];
+  if (!last || !isSplitForm(last)) {
+    return [...steps, step];
+  }
+  if (isSplitForm(step)) {
+    return steps;
+  }
+  return [...steps.slice(0, -1), step, last];
+};
+
+const toDelayPayload = (step: DelayFields): FlowDelayPayload | null => {
+  if (!step.delayEnabled) {
+    return null;
+  }
+  const untilDate = step.delayMode === "until-date";
+
+  return {
+    value: Number.isFinite(step.delayValue)
+      ? Math.max(0, Math.round(step.delayValue))
+      : 0,
+    unit: step.delayUnit,
+    timezone: step.delayTimezone,
+    ...(untilDate ? { untilDate: step.delayUntilDate } : {}),
+    ...(step.delaySendAtTime ? { sendAtTime: step.delaySendAtTime } : {}),
+    // Every day checked is the same as no restriction, so leave it out.
+    ...(!untilDate && step.delayWeekdays.length < WEEKDAYS.length
+      ? { weekdays: step.delayWeekdays }
+      : {}),
+  };
+};
+
+const toStepPayload = (step: FlowStepForm): Record<string, unknown> => {
+  if (isSplitForm(step)) {
+    return {
+      kind:
+        step.conditionType === "trigger-property"
+          ? "trigger-split"
+          : "conditional-split",
+      internalName: step.internalName.trim(),
+      delay: toDelayPayload(step),
+      condition:
+        step.conditionType === "has-done-metric"
+          ? {
+              type: "has-done-metric",
+              metricId: step.metricId.trim(),
+              count: step.metricCount,
+              timeframeDays: step.timeframeDays,
+            }
+          : {
+              type: step.conditionType,
+              property: step.property.trim(),
+              operator: step.operator,
+              value: step.value.trim(),
+            },
+      yes: step.yes.map(toStepPayload),
+      no: step.no.map(toStepPayload),
+    };
+  }
+
+  if (step.kind === "sms") {
+    return {
+      kind: "sms",
+      internalName: step.internalName.trim(),
+      body: step.body.trim(),
+      mediaUrl: step.mediaUrl.trim(),
+      sender: step.sender.trim(),
+      shortenLinks: step.shortenLinks,
+      quietHoursEnabled: step.quietHoursEnabled,
+      smartSendingEnabled: step.smartSendingEnabled,
+      status: step.status,
+      delay: toDelayPayload(step),
+    };
+  }
+
+  if (step.kind === "push") {
+    return {
+      kind: "push",
+      internalName: step.internalName.trim(),
+      title: step.title.trim(),
+      body: step.body.trim(),
+      deepLink: step.deepLink.trim(),
+      smartSendingEnabled: step.smartSendingEnabled,
+      status: step.status,
+      delay: toDelayPayload(step),
+    };
+  }
+
+  return {
+    kind: "email",
+    internalName: step.internalName.trim(),
+    subjectLine: step.subjectLine.trim(),
+    previewText: step.previewText.trim(),
+    fromEmail: step.fromEmail.trim(),
+    fromName: step.fromName.trim(),
+    replyToEmail: (step.replyToEmail || step.fromEmail).trim(),
+    ccEmail: step.ccEmail.trim(),
+    bccEmail: step.bccEmail.trim(),
+    templateId: step.templateId.trim(),
+    smartSendingEnabled: step.smartSendingEnabled,
+    status: step.status,
+    delay: toDelayPayload(step),
+    customTracking: step.addTrackingParams
+      ? toTrackingParams(step.trackingRows)
+      : [],
+    ...(step.inheritTracking ? {} : { inheritTracking: false }),
+  };
+};
+
+const fromDelayPayload = (delay: FlowDelayPayload | null): DelayFields => ({
+  delayEnabled: Boolean(delay),
+  delayMode: delay?.untilDate ? "until-date" : "duration",
+  delayValue: delay?.value || 1,
+  delayUnit: delay?.unit ?? "days",
+  delayUntilDate: delay?.untilDate ?? "",
+  delayTimezone: delay?.timezone ?? "profile",
+  delaySendAtTime: delay?.sendAtTime ?? "",
+  delayWeekdays: delay?.weekdays ?? WEEKDAYS,
 });
 
+const fromStepPayload = (step: FlowStepPayload): FlowStepForm => {
+  if (isSplitStep(step)) {
+    const { condition } = step;
+    return {
+      ...createEmptySplit(),
+      ...fromDelayPayload(step.delay),
+      internalName: step.internalName,
+      conditionType: condition.type,
+      ...(condition.type === "has-done-metric"
+        ? {
+            metricId: condition.metricId,
+            metricCount: condition.count,
+            timeframeDays: condition.timeframeDays,
+          }
+        : {
+            property: condition.property,
+            operator: condition.operator,
+            value: condition.value,
+          }),
+      yes: step.yes.map(fromStepPayload),
+      no: step.no.map(fromStepPayload),
+    };
+  }
+
+  if (step.kind === "sms") {
+    const { delay, ...rest } = step;
+    return { ...createEmptySms(), ...rest, ...fromDelayPayload(delay) };
+  }
+
+  if (step.kind === "push") {
+    const { delay, ...rest } = step;
+    return { ...createEmptyPush(), ...rest, ...fromDelayPayload(delay) };
+  }
+
+  const { delay, customTracking, inheritTracking, ...rest } = step;
+  return {
+    ...createEmptyStep(),
+    ...rest,
+    kind: "email",
+    ...fromDelayPayload(delay),
+    addTrackingParams: customTracking.length > 0,
+    trackingRows: toTrackingRows(customTracking),
+    inheritTracking: inheritTracking !== false,
+  };
+};
+
 export default function Home() {
+  const [role, setRole] = useState<Role | null>(null);
+  const [account, setAccount] = useState<AccountSummary | null>(null);
   const [flowName, setFlowName] = useState("");
   const [triggerType, setTriggerType] = useState<TriggerType>("list");
   const [triggerId, setTriggerId] = useState("");
-  const [steps, setSteps] = useState<EmailStepForm[]>([createEmptyStep()]);
+  const [triggerFilters, setTriggerFilters] = useState<TriggerFilterRow[]>(
+    [],
+  );
+  const [profileFilters, setProfileFilters] = useState<ProfileFilterRow[]>(
+    [],
+  );
+  const [trackingDefaults, setTrackingDefaults] = useState<TrackingRow[]>([]);
+  const [steps, setSteps] = useState<FlowStepForm[]>([createEmptyStep()]);
   const [formError, setFormError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldIssue[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [apiResponse, setApiResponse] = useState<CreateFlowResponse | null>(
+  const [apiResponse, setApiResponse] = useState<SubmitReviewResponse | null>(
     null,
   );
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PreviewFlowResponse | null>(null);
+
+  const accountId = account?.id ?? null;
+  const canEdit = role !== null && hasRole(role, "editor");
+  const brandDefaults = account?.defaults ?? NO_BRAND_DEFAULTS;
 
-  const flowSummary = useMemo(() => {
-    if (!apiResponse?.data?.data?.id) {
+  const submittedReview = useMemo(() => {
+    if (!apiResponse?.data?.id) {
       return null;
     }
 
     return {
-      id: apiResponse.data.data.id,
-      name: apiResponse.data.data.attributes?.name ?? flowName,
+      id: apiResponse.data.id,
+      name: apiResponse.data.flowName ?? flowName,
     };
   }, [apiResponse, flowName]);
 
-  const detailsString = useMemo(() => {
-    if (
-      !apiResponse ||
-      typeof apiResponse.details === "undefined" ||
-      apiResponse.details === null
-    ) {
-      return null;
-    }
+  const updateTriggerFilter = <Field extends keyof TriggerFilterRow>(
+    id: string,
+    field: Field,
+    value: TriggerFilterRow[Field],
+  ) => {
+    setTriggerFilters((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, [field]: value } : row)),
+    );
+  };
 
-    try {
-      return JSON.stringify(apiResponse.details, null, 2);
-    } catch {
-      return String(apiResponse.details);
+  const updateProfileFilter = <Field extends keyof ProfileFilterRow>(
+    id: string,
+    field: Field,
+    value: ProfileFilterRow[Field],
+  ) => {
+    setProfileFilters((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, [field]: value } : row)),
+    );
+  };
+
+  const handleAccountChange = (next: AccountSummary | null) => {
+    const nextDefaults = next?.defaults ?? NO_BRAND_DEFAULTS;
+    // Brand tracking seeds the flow defaults unless they were edited by hand.
+    if (hasTrackingParams(trackingDefaults, brandDefaults.trackingParams)) {
+      setTrackingDefaults(toTrackingRows(nextDefaults.trackingParams));
     }
-  }, [apiResponse]);
+    setSteps((prev) => swapBrandDefaults(prev, brandDefaults, nextDefaults));
+    setAccount(next);
+    setApiResponse(null);
+    setPreview(null);
+    setFieldErrors([]);
+  };
 
-  const handleAddStep = () => {
-    setSteps((prev) => [...prev, createEmptyStep()]);
+  const handleAddStep = (kind: FlowStepForm["kind"], target?: BranchTarget) => {
+    const step = STEP_FACTORIES[kind](brandDefaults);
+    setSteps((prev) =>
+      target
+        ? mapStepTree(prev, target.parentId, (parent) =>
+            isSplitForm(parent)
+              ? {
+                  ...parent,
+                  [target.branch]: appendStep(parent[target.branch], step),
+                }
+              : parent,
+          )
+        : appendStep(prev, step),
+    );
   };
 
   const handleRemoveStep = (id: string) => {
     setSteps((prev) =>
-      prev.length > 1 ? prev.filter((step) => step.id !== id) : prev,
+      prev.length === 1 && prev[0].id === id ? prev : removeFromTree(prev, id),
     );
   };
 
@@ -136,7 +744,55 @@ export default function Home() {
     value: EmailStepForm[Field],
   ) => {
     setSteps((prev) =>
-      prev.map((step) => (step.id === id ? { ...step, [field]: value } : step)),
+      mapStepTree(prev, id, (step) =>
+        step.kind === "email" ? { ...step, [field]: value } : step,
+      ),
+    );
+  };
+
+  const updateSplit = <Field extends keyof SplitStepForm>(
+    id: string,
+    field: Field,
+    value: SplitStepForm[Field],
+  ) => {
+    setSteps((prev) =>
+      mapStepTree(prev, id, (step) =>
+        isSplitForm(step) ? { ...step, [field]: value } : step,
+      ),
+    );
+  };
+
+  const updateSms = <Field extends keyof SmsStepForm>(
+    id: string,
+    field: Field,
+    value: SmsStepForm[Field],
+  ) => {
+    setSteps((prev) =>
+      mapStepTree(prev, id, (step) =>
+        step.kind === "sms" ? { ...step, [field]: value } : step,
+      ),
+    );
+  };
+
+  const updatePush = <Field extends keyof PushStepForm>(
+    id: string,
+    field: Field,
+    value: PushStepForm[Field],
+  ) => {
+    setSteps((prev) =>
+      mapStepTree(prev, id, (step) =>
+        step.kind === "push" ? { ...step, [field]: value } : step,
+      ),
+    );
+  };
+
+  const updateDelay = <Field extends keyof DelayFields>(
+    id: string,
+    field: Field,
+    value: DelayFields[Field],
+  ) => {
+    setSteps((prev) =>
+      mapStepTree(prev, id, (step) => ({ ...step, [field]: value })),
     );
   };
 
@@ -147,8 +803,8 @@ export default function Home() {
     value: string,
   ) => {
     setSteps((prev) =>
-      prev.map((step) => {
-        if (step.id !== stepId) return step;
+      mapStepTree(prev, stepId, (step) => {
+        if (step.kind !== "email") return step;
         return {
           ...step,
           trackingRows: step.trackingRows.map((row) =>
@@ -161,8 +817,8 @@ export default function Home() {
 
   const addTrackingRow = (stepId: string) => {
     setSteps((prev) =>
-      prev.map((step) =>
-        step.id === stepId
+      mapStepTree(prev, stepId, (step) =>
+        step.kind === "email"
           ? {
               ...step,
               trackingRows: [...step.trackingRows, createTrackingRow()],
@@ -174,8 +830,8 @@ export default function Home() {
 
   const removeTrackingRow = (stepId: string, rowId: string) => {
     setSteps((prev) =>
-      prev.map((step) =>
-        step.id === stepId
+      mapStepTree(prev, stepId, (step) =>
+        step.kind === "email"
           ? {
               ...step,
               trackingRows: step.trackingRows.filter((row) => row.id !== rowId),
@@ -185,33 +841,121 @@ export default function Home() {
     );
   };
 
-  const validateForm = () => {
-    if (!flowName.trim()) {
-      return "Flow name is required.";
-    }
+  const buildRequestPayload = () => ({
+    flowName: flowName.trim(),
+    trigger: {
+      type: triggerType,
+      id: triggerId.trim(),
+      filters:
+        triggerType === "metric"
+          ? triggerFilters
+              .filter((row) => row.property.trim())
+              .map((row) => ({
+                property: row.property.trim(),
+                operator: row.operator,
+                value: row.value.trim(),
+              }))
+          : [],
+    },
+    profileFilters: profileFilters
+      .filter((row) => row.property.trim())
+      .map((row) => ({
+        property: row.property.trim(),
+        operator: row.operator,
+        value: row.value.trim(),
+      })),
+    trackingDefaults: toTrackingParams(trackingDefaults),
+    steps: steps.map(toStepPayload),
+  });
 
-    if (!triggerId.trim()) {
-      return "Enter the Klaviyo trigger identifier (list or segment ID).";
-    }
+  // Step payloads are built loosely from form state; the server sanitizes them.
+  const getFlowPayload = () =>
+    buildRequestPayload() as unknown as FlowRequestPayload;
+
+  // Maps each form step to its location in the request payload, which is
+  // how validation issues refer to it (e.g. `steps[0].yes[1]`).
+  const stepPaths = useMemo(() => {
+    const paths: Record<string, string> = {};
+    const visit = (list: FlowStepForm[], prefix: string) =>
+      list.forEach((step, index) => {
+        const path = `${prefix}[${index}]`;
+        paths[step.id] = path;
+        if (isSplitForm(step)) {
+          visit(step.yes, `${path}.yes`);
+          visit(step.no, `${path}.no`);
+        }
+      });
+    visit(steps, "steps");
+    return paths;
+  }, [steps]);
 
-    const invalidStepIndex = steps.findIndex(
-      (step) =>
-        !step.subjectLine.trim() ||
-        !step.fromEmail.trim() ||
-        !step.fromName.trim(),
+  const timelineSteps = useMemo(() => steps.map(toTimelineStep), [steps]);
+
+  const stepField = (step: FlowStepForm, field: string) =>
+    `${stepPaths[step.id]}.${field}`;
+
+  // Rows without a property are dropped from the payload, so filter issue
+  // indexes only count the rows that are sent.
+  const triggerFilterPath = (id: string) =>
+    `trigger.filters[${triggerFilters
+      .filter((row) => row.property.trim())
+      .findIndex((row) => row.id === id)}]`;
+
+  const profileFilterPath = (id: string) =>
+    `profileFilters[${profileFilters
+      .filter((row) => row.property.trim())
+      .findIndex((row) => row.id === id)}]`;
+
+  const flowTracking = useMemo(
+    () => toTrackingParams(trackingDefaults),
+    [trackingDefaults],
+  );
+
+  const errorsAt = (path: string, nested = false) =>
+    fieldErrors.filter(
+      (issue) =>
+        issue.path === path ||
+        (nested &&
+          (issue.path.startsWith(`${path}.`) ||
+            issue.path.startsWith(`${path}[`))),
     );
 
-    if (invalidStepIndex !== -1) {
-      return `Step ${invalidStepIndex + 1} is missing required fields (subject, from name, or from email).`;
-    }
+  const fieldClass = (path: string, className = FIELD_CLASS) =>
+    errorsAt(path).length
+      ? className.replace("border-slate-800", "border-rose-500/70")
+      : className;
 
-    return null;
+  const renderFieldError = (path: string, className = "", nested = false) =>
+    errorsAt(path, nested).map((issue) => (
+      <p
+        key={`${issue.path}:${issue.code}`}
+        className={`text-[11px] text-rose-300 ${className}`}
+      >
+        {issue.message}
+      </p>
+    ));
+
+  // Issues about the step as a whole, or about parts without their own input.
+  const renderStepErrors = (step: FlowStepForm) => (
+    <>
+      {renderFieldError(stepPaths[step.id], "mt-1")}
+      {renderFieldError(stepField(step, "delay"), "mt-1")}
+      {renderFieldError(stepField(step, "status"), "mt-1")}
+    </>
+  );
+
+  // Runs the same checks as the API so problems show up before a round trip.
+  const validateForm = () => {
+    const issues = validateFlowPayload(sanitizePayload(getFlowPayload()));
+    setFieldErrors(issues);
+    return issues.length ? summarizeIssues(issues) : null;
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setFormError(null);
     setApiResponse(null);
+    setPreview(null);
 
     const validationMessage = validateForm();
     if (validationMessage) {
@@ -219,61 +963,26 @@ export default function Home() {
       return;
     }
 
-    const payload = {
-      flowName: flowName.trim(),
-      trigger: {
-        type: triggerType,
-        id: triggerId.trim(),
-      },
-      steps: steps.map((step) => ({
-        internalName: step.internalName.trim(),
-        subjectLine: step.subjectLine.trim(),
-        previewText: step.previewText.trim(),
-        fromEmail: step.fromEmail.trim(),
-        fromName: step.fromName.trim(),
-        replyToEmail: (step.replyToEmail || step.fromEmail).trim(),
-        ccEmail: step.ccEmail.trim(),
-        bccEmail: step.bccEmail.trim(),
-        templateId: step.templateId.trim(),
-        smartSendingEnabled: step.smartSendingEnabled,
-        status: step.status,
-        delay: step.delayEnabled
-          ? {
-              value: Number.isFinite(step.delayValue)
-                ? Math.max(0, Math.round(step.delayValue))
-                : 0,
-              unit: step.delayUnit,
-              timezone: step.delayTimezone,
-            }
-          : null,
-        customTracking: step.addTrackingParams
-          ? step.trackingRows
-              .map((row) => ({
-                param: row.param.trim(),
-                value: row.value.trim(),
-              }))
-              .filter((row) => row.param && row.value)
-          : [],
-      })),
-    };
+    const payload = buildRequestPayload();
 
     setIsSubmitting(true);
     try {
-      const response = await fetch("/api/flows", {
+      const response = await fetch(withAccount("/api/reviews", accountId), {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({ payload }),
       });
 
-      const data: CreateFlowResponse = await response.json();
+      const data: SubmitReviewResponse = await response.json();
 
       if (!response.ok) {
         setFormError(
           data.error ??
-            "The Klaviyo API returned an error. Review the details and try again.",
+            "Unable to submit the flow for review. Review the details and try again.",
         );
+        setFieldErrors(data.errors ?? []);
         setApiResponse(data);
         return;
       }
@@ -283,47 +992,1303 @@ export default function Home() {
       setFormError(
         error instanceof Error
           ? error.message
-          : "Unexpected error creating Klaviyo flow.",
+          : "Unexpected error submitting the flow for review.",
       );
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  return (
-    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
-      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
-        <div>
-          <h1 className="text-3xl font-semibold tracking-tight text-white">
-            Klaviyo Email Sequence Builder
-          </h1>
-          <p className="mt-2 max-w-2xl text-sm text-slate-300">
-            Configure a flow, add email steps, and submit to create the sequence
-            inside your Klaviyo account via the official API.
-          </p>
-
-          <form
-            onSubmit={handleSubmit}
-            className="mt-8 space-y-8 rounded-2xl border border-slate-800 bg-slate-900/40 p-6 shadow-xl shadow-slate-900/30 backdrop-blur"
-          >
-            <section>
+  const applyPayload = (payload: FlowRequestPayload) => {
+    setFlowName(payload.flowName);
+    setTriggerType(payload.trigger.type);
+    setTriggerId(payload.trigger.id);
+    setTriggerFilters(
+      (payload.trigger.filters ?? []).map((filter) => ({
+        ...createTriggerFilterRow(),
+        ...filter,
+      })),
+    );
+    setProfileFilters(
+      (payload.profileFilters ?? []).map((filter) => ({
+        ...createProfileFilterRow(),
+        ...filter,
+      })),
+    );
+    setTrackingDefaults(toTrackingRows(payload.trackingDefaults ?? []));
+    setSteps(
+      payload.steps.length
+        ? payload.steps.map(fromStepPayload)
+        : [createEmptyStep(brandDefaults)],
+    );
+    setApiResponse(null);
+    setPreview(null);
+    setFormError(null);
+    setFieldErrors([]);
+  };
+
+  const handlePreview = async () => {
+    setFormError(null);
+    setApiResponse(null);
+    setPreview(null);
+
+    const validationMessage = validateForm();
+    if (validationMessage) {
+      setFormError(validationMessage);
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      const response = await fetch(
+        withAccount("/api/flows?dryRun=1", accountId),
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(buildRequestPayload()),
+        },
+      );
+
+      const data: PreviewFlowResponse = await response.json();
+
+      if (!response.ok) {
+        setFormError(data.error ?? "Unable to build the flow payload.");
+        setFieldErrors(data.errors ?? []);
+        setApiResponse(data);
+        return;
+      }
+
+      setPreview(data);
+    } catch (error) {
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "Unexpected error previewing Klaviyo flow.",
+      );
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const renderDelayFields = (step: FlowStepForm) => (
+      <div className="rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+        <label className="flex items-center justify-between gap-4 text-xs">
+          <div>
+            <span className="font-semibold uppercase tracking-wide text-slate-300">
+              Add delay before send
+            </span>
+            <p className="mt-1 text-[11px] text-slate-400">
+              Inserts a time delay action before this step.
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+            checked={step.delayEnabled}
+            onChange={(event) =>
+              updateDelay(
+                step.id,
+                "delayEnabled",
+                event.target.checked,
+              )
+            }
+          />
+        </label>
+
+        {step.delayEnabled && (
+          <div className="mt-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)]">
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Wait
+                </span>
+                <select
+                  className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                  value={step.delayMode}
+                  onChange={(event) =>
+                    updateDelay(
+                      step.id,
+                      "delayMode",
+                      event.target.value as DelayFields["delayMode"],
+                    )
+                  }
+                >
+                  <option value="duration">For a length of time</option>
+                  <option value="until-date">Until a date</option>
+                </select>
+              </label>
+              {step.delayMode === "until-date" ? (
+                <label className="flex flex-col gap-2 text-xs">
+                  <span className="font-medium uppercase tracking-wide text-slate-400">
+                    Date
+                  </span>
+                  <input
+                    type="date"
+                    className={fieldClass(stepField(step, "delay.untilDate"))}
+                    value={step.delayUntilDate}
+                    onChange={(event) =>
+                      updateDelay(
+                        step.id,
+                        "delayUntilDate",
+                        event.target.value,
+                      )
+                    }
+                  />
+                  {renderFieldError(stepField(step, "delay.untilDate"))}
+                </label>
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-2 text-xs">
+                    <span className="font-medium uppercase tracking-wide text-slate-400">
+                      Value
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      className={fieldClass(stepField(step, "delay.value"))}
+                      value={step.delayValue}
+                      onChange={(event) =>
+                        updateDelay(
+                          step.id,
+                          "delayValue",
+                          Number(event.target.value),
+                        )
+                      }
+                    />
+                    {renderFieldError(stepField(step, "delay.value"))}
+                  </label>
+                  <label className="flex flex-col gap-2 text-xs">
+                    <span className="font-medium uppercase tracking-wide text-slate-400">
+                      Units
+                    </span>
+                    <select
+                      className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                      value={step.delayUnit}
+                      onChange={(event) =>
+                        updateDelay(
+                          step.id,
+                          "delayUnit",
+                          event.target.value as DelayUnit,
+                        )
+                      }
+                    >
+                      <option value="minutes">Minutes</option>
+                      <option value="hours">Hours</option>
+                      <option value="days">Days</option>
+                    </select>
+                  </label>
+                </div>
+              )}
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Timezone
+                </span>
+                <TimezonePicker
+                  className={fieldClass(stepField(step, "delay.timezone"))}
+                  value={step.delayTimezone}
+                  onChange={(timezone) =>
+                    updateDelay(step.id, "delayTimezone", timezone)
+                  }
+                  showDstPreview
+                />
+                {renderFieldError(stepField(step, "delay.timezone"))}
+              </label>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Then send at
+                </span>
+                <input
+                  type="time"
+                  className={fieldClass(stepField(step, "delay.sendAtTime"))}
+                  value={step.delaySendAtTime}
+                  onChange={(event) =>
+                    updateDelay(
+                      step.id,
+                      "delaySendAtTime",
+                      event.target.value,
+                    )
+                  }
+                />
+                <span className="text-[11px] text-slate-500">
+                  Leave empty to send as soon as the wait ends.
+                </span>
+                {renderFieldError(stepField(step, "delay.sendAtTime"))}
+              </label>
+              {step.delayMode === "duration" && (
+                <fieldset className="flex flex-col gap-2 text-xs">
+                  <legend className="mb-2 font-medium uppercase tracking-wide text-slate-400">
+                    Send on
+                  </legend>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAYS.map((day) => (
+                      <label
+                        key={day}
+                        className="flex items-center gap-1.5 rounded-lg border border-slate-800 px-2 py-1 text-slate-300"
+                      >
+                        <input
+                          type="checkbox"
+                          className="h-3.5 w-3.5 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+                          checked={step.delayWeekdays.includes(day)}
+                          onChange={(event) =>
+                            updateDelay(
+                              step.id,
+                              "delayWeekdays",
+                              WEEKDAYS.filter((item) =>
+                                item === day
+                                  ? event.target.checked
+                                  : step.delayWeekdays.includes(item),
+                              ),
+                            )
+                          }
+                        />
+                        {WEEKDAY_LABELS[day]}
+                      </label>
+                    ))}
+                  </div>
+                  {renderFieldError(stepField(step, "delay.weekdays"))}
+                </fieldset>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+  );
+
+  // What the email will send once flow defaults are merged in and tokens
+  // filled, plus anything that strays from the flow defaults.
+  const renderTrackingSummary = (step: EmailStepForm) => {
+    const stepTracking = {
+      customTracking: step.addTrackingParams
+        ? toTrackingParams(step.trackingRows)
+        : [],
+      inheritTracking: step.inheritTracking,
+    };
+    const sent = effectiveTracking(stepTracking, flowTracking);
+    const overrides = step.inheritTracking
+      ? trackingOverrides(stepTracking, flowTracking)
+      : [];
+    const tokens = {
+      flow_name: flowName.trim(),
+      step_name: (step.internalName || step.subjectLine).trim(),
+      subject_line: step.subjectLine.trim(),
+    };
+
+    if (!sent.length && !flowTracking.length) {
+      return null;
+    }
+
+    return (
+      <div className="mt-4 space-y-1 border-t border-slate-800 pt-3 text-[11px]">
+        {!step.inheritTracking && flowTracking.length > 0 && (
+          <p className="text-amber-200">
+            This email skips the flow tracking defaults.
+          </p>
+        )}
+        {overrides.map((track) => (
+          <p key={track.param} className="text-amber-200">
+            {track.param} differs from the flow default &quot;
+            {track.flowValue}&quot;.
+          </p>
+        ))}
+        <p className="text-slate-400">
+          {sent.length ? "Sends " : "Sends no tracking parameters."}
+          {sent.map((track, index) => (
+            <span key={track.param} className="font-mono text-slate-200">
+              {index > 0 && " · "}
+              {track.param}={fillTrackingTokens(track.value, tokens)}
+            </span>
+          ))}
+        </p>
+      </div>
+    );
+  };
+
+  const renderEmailStep = (
+    step: EmailStepForm,
+    label: string,
+    canRemove: boolean,
+  ) => (
+      <div
+        className="space-y-6 rounded-xl border border-slate-800 bg-slate-950/40 p-6 shadow-inner shadow-slate-950/30"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-base font-semibold text-white">
+              {label}
+            </h3>
+            <p className="text-xs text-slate-400">
+              Configure delay, content, and delivery settings for
+              this email.
+            </p>
+            {renderStepErrors(step)}
+          </div>
+          {canRemove && (
+            <button
+              type="button"
+              onClick={() => handleRemoveStep(step.id)}
+              className="rounded-lg border border-transparent px-3 py-1 text-xs font-medium text-rose-200 transition hover:border-rose-400 hover:bg-rose-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-rose-500/40"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <label className="flex flex-col gap-2 text-xs md:col-span-1">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Internal name
+            </span>
+            <input
+              className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+              placeholder="Welcome email #1"
+              value={step.internalName}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "internalName",
+                  event.target.value,
+                )
+              }
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-xs md:col-span-2">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Subject line*
+            </span>
+            <input
+              className={fieldClass(stepField(step, "subjectLine"))}
+              placeholder="Thanks for joining!"
+              value={step.subjectLine}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "subjectLine",
+                  event.target.value,
+                )
+              }
+              required
+            />
+            {renderFieldError(stepField(step, "subjectLine"))}
+          </label>
+          <label className="flex flex-col gap-2 text-xs md:col-span-3">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Preview text
+            </span>
+            <input
+              className={fieldClass(stepField(step, "previewText"))}
+              placeholder="Sneak peek copy that appears in inbox previews"
+              value={step.previewText}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "previewText",
+                  event.target.value,
+                )
+              }
+            />
+            {renderFieldError(stepField(step, "previewText"))}
+          </label>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              From name*
+            </span>
+            <input
+              className={fieldClass(stepField(step, "fromName"))}
+              placeholder="Brand team"
+              value={step.fromName}
+              onChange={(event) =>
+                updateStep(step.id, "fromName", event.target.value)
+              }
+              required
+            />
+            {renderFieldError(stepField(step, "fromName"))}
+          </label>
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              From email*
+            </span>
+            <input
+              className={fieldClass(stepField(step, "fromEmail"))}
+              placeholder="hello@example.com"
+              value={step.fromEmail}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "fromEmail",
+                  event.target.value,
+                )
+              }
+              required
+            />
+            {renderFieldError(stepField(step, "fromEmail"))}
+          </label>
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Reply-to email
+            </span>
+            <input
+              className={fieldClass(stepField(step, "replyToEmail"))}
+              placeholder="support@example.com"
+              value={step.replyToEmail}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "replyToEmail",
+                  event.target.value,
+                )
+              }
+            />
+            {renderFieldError(stepField(step, "replyToEmail"))}
+          </label>
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Template ID (optional)
+            </span>
+            <input
+              className={fieldClass(stepField(step, "templateId"))}
+              placeholder="Template ID"
+              value={step.templateId}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "templateId",
+                  event.target.value,
+                )
+              }
+            />
+            {renderFieldError(stepField(step, "templateId"))}
+          </label>
+          <div className="md:col-span-2">
+            <TemplatePicker
+              accountId={accountId}
+              value={step.templateId}
+              onSelect={(templateId) =>
+                updateStep(step.id, "templateId", templateId)
+              }
+            />
+          </div>
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              CC email
+            </span>
+            <input
+              className={fieldClass(stepField(step, "ccEmail"))}
+              placeholder="cc@example.com"
+              value={step.ccEmail}
+              onChange={(event) =>
+                updateStep(step.id, "ccEmail", event.target.value)
+              }
+            />
+            {renderFieldError(stepField(step, "ccEmail"))}
+          </label>
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              BCC email
+            </span>
+            <input
+              className={fieldClass(stepField(step, "bccEmail"))}
+              placeholder="bcc@example.com"
+              value={step.bccEmail}
+              onChange={(event) =>
+                updateStep(step.id, "bccEmail", event.target.value)
+              }
+            />
+            {renderFieldError(stepField(step, "bccEmail"))}
+          </label>
+          <label className="flex flex-col gap-2 text-xs">
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Delivery status
+            </span>
+            <select
+              className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+              value={step.status}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "status",
+                  event.target.value as StepStatus,
+                )
+              }
+            >
+              <option value="draft">Draft</option>
+              <option value="live">Live</option>
+              <option value="manual">Manual</option>
+              <option value="disabled">Disabled</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-3 text-xs">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+              checked={step.smartSendingEnabled}
+              onChange={(event) =>
+                updateStep(
+                  step.id,
+                  "smartSendingEnabled",
+                  event.target.checked,
+                )
+              }
+            />
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Enable smart sending
+            </span>
+          </label>
+        </div>
+
+        {renderDelayFields(step)}
+
+        <div className="rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+          {flowTracking.length > 0 && (
+            <label className="mb-4 flex items-center justify-between gap-4 text-xs">
+              <div>
+                <span className="font-semibold uppercase tracking-wide text-slate-300">
+                  Use flow tracking defaults
+                </span>
+                <p className="mt-1 text-[11px] text-slate-400">
+                  Start from the parameters set for the whole flow.
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+                checked={step.inheritTracking}
+                onChange={(event) =>
+                  updateStep(step.id, "inheritTracking", event.target.checked)
+                }
+              />
+            </label>
+          )}
+          <label className="flex items-center justify-between gap-4 text-xs">
+            <div>
+              <span className="font-semibold uppercase tracking-wide text-slate-300">
+                Custom tracking parameters
+              </span>
+              <p className="mt-1 text-[11px] text-slate-400">
+                Define additional UTM parameters for this email. Reuse a flow
+                default&apos;s name to override it.
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+              checked={step.addTrackingParams}
+              onChange={(event) => {
+                const checked = event.target.checked;
+                updateStep(step.id, "addTrackingParams", checked);
+                if (checked && step.trackingRows.length === 0) {
+                  addTrackingRow(step.id);
+                }
+                if (!checked) {
+                  updateStep(step.id, "trackingRows", []);
+                }
+              }}
+            />
+          </label>
+
+          {step.addTrackingParams && (
+            <div className="mt-4 space-y-3">
+              {step.trackingRows.map((row) => (
+                <div
+                  key={row.id}
+                  className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto]"
+                >
+                  <input
+                    className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                    placeholder="utm_medium"
+                    value={row.param}
+                    onChange={(event) =>
+                      updateTrackingRow(
+                        step.id,
+                        row.id,
+                        "param",
+                        event.target.value,
+                      )
+                    }
+                  />
+                  <input
+                    className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                    placeholder="email"
+                    value={row.value}
+                    onChange={(event) =>
+                      updateTrackingRow(
+                        step.id,
+                        row.id,
+                        "value",
+                        event.target.value,
+                      )
+                    }
+                  />
+                  <button
+                    type="button"
+                    className="rounded-lg border border-transparent px-3 py-2 text-sm text-slate-300 transition hover:border-slate-500 hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                    onClick={() => removeTrackingRow(step.id, row.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => addTrackingRow(step.id)}
+                className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+              >
+                Add parameter
+              </button>
+            </div>
+          )}
+          {renderFieldError(stepField(step, "customTracking"), "mt-3", true)}
+          {renderTrackingSummary(step)}
+        </div>
+      </div>
+  );
+
+  const renderStepHeader = (
+    step: FlowStepForm,
+    label: string,
+    description: string,
+    canRemove: boolean,
+  ) => (
+    <div className="flex items-start justify-between gap-4">
+      <div>
+        <h3 className="text-base font-semibold text-white">{label}</h3>
+        <p className="text-xs text-slate-400">{description}</p>
+        {renderStepErrors(step)}
+      </div>
+      {canRemove && (
+        <button
+          type="button"
+          onClick={() => handleRemoveStep(step.id)}
+          className="rounded-lg border border-transparent px-3 py-1 text-xs font-medium text-rose-200 transition hover:border-rose-400 hover:bg-rose-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-rose-500/40"
+        >
+          Remove
+        </button>
+      )}
+    </div>
+  );
+
+  const renderSmsStep = (
+    step: SmsStepForm,
+    label: string,
+    canRemove: boolean,
+  ) => (
+    <div className="space-y-6 rounded-xl border border-sky-500/30 bg-slate-950/40 p-6 shadow-inner shadow-slate-950/30">
+      {renderStepHeader(
+        step,
+        `${label} · SMS`,
+        "Text message sent to subscribers with SMS consent.",
+        canRemove,
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Internal name
+          </span>
+          <input
+            className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            placeholder="Welcome SMS"
+            value={step.internalName}
+            onChange={(event) =>
+              updateSms(step.id, "internalName", event.target.value)
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Sender
+          </span>
+          <input
+            className={fieldClass(stepField(step, "sender"))}
+            placeholder="Account default (e.g. +15555550100)"
+            value={step.sender}
+            onChange={(event) =>
+              updateSms(step.id, "sender", event.target.value)
+            }
+          />
+          {renderFieldError(stepField(step, "sender"))}
+        </label>
+        <label className="flex flex-col gap-2 text-xs md:col-span-2">
+          <span className="flex justify-between font-medium uppercase tracking-wide text-slate-400">
+            <span>Message body*</span>
+            <span className="normal-case text-slate-500">
+              {step.body.length} chars ·{" "}
+              {Math.max(1, Math.ceil(step.body.length / 160))} segment(s)
+            </span>
+          </span>
+          <textarea
+            rows={3}
+            className={fieldClass(stepField(step, "body"))}
+            placeholder="Thanks for joining! Here is 10% off: {{ coupon_code }}"
+            value={step.body}
+            onChange={(event) =>
+              updateSms(step.id, "body", event.target.value)
+            }
+          />
+          {renderFieldError(stepField(step, "body"))}
+        </label>
+        <label className="flex flex-col gap-2 text-xs md:col-span-2">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Media URL (MMS)
+          </span>
+          <input
+            className={fieldClass(stepField(step, "mediaUrl"))}
+            placeholder="https://cdn.example.com/welcome.gif"
+            value={step.mediaUrl}
+            onChange={(event) =>
+              updateSms(step.id, "mediaUrl", event.target.value)
+            }
+          />
+          {renderFieldError(stepField(step, "mediaUrl"))}
+        </label>
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Delivery status
+          </span>
+          <select
+            className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            value={step.status}
+            onChange={(event) =>
+              updateSms(step.id, "status", event.target.value as StepStatus)
+            }
+          >
+            <option value="draft">Draft</option>
+            <option value="live">Live</option>
+            <option value="manual">Manual</option>
+            <option value="disabled">Disabled</option>
+          </select>
+        </label>
+        <div className="flex flex-col justify-center gap-2">
+          <label className="flex items-center gap-3 text-xs">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+              checked={step.shortenLinks}
+              onChange={(event) =>
+                updateSms(step.id, "shortenLinks", event.target.checked)
+              }
+            />
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Shorten links
+            </span>
+          </label>
+          <label className="flex items-center gap-3 text-xs">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+              checked={step.quietHoursEnabled}
+              onChange={(event) =>
+                updateSms(step.id, "quietHoursEnabled", event.target.checked)
+              }
+            />
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Respect quiet hours
+            </span>
+          </label>
+          <label className="flex items-center gap-3 text-xs">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+              checked={step.smartSendingEnabled}
+              onChange={(event) =>
+                updateSms(step.id, "smartSendingEnabled", event.target.checked)
+              }
+            />
+            <span className="font-medium uppercase tracking-wide text-slate-400">
+              Enable smart sending
+            </span>
+          </label>
+        </div>
+      </div>
+
+      {renderDelayFields(step)}
+    </div>
+  );
+
+  const renderPushStep = (
+    step: PushStepForm,
+    label: string,
+    canRemove: boolean,
+  ) => (
+    <div className="space-y-6 rounded-xl border border-violet-500/30 bg-slate-950/40 p-6 shadow-inner shadow-slate-950/30">
+      {renderStepHeader(
+        step,
+        `${label} · Push notification`,
+        "Mobile push sent to profiles with a registered app token.",
+        canRemove,
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Internal name
+          </span>
+          <input
+            className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            placeholder="Cart reminder push"
+            value={step.internalName}
+            onChange={(event) =>
+              updatePush(step.id, "internalName", event.target.value)
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Title*
+          </span>
+          <input
+            className={fieldClass(stepField(step, "title"))}
+            placeholder="You left something behind"
+            value={step.title}
+            onChange={(event) =>
+              updatePush(step.id, "title", event.target.value)
+            }
+          />
+          {renderFieldError(stepField(step, "title"))}
+        </label>
+        <label className="flex flex-col gap-2 text-xs md:col-span-2">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Body*
+          </span>
+          <textarea
+            rows={2}
+            className={fieldClass(stepField(step, "body"))}
+            placeholder="Your cart is waiting. Complete checkout before it sells out."
+            value={step.body}
+            onChange={(event) =>
+              updatePush(step.id, "body", event.target.value)
+            }
+          />
+          {renderFieldError(stepField(step, "body"))}
+        </label>
+        <label className="flex flex-col gap-2 text-xs md:col-span-2">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Deep link
+          </span>
+          <input
+            className={fieldClass(stepField(step, "deepLink"))}
+            placeholder="myapp://cart"
+            value={step.deepLink}
+            onChange={(event) =>
+              updatePush(step.id, "deepLink", event.target.value)
+            }
+          />
+          {renderFieldError(stepField(step, "deepLink"))}
+        </label>
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Delivery status
+          </span>
+          <select
+            className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            value={step.status}
+            onChange={(event) =>
+              updatePush(step.id, "status", event.target.value as StepStatus)
+            }
+          >
+            <option value="draft">Draft</option>
+            <option value="live">Live</option>
+            <option value="manual">Manual</option>
+            <option value="disabled">Disabled</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-3 text-xs">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
+            checked={step.smartSendingEnabled}
+            onChange={(event) =>
+              updatePush(step.id, "smartSendingEnabled", event.target.checked)
+            }
+          />
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Enable smart sending
+          </span>
+        </label>
+      </div>
+
+      {renderDelayFields(step)}
+    </div>
+  );
+
+  const renderBranch = (
+    split: SplitStepForm,
+    branch: "yes" | "no",
+    label: string,
+  ) => {
+    const list = split[branch];
+    const last = list[list.length - 1];
+    const endsInSplit = Boolean(last && isSplitForm(last));
+
+    return (
+      <div className="space-y-4 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+        <div className="flex items-center justify-between gap-3">
+          <span
+            className={`text-xs font-semibold uppercase tracking-wide ${
+              branch === "yes" ? "text-emerald-300" : "text-rose-300"
+            }`}
+          >
+            {branch === "yes" ? "Yes branch" : "No branch"}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                handleAddStep("email", { parentId: split.id, branch })
+              }
+              className="rounded-lg border border-indigo-500 px-3 py-1 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+            >
+              Add email
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                handleAddStep("sms", { parentId: split.id, branch })
+              }
+              className="rounded-lg border border-indigo-500 px-3 py-1 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+            >
+              Add SMS
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                handleAddStep("push", { parentId: split.id, branch })
+              }
+              className="rounded-lg border border-indigo-500 px-3 py-1 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+            >
+              Add push
+            </button>
+            {!endsInSplit && (
+              <button
+                type="button"
+                onClick={() =>
+                  handleAddStep("conditional-split", {
+                    parentId: split.id,
+                    branch,
+                  })
+                }
+                className="rounded-lg border border-slate-600 px-3 py-1 text-xs font-medium text-slate-200 transition hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+              >
+                Add split
+              </button>
+            )}
+          </div>
+        </div>
+        {list.length ? (
+          renderStepList(list, label, true)
+        ) : (
+          <p className="text-[11px] text-slate-500">
+            Profiles on this branch exit the flow.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderSplitStep = (
+    step: SplitStepForm,
+    label: string,
+    canRemove: boolean,
+  ) => (
+    <div className="space-y-6 rounded-xl border border-amber-500/30 bg-slate-950/40 p-6 shadow-inner shadow-slate-950/30">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-semibold text-white">
+            {label} · Conditional split
+          </h3>
+          <p className="text-xs text-slate-400">
+            Route profiles down the yes or no branch based on a condition.
+          </p>
+          {renderStepErrors(step)}
+        </div>
+        {canRemove && (
+          <button
+            type="button"
+            onClick={() => handleRemoveStep(step.id)}
+            className="rounded-lg border border-transparent px-3 py-1 text-xs font-medium text-rose-200 transition hover:border-rose-400 hover:bg-rose-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-rose-500/40"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <label className="flex flex-col gap-2 text-xs">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Internal name
+          </span>
+          <input
+            className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            placeholder="Has placed order?"
+            value={step.internalName}
+            onChange={(event) =>
+              updateSplit(step.id, "internalName", event.target.value)
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-xs md:col-span-2">
+          <span className="font-medium uppercase tracking-wide text-slate-400">
+            Condition
+          </span>
+          <select
+            className={fieldClass(stepField(step, "condition.type"))}
+            value={step.conditionType}
+            onChange={(event) => {
+              updateSplit(
+                step.id,
+                "conditionType",
+                event.target.value as SplitConditionType,
+              );
+              updateSplit(step.id, "operator", "equals");
+            }}
+          >
+            <option value="profile-property">Profile property</option>
+            <option value="has-done-metric">Has done metric</option>
+            {(triggerType === "metric" ||
+              step.conditionType === "trigger-property") && (
+              <option value="trigger-property">
+                Trigger event property (trigger split)
+              </option>
+            )}
+          </select>
+          {renderFieldError(stepField(step, "condition.type"))}
+        </label>
+
+        {step.conditionType !== "has-done-metric" ? (
+          <>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Property*
+              </span>
+              <input
+                className={fieldClass(stepField(step, "condition.property"))}
+                placeholder={
+                  step.conditionType === "trigger-property"
+                    ? "$value"
+                    : "loyalty_tier"
+                }
+                value={step.property}
+                onChange={(event) =>
+                  updateSplit(step.id, "property", event.target.value)
+                }
+              />
+              {renderFieldError(stepField(step, "condition.property"))}
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Operator
+              </span>
+              <select
+                className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                value={step.operator}
+                onChange={(event) =>
+                  updateSplit(
+                    step.id,
+                    "operator",
+                    event.target.value as SplitStepForm["operator"],
+                  )
+                }
+              >
+                {step.conditionType === "trigger-property" ? (
+                  <>
+                    <option value="equals">Equals</option>
+                    <option value="contains">Contains</option>
+                    <option value="greater-than">Greater than</option>
+                  </>
+                ) : (
+                  <>
+                    <option value="equals">Equals</option>
+                    <option value="not-equals">Does not equal</option>
+                    <option value="contains">Contains</option>
+                    <option value="is-set">Is set</option>
+                    <option value="is-not-set">Is not set</option>
+                  </>
+                )}
+              </select>
+            </label>
+            {step.operator !== "is-set" && step.operator !== "is-not-set" && (
+              <label className="flex flex-col gap-2 text-xs">
+                <span className="font-medium uppercase tracking-wide text-slate-400">
+                  Value
+                </span>
+                <input
+                  className={fieldClass(stepField(step, "condition.value"))}
+                  placeholder="gold"
+                  value={step.value}
+                  onChange={(event) =>
+                    updateSplit(step.id, "value", event.target.value)
+                  }
+                />
+                {renderFieldError(stepField(step, "condition.value"))}
+              </label>
+            )}
+          </>
+        ) : (
+          <>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                Metric ID*
+              </span>
+              <input
+                className={fieldClass(stepField(step, "condition.metricId"))}
+                placeholder="Placed Order metric ID"
+                value={step.metricId}
+                onChange={(event) =>
+                  updateSplit(step.id, "metricId", event.target.value)
+                }
+              />
+              {renderFieldError(stepField(step, "condition.metricId"))}
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                At least (times)
+              </span>
+              <input
+                type="number"
+                min={1}
+                className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                value={step.metricCount}
+                onChange={(event) =>
+                  updateSplit(
+                    step.id,
+                    "metricCount",
+                    Number(event.target.value),
+                  )
+                }
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-xs">
+              <span className="font-medium uppercase tracking-wide text-slate-400">
+                In the last (days)
+              </span>
+              <input
+                type="number"
+                min={1}
+                className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                value={step.timeframeDays}
+                onChange={(event) =>
+                  updateSplit(
+                    step.id,
+                    "timeframeDays",
+                    Number(event.target.value),
+                  )
+                }
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      {renderDelayFields(step)}
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {renderBranch(step, "yes", `${label} › Yes ›`)}
+        {renderBranch(step, "no", `${label} › No ›`)}
+      </div>
+    </div>
+  );
+
+  const renderStepList = (
+    list: FlowStepForm[],
+    prefix: string,
+    nested = false,
+  ) => (
+    <div className="space-y-8">
+      {list.map((step, index) => {
+        const label = `${prefix} ${index + 1}`;
+        const canRemove = nested || list.length > 1;
+        return (
+          <div key={step.id}>
+            {step.kind === "email"
+              ? renderEmailStep(step, label, canRemove)
+              : step.kind === "sms"
+                ? renderSmsStep(step, label, canRemove)
+                : step.kind === "push"
+                  ? renderPushStep(step, label, canRemove)
+                  : renderSplitStep(step, label, canRemove)}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
+        <div>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-semibold tracking-tight text-white">
+              Klaviyo Email Sequence Builder
+            </h1>
+            <div className="flex shrink-0 flex-wrap justify-end gap-2">
+              <UserMenu onSession={(user) => setRole(user.role)} />
+              <AccountSwitcher
+                value={accountId}
+                onChange={handleAccountChange}
+              />
+              <Link
+                href="/bulk"
+                className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+              >
+                Bulk create
+              </Link>
+              <Link
+                href="/flows"
+                className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+              >
+                Existing flows
+              </Link>
+              <Link
+                href="/reviews"
+                className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+              >
+                Reviews
+              </Link>
+              <Link
+                href="/audit"
+                className="rounded-lg border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-800"
+              >
+                Audit log
+              </Link>
+            </div>
+          </div>
+          <p className="mt-2 max-w-2xl text-sm text-slate-300">
+            Configure a flow, add email, SMS, and push steps, and submit it for
+            review; once approved, it&apos;s created in your Klaviyo account via
+            the official API.
+          </p>
+          <AuditEntryNotice onLoad={applyPayload} onError={setFormError} />
+
+          <form
+            onSubmit={handleSubmit}
+            className="mt-8 space-y-8 rounded-2xl border border-slate-800 bg-slate-900/40 p-6 shadow-xl shadow-slate-900/30 backdrop-blur"
+          >
+            <section>
               <h2 className="text-lg font-medium text-white">Flow Settings</h2>
               <div className="mt-4 grid gap-4 md:grid-cols-2">
                 <label className="flex flex-col gap-2 text-sm">
                   <span className="font-medium text-slate-200">Flow name</span>
                   <input
-                    className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                    className={fieldClass("flowName")}
                     placeholder="Welcome series"
                     value={flowName}
                     onChange={(event) => setFlowName(event.target.value)}
                   />
+                  {renderFieldError("flowName")}
                 </label>
                 <label className="flex flex-col gap-2 text-sm">
                   <span className="font-medium text-slate-200">
                     Trigger type
                   </span>
                   <select
-                    className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                    className={fieldClass("trigger.type")}
                     value={triggerType}
                     onChange={(event) =>
                       setTriggerType(event.target.value as TriggerType)
@@ -331,479 +2296,370 @@ export default function Home() {
                   >
                     <option value="list">List</option>
                     <option value="segment">Segment</option>
+                    <option value="metric">Metric (event)</option>
                   </select>
+                  {renderFieldError("trigger.type")}
                 </label>
                 <label className="flex flex-col gap-2 text-sm md:col-span-2">
                   <span className="font-medium text-slate-200">
                     Trigger identifier
                   </span>
-                  <input
-                    className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                    placeholder={
-                      triggerType === "list"
-                        ? "List ID (e.g. YyZxA)"
-                        : "Segment ID (e.g. Px1Ab)"
-                    }
-                    value={triggerId}
-                    onChange={(event) => setTriggerId(event.target.value)}
-                  />
+                  {triggerType === "metric" ? (
+                    <input
+                      className={fieldClass("trigger.id")}
+                      placeholder="Metric ID (e.g. Placed Order: VwXyZ1)"
+                      value={triggerId}
+                      onChange={(event) => setTriggerId(event.target.value)}
+                    />
+                  ) : (
+                    <AudiencePicker
+                      accountId={accountId}
+                      type={triggerType}
+                      value={triggerId}
+                      onChange={setTriggerId}
+                      className={fieldClass("trigger.id")}
+                    />
+                  )}
+                  {renderFieldError("trigger.id")}
                 </label>
               </div>
-            </section>
-
-            <section className="space-y-6">
-              <div className="flex items-center justify-between">
-                <h2 className="text-lg font-medium text-white">
-                  Email steps
-                </h2>
-                <button
-                  type="button"
-                  onClick={handleAddStep}
-                  className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
-                >
-                  Add step
-                </button>
-              </div>
-
-              <div className="space-y-8">
-                {steps.map((step, index) => (
-                  <div
-                    key={step.id}
-                    className="space-y-6 rounded-xl border border-slate-800 bg-slate-950/40 p-6 shadow-inner shadow-slate-950/30"
-                  >
-                    <div className="flex items-start justify-between gap-4">
-                      <div>
-                        <h3 className="text-base font-semibold text-white">
-                          Step {index + 1}
-                        </h3>
-                        <p className="text-xs text-slate-400">
-                          Configure delay, content, and delivery settings for
-                          this email.
-                        </p>
-                      </div>
-                      {steps.length > 1 && (
-                        <button
-                          type="button"
-                          onClick={() => handleRemoveStep(step.id)}
-                          className="rounded-lg border border-transparent px-3 py-1 text-xs font-medium text-rose-200 transition hover:border-rose-400 hover:bg-rose-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-rose-500/40"
-                        >
-                          Remove
-                        </button>
-                      )}
-                    </div>
 
-                    <div className="grid gap-4 md:grid-cols-3">
-                      <label className="flex flex-col gap-2 text-xs md:col-span-1">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Internal name
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="Welcome email #1"
-                          value={step.internalName}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "internalName",
-                              event.target.value,
-                            )
-                          }
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs md:col-span-2">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Subject line*
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="Thanks for joining!"
-                          value={step.subjectLine}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "subjectLine",
-                              event.target.value,
-                            )
-                          }
-                          required
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs md:col-span-3">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Preview text
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="Sneak peek copy that appears in inbox previews"
-                          value={step.previewText}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "previewText",
-                              event.target.value,
-                            )
-                          }
-                        />
-                      </label>
+              {triggerType === "metric" && (
+                <div className="mt-4 space-y-3 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+                  <div className="flex items-center justify-between gap-4 text-xs">
+                    <div>
+                      <span className="font-semibold uppercase tracking-wide text-slate-300">
+                        Trigger filters
+                      </span>
+                      <p className="mt-1 text-[11px] text-slate-400">
+                        Only enter the flow when the event&apos;s properties
+                        match every filter.
+                      </p>
                     </div>
-
-                    <div className="grid gap-4 md:grid-cols-2">
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          From name*
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="Brand team"
-                          value={step.fromName}
-                          onChange={(event) =>
-                            updateStep(step.id, "fromName", event.target.value)
-                          }
-                          required
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          From email*
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="hello@example.com"
-                          value={step.fromEmail}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "fromEmail",
-                              event.target.value,
-                            )
-                          }
-                          required
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Reply-to email
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="support@example.com"
-                          value={step.replyToEmail}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "replyToEmail",
-                              event.target.value,
-                            )
-                          }
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Template ID (optional)
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="Template ID"
-                          value={step.templateId}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "templateId",
-                              event.target.value,
-                            )
-                          }
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          CC email
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="cc@example.com"
-                          value={step.ccEmail}
-                          onChange={(event) =>
-                            updateStep(step.id, "ccEmail", event.target.value)
-                          }
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          BCC email
-                        </span>
-                        <input
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          placeholder="bcc@example.com"
-                          value={step.bccEmail}
-                          onChange={(event) =>
-                            updateStep(step.id, "bccEmail", event.target.value)
-                          }
-                        />
-                      </label>
-                      <label className="flex flex-col gap-2 text-xs">
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Delivery status
-                        </span>
-                        <select
-                          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                          value={step.status}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "status",
-                              event.target.value as StepStatus,
-                            )
-                          }
-                        >
-                          <option value="draft">Draft</option>
-                          <option value="live">Live</option>
-                          <option value="manual">Manual</option>
-                          <option value="disabled">Disabled</option>
-                        </select>
-                      </label>
-                      <label className="flex items-center gap-3 text-xs">
-                        <input
-                          type="checkbox"
-                          className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
-                          checked={step.smartSendingEnabled}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "smartSendingEnabled",
-                              event.target.checked,
-                            )
-                          }
-                        />
-                        <span className="font-medium uppercase tracking-wide text-slate-400">
-                          Enable smart sending
-                        </span>
-                      </label>
-                    </div>
-
-                    <div className="rounded-lg border border-slate-800 bg-slate-950/60 p-4">
-                      <label className="flex items-center justify-between gap-4 text-xs">
-                        <div>
-                          <span className="font-semibold uppercase tracking-wide text-slate-300">
-                            Add delay before send
-                          </span>
-                          <p className="mt-1 text-[11px] text-slate-400">
-                            Inserts a time delay action before this email.
-                          </p>
-                        </div>
-                        <input
-                          type="checkbox"
-                          className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
-                          checked={step.delayEnabled}
-                          onChange={(event) =>
-                            updateStep(
-                              step.id,
-                              "delayEnabled",
-                              event.target.checked,
-                            )
-                          }
-                        />
-                      </label>
-
-                      {step.delayEnabled && (
-                        <div className="mt-4 grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)]">
-                          <label className="flex flex-col gap-2 text-xs">
-                            <span className="font-medium uppercase tracking-wide text-slate-400">
-                              Value
-                            </span>
-                            <input
-                              type="number"
-                              min={0}
-                              className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                              value={step.delayValue}
-                              onChange={(event) =>
-                                updateStep(
-                                  step.id,
-                                  "delayValue",
-                                  Number(event.target.value),
-                                )
-                              }
-                            />
-                          </label>
-                          <label className="flex flex-col gap-2 text-xs">
-                            <span className="font-medium uppercase tracking-wide text-slate-400">
-                              Units
-                            </span>
-                            <select
-                              className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                              value={step.delayUnit}
-                              onChange={(event) =>
-                                updateStep(
-                                  step.id,
-                                  "delayUnit",
-                                  event.target.value as DelayUnit,
-                                )
-                              }
-                            >
-                              <option value="minutes">Minutes</option>
-                              <option value="hours">Hours</option>
-                              <option value="days">Days</option>
-                            </select>
-                          </label>
-                          <label className="flex flex-col gap-2 text-xs">
-                            <span className="font-medium uppercase tracking-wide text-slate-400">
-                              Timezone
-                            </span>
-                            <input
-                              className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                              value={step.delayTimezone}
-                              onChange={(event) =>
-                                updateStep(
-                                  step.id,
-                                  "delayTimezone",
-                                  event.target.value,
-                                )
-                              }
-                              placeholder="profile"
-                            />
-                          </label>
-                        </div>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setTriggerFilters((prev) => [
+                          ...prev,
+                          createTriggerFilterRow(),
+                        ])
+                      }
+                      className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                    >
+                      Add filter
+                    </button>
+                  </div>
+                  {triggerFilters.map((row) => (
+                    <div
+                      key={row.id}
+                      className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_auto]"
+                    >
+                      <input
+                        className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                        placeholder="$value"
+                        value={row.property}
+                        onChange={(event) =>
+                          updateTriggerFilter(
+                            row.id,
+                            "property",
+                            event.target.value,
+                          )
+                        }
+                      />
+                      <select
+                        className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                        value={row.operator}
+                        onChange={(event) =>
+                          updateTriggerFilter(
+                            row.id,
+                            "operator",
+                            event.target.value as TriggerPropertyOperator,
+                          )
+                        }
+                      >
+                        <option value="equals">Equals</option>
+                        <option value="contains">Contains</option>
+                        <option value="greater-than">Greater than</option>
+                      </select>
+                      <input
+                        className={fieldClass(`${triggerFilterPath(row.id)}.value`)}
+                        placeholder="50"
+                        value={row.value}
+                        onChange={(event) =>
+                          updateTriggerFilter(
+                            row.id,
+                            "value",
+                            event.target.value,
+                          )
+                        }
+                      />
+                      <button
+                        type="button"
+                        className="rounded-lg border border-transparent px-3 py-2 text-sm text-slate-300 transition hover:border-slate-500 hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                        onClick={() =>
+                          setTriggerFilters((prev) =>
+                            prev.filter((item) => item.id !== row.id),
+                          )
+                        }
+                      >
+                        Remove
+                      </button>
+                      {renderFieldError(
+                        triggerFilterPath(row.id),
+                        "md:col-span-4",
+                        true,
                       )}
                     </div>
+                  ))}
+                </div>
+              )}
 
-                    <div className="rounded-lg border border-slate-800 bg-slate-950/60 p-4">
-                      <label className="flex items-center justify-between gap-4 text-xs">
-                        <div>
-                          <span className="font-semibold uppercase tracking-wide text-slate-300">
-                            Custom tracking parameters
-                          </span>
-                          <p className="mt-1 text-[11px] text-slate-400">
-                            Define additional UTM parameters for this email.
-                          </p>
-                        </div>
-                        <input
-                          type="checkbox"
-                          className="h-4 w-4 rounded border border-slate-600 bg-slate-900 text-indigo-500 focus:ring-0"
-                          checked={step.addTrackingParams}
-                          onChange={(event) => {
-                            const checked = event.target.checked;
-                            updateStep(step.id, "addTrackingParams", checked);
-                            if (checked && step.trackingRows.length === 0) {
-                              addTrackingRow(step.id);
-                            }
-                            if (!checked) {
-                              updateStep(step.id, "trackingRows", []);
-                            }
-                          }}
-                        />
-                      </label>
-
-                      {step.addTrackingParams && (
-                        <div className="mt-4 space-y-3">
-                          {step.trackingRows.map((row) => (
-                            <div
-                              key={row.id}
-                              className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto]"
-                            >
-                              <input
-                                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                                placeholder="utm_medium"
-                                value={row.param}
-                                onChange={(event) =>
-                                  updateTrackingRow(
-                                    step.id,
-                                    row.id,
-                                    "param",
-                                    event.target.value,
-                                  )
-                                }
-                              />
-                              <input
-                                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
-                                placeholder="email"
-                                value={row.value}
-                                onChange={(event) =>
-                                  updateTrackingRow(
-                                    step.id,
-                                    row.id,
-                                    "value",
-                                    event.target.value,
-                                  )
-                                }
-                              />
-                              <button
-                                type="button"
-                                className="rounded-lg border border-transparent px-3 py-2 text-sm text-slate-300 transition hover:border-slate-500 hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
-                                onClick={() => removeTrackingRow(step.id, row.id)}
-                              >
-                                Remove
-                              </button>
-                            </div>
-                          ))}
-                          <button
-                            type="button"
-                            onClick={() => addTrackingRow(step.id)}
-                            className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
-                          >
-                            Add parameter
-                          </button>
-                        </div>
+              <div className="mt-4 space-y-3 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+                <div className="flex items-center justify-between gap-4 text-xs">
+                  <div>
+                    <span className="font-semibold uppercase tracking-wide text-slate-300">
+                      Profile filters
+                    </span>
+                    <p className="mt-1 text-[11px] text-slate-400">
+                      Profiles must match every filter to enter and stay in the
+                      flow.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setProfileFilters((prev) => [
+                        ...prev,
+                        createProfileFilterRow(),
+                      ])
+                    }
+                    className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                  >
+                    Add filter
+                  </button>
+                </div>
+                {profileFilters.map((row) => (
+                  <div
+                    key={row.id}
+                    className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_auto]"
+                  >
+                    <input
+                      className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                      placeholder="country"
+                      value={row.property}
+                      onChange={(event) =>
+                        updateProfileFilter(
+                          row.id,
+                          "property",
+                          event.target.value,
+                        )
+                      }
+                    />
+                    <select
+                      className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                      value={row.operator}
+                      onChange={(event) =>
+                        updateProfileFilter(
+                          row.id,
+                          "operator",
+                          event.target.value as ProfilePropertyOperator,
+                        )
+                      }
+                    >
+                      <option value="equals">Equals</option>
+                      <option value="not-equals">Does not equal</option>
+                      <option value="contains">Contains</option>
+                      <option value="is-set">Is set</option>
+                      <option value="is-not-set">Is not set</option>
+                    </select>
+                    <input
+                      className={fieldClass(
+                        `${profileFilterPath(row.id)}.value`,
+                        `${FIELD_CLASS} disabled:opacity-40`,
                       )}
-                    </div>
+                      placeholder="US"
+                      value={row.value}
+                      disabled={
+                        row.operator === "is-set" ||
+                        row.operator === "is-not-set"
+                      }
+                      onChange={(event) =>
+                        updateProfileFilter(row.id, "value", event.target.value)
+                      }
+                    />
+                    <button
+                      type="button"
+                      className="rounded-lg border border-transparent px-3 py-2 text-sm text-slate-300 transition hover:border-slate-500 hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                      onClick={() =>
+                        setProfileFilters((prev) =>
+                          prev.filter((item) => item.id !== row.id),
+                        )
+                      }
+                    >
+                      Remove
+                    </button>
+                    {renderFieldError(
+                      profileFilterPath(row.id),
+                      "md:col-span-4",
+                      true,
+                    )}
                   </div>
                 ))}
               </div>
+
+              <TrackingDefaultsPanel
+                canEdit={canEdit}
+                rows={trackingDefaults}
+                params={flowTracking}
+                onAdd={() =>
+                  setTrackingDefaults((prev) => [...prev, createTrackingRow()])
+                }
+                onChange={setTrackingDefaults}
+                onApply={(params) => setTrackingDefaults(toTrackingRows(params))}
+                fieldClass={fieldClass}
+                renderFieldError={renderFieldError}
+              />
+            </section>
+
+            <section className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium text-white">
+                  Flow steps
+                </h2>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleAddStep("email")}
+                    className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                  >
+                    Add email
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleAddStep("sms")}
+                    className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                  >
+                    Add SMS
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleAddStep("push")}
+                    className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                  >
+                    Add push
+                  </button>
+                  {!isSplitForm(steps[steps.length - 1]) && (
+                    <button
+                      type="button"
+                      onClick={() => handleAddStep("conditional-split")}
+                      className="rounded-lg border border-slate-600 px-4 py-2 text-sm font-medium text-slate-200 transition hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+                    >
+                      Add split
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {renderFieldError("steps")}
+              {renderStepList(steps, "Step")}
             </section>
 
             {formError && (
               <div className="rounded-lg border border-rose-400/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
-                {formError}
+                {fieldErrors.length > 1 ? (
+                  <>
+                    <p>Fix {fieldErrors.length} problems before continuing:</p>
+                    <ul className="mt-2 list-disc space-y-1 pl-5 text-xs">
+                      {fieldErrors.map((issue) => (
+                        <li key={`${issue.path}:${issue.code}`}>
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                ) : (
+                  formError
+                )}
               </div>
             )}
 
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="flex w-full items-center justify-center gap-3 rounded-lg bg-indigo-500 px-4 py-3 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
-            >
-              {isSubmitting ? "Creating flow..." : "Create Klaviyo flow"}
-            </button>
+            <div className="grid gap-3 md:grid-cols-[1fr_2fr]">
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={isPreviewing || isSubmitting}
+                className="flex w-full items-center justify-center gap-3 rounded-lg border border-indigo-500 px-4 py-3 text-sm font-semibold text-indigo-200 transition hover:bg-indigo-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isPreviewing ? "Building preview..." : "Preview payload"}
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !canEdit}
+                title={
+                  canEdit
+                    ? undefined
+                    : "Submitting flows for review needs the editor role."
+                }
+                className="flex w-full items-center justify-center gap-3 rounded-lg bg-indigo-500 px-4 py-3 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+              >
+                {isSubmitting ? "Submitting..." : "Submit for review"}
+              </button>
+            </div>
           </form>
         </div>
 
         <aside className="space-y-6">
+          <FlowTimeline
+            trigger={`${TRIGGER_LABELS[triggerType]} ${
+              triggerId.trim() || "(no ID yet)"
+            }`}
+            steps={timelineSteps}
+            onMove={(id, toIndex) =>
+              setSteps((prev) => moveInTree(prev, id, toIndex))
+            }
+          />
+          <FlowImportPanel accountId={accountId} onLoad={applyPayload} />
+
+          <DraftsPanel
+            canEdit={canEdit}
+            flowName={flowName}
+            getPayload={getFlowPayload}
+            onLoad={applyPayload}
+          />
+
+          <FlowSpecPanel
+            accountId={accountId}
+            getPayload={getFlowPayload}
+            onLoad={applyPayload}
+          />
+
           <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
             <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
               Deployment checklist
             </h2>
             <ol className="mt-4 list-decimal space-y-3 pl-5 text-xs text-slate-300">
-              <li>Set the `KLAVIYO_API_KEY` environment variable.</li>
-              <li>Confirm trigger IDs (list or segment) exist in Klaviyo.</li>
+              <li>
+                Set the `KLAVIYO_API_KEY` environment variable, or add the
+                client account under Manage and select it above.
+              </li>
+              <li>
+                Pick the trigger list or segment from the dropdown; trigger IDs
+                are checked against Klaviyo before the flow is created.
+              </li>
+              <li>
+                Submit for review; a publisher other than you approves the
+                payload on the Reviews page, then publishes it.
+              </li>
               <li>After creation, adjust templates and creatives in Klaviyo.</li>
             </ol>
           </div>
 
-          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
-            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
-              API response
-            </h2>
-            {flowSummary ? (
-              <div className="mt-3 space-y-2 text-xs text-emerald-200">
-                <p>
-                  Flow <span className="font-semibold">{flowSummary.name}</span>{" "}
-                  created.
-                </p>
-                <p>
-                  Flow ID:{" "}
-                  <span className="font-mono">{flowSummary.id}</span>
-                </p>
-              </div>
-            ) : (
-              <p className="mt-3 text-xs text-slate-400">
-                Submit the form to see Klaviyo API responses.
-              </p>
-            )}
-
-            {detailsString && (
-              <pre className="mt-4 max-h-64 overflow-auto rounded-lg bg-slate-950/80 p-3 text-[11px] leading-relaxed text-slate-200">
-                {detailsString}
-              </pre>
-            )}
-          </div>
+          <ReviewSubmissionPanel
+            submitted={submittedReview}
+            preview={preview}
+            errors={apiResponse?.errors}
+            details={apiResponse?.details}
+          />
         </aside>
       </div>
     </div>
@@ -0,0 +1,639 @@
+'use client';
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import JsonTree from "@/components/JsonTree";
+import UserMenu from "@/components/UserMenu";
+import type { AccountSummary } from "@/lib/accountStore";
+import { stepLabelForPath } from "@/lib/klaviyoErrors";
+import type {
+  FlowReview,
+  FlowReviewSummary,
+  ReviewStatus,
+} from "@/lib/reviewStore";
+import { hasRole, type SessionUser } from "@/lib/session";
+
+interface ReviewResponse<T> {
+  data?: T;
+  error?: string;
+  details?: unknown;
+  warnings?: string[];
+}
+
+interface ReviewSection {
+  /** Step path, or "" for the trigger and profile filter. */
+  path: string;
+  label: string;
+  value: unknown;
+}
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20";
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-200",
+  approved: "bg-indigo-500/20 text-indigo-200",
+  rejected: "bg-rose-500/20 text-rose-200",
+  published: "bg-emerald-500/20 text-emerald-200",
+  unconfirmed: "bg-rose-500/20 text-rose-200",
+};
+
+const STATUS_FILTERS: { value: ReviewStatus | ""; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "published", label: "Published" },
+  { value: "unconfirmed", label: "Unconfirmed" },
+  { value: "", label: "All" },
+];
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+/**
+ * Splits the Klaviyo payload into the flow-level settings plus one section per
+ * builder step, each holding the actions built from it (a step's delay comes
+ * out as its own action).
+ */
+const reviewSections = (review: FlowReview): ReviewSection[] => {
+  const { definition } = review.klaviyoPayload.data.attributes;
+  const sections: ReviewSection[] = [
+    {
+      path: "",
+      label: "Trigger and filters",
+      value: {
+        triggers: definition.triggers,
+        profile_filter: definition.profile_filter,
+      },
+    },
+  ];
+  const stepActions = new Map<string, unknown[]>();
+
+  review.actionPaths.forEach((actionPath, index) => {
+    const path = actionPath.replace(/\.delay$/, "");
+    if (!stepActions.has(path)) {
+      stepActions.set(path, []);
+    }
+    stepActions.get(path)!.push(definition.actions[index]);
+  });
+
+  stepActions.forEach((actions, path) => {
+    sections.push({
+      path,
+      label: stepLabelForPath(path) ?? path,
+      value: actions,
+    });
+  });
+
+  return sections;
+};
+
+export default function ReviewsPage() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | "">(
+    "pending",
+  );
+  const [reviews, setReviews] = useState<FlowReviewSummary[]>([]);
+  const [accountNames, setAccountNames] = useState<Record<string, string>>({});
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [review, setReview] = useState<FlowReview | null>(null);
+  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>(
+    {},
+  );
+  const [decisionNote, setDecisionNote] = useState("");
+  const [foundFlowId, setFoundFlowId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(
+      statusFilter ? `/api/reviews?status=${statusFilter}` : "/api/reviews",
+    )
+      .then((response) => response.json())
+      .then((data: ReviewResponse<FlowReviewSummary[]>) => {
+        if (!cancelled) {
+          setReviews(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Unable to load reviews.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [statusFilter, refreshKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/accounts")
+      .then((response) => response.json())
+      .then((data: ReviewResponse<AccountSummary[]>) => {
+        if (!cancelled) {
+          setAccountNames(
+            Object.fromEntries(
+              (data.data ?? []).map((account) => [account.id, account.name]),
+            ),
+          );
+        }
+      })
+      .catch(() => null);
+
+    // Links from the builder open a review directly with `?id=`.
+    const linkedId = new URLSearchParams(window.location.search).get("id");
+    if (linkedId) {
+      fetch(`/api/reviews/${linkedId}`)
+        .then((response) => response.json())
+        .then((data: ReviewResponse<FlowReview>) => {
+          if (cancelled) {
+            return;
+          }
+          if (data.data) {
+            setReview(data.data);
+          } else {
+            setError(data.error ?? "Unable to load the review.");
+          }
+        })
+        .catch(() => null);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const request = async <T,>(
+    url: string,
+    init?: RequestInit,
+  ): Promise<T | null> => {
+    setIsBusy(true);
+    setError(null);
+    setWarnings([]);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data: ReviewResponse<T> = await response.json();
+      setWarnings(data.warnings ?? []);
+      if (!response.ok || !data.data) {
+        setError(data.error ?? "Review request failed.");
+        return null;
+      }
+      return data.data;
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Unexpected error talking to the reviews API.",
+      );
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const showReview = (updated: FlowReview) => {
+    setReview(updated);
+    setRefreshKey((key) => key + 1);
+  };
+
+  const handleOpen = async (id: string) => {
+    const opened = await request<FlowReview>(`/api/reviews/${id}`);
+    if (opened) {
+      setReview(opened);
+      setDecisionNote("");
+      window.history.replaceState(null, "", `/reviews?id=${id}`);
+    }
+  };
+
+  const handleComment = async (path: string) => {
+    if (!review) {
+      return;
+    }
+    const updated = await request<FlowReview>(
+      `/api/reviews/${review.id}/comments`,
+      {
+        method: "POST",
+        body: JSON.stringify({ path, body: commentDrafts[path] ?? "" }),
+      },
+    );
+    if (updated) {
+      setCommentDrafts((prev) => ({ ...prev, [path]: "" }));
+      showReview(updated);
+    }
+  };
+
+  const handleDecision = async (decision: "approve" | "reject") => {
+    if (!review) {
+      return;
+    }
+    const updated = await request<FlowReview>(
+      `/api/reviews/${review.id}/decision`,
+      {
+        method: "POST",
+        body: JSON.stringify({ decision, note: decisionNote }),
+      },
+    );
+    if (updated) {
+      setDecisionNote("");
+      showReview(updated);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!review) {
+      return;
+    }
+    const created = await request<unknown>(
+      `/api/flows?review=${review.id}`,
+      { method: "POST" },
+    );
+    if (created) {
+      await handleOpen(review.id);
+      setRefreshKey((key) => key + 1);
+      return;
+    }
+    // A create that failed in transit leaves the review unconfirmed; reload
+    // it without clearing the error.
+    const reloaded: ReviewResponse<FlowReview> = await fetch(
+      `/api/reviews/${review.id}`,
+    )
+      .then((response) => response.json())
+      .catch(() => ({}));
+    if (reloaded.data) {
+      showReview(reloaded.data);
+    }
+  };
+
+  const handleReconcile = async (flowId?: string) => {
+    if (!review) {
+      return;
+    }
+    const updated = await request<FlowReview>(
+      `/api/reviews/${review.id}/reconcile`,
+      {
+        method: "POST",
+        body: JSON.stringify({ flowId }),
+      },
+    );
+    if (updated) {
+      setFoundFlowId("");
+      showReview(updated);
+    }
+  };
+
+  const canEdit = user !== null && hasRole(user.role, "editor");
+  const isPublisher = user !== null && hasRole(user.role, "publisher");
+  const isSubmitter = user !== null && review?.submittedBy === user.username;
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-12 text-slate-100">
+      <div className="mx-auto grid w-full max-w-6xl gap-10 px-6 md:grid-cols-[2fr_1fr]">
+        <div>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-semibold tracking-tight text-white">
+                Flow reviews
+              </h1>
+              <p className="mt-2 max-w-2xl text-sm text-slate-300">
+                Every flow is approved by a second person before it&apos;s
+                created in Klaviyo. Reviewers see the exact payload that will
+                be sent and can comment on each step.
+              </p>
+            </div>
+            <div className="flex shrink-0 flex-wrap justify-end gap-2">
+              <UserMenu onSession={setUser} />
+              <Link
+                href="/"
+                className="rounded-lg border border-indigo-500 px-4 py-2 text-sm font-medium text-indigo-200 transition hover:bg-indigo-500/10"
+              >
+                Open builder
+              </Link>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mt-6 rounded-lg border border-rose-400/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+              {error}
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <ul className="mt-6 space-y-1 rounded-lg border border-amber-400/60 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+
+          {!review && (
+            <p className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+              Pick a review from the list to see its payload.
+            </p>
+          )}
+
+          {review && (
+            <div className="mt-8 space-y-6">
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">
+                      {review.flowName}
+                    </h2>
+                    <p className="text-xs text-slate-400">
+                      Submitted by {review.submittedBy} ·{" "}
+                      {formatDate(review.createdAt)} ·{" "}
+                      {review.accountId
+                        ? (accountNames[review.accountId] ?? review.accountId)
+                        : "Default account"}
+                    </p>
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[review.status]}`}
+                  >
+                    {review.status}
+                  </span>
+                </div>
+
+                {review.warnings.length > 0 && (
+                  <ul className="mt-4 list-disc space-y-1 pl-5 text-xs text-amber-200">
+                    {review.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <ol className="mt-4 space-y-2 text-xs">
+                  {review.history.map((event, index) => (
+                    <li key={index} className="text-slate-300">
+                      <span
+                        className={`mr-2 rounded-full px-2 py-0.5 ${STATUS_STYLES[event.status]}`}
+                      >
+                        {event.status}
+                      </span>
+                      {event.by} · {formatDate(event.at)}
+                      {event.note && (
+                        <p className="mt-1 pl-2 text-slate-400">
+                          {event.note}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+
+                {review.flowId && (
+                  <p className="mt-4 text-xs text-emerald-200">
+                    Created in Klaviyo as{" "}
+                    <span className="font-mono">{review.flowId}</span>.
+                  </p>
+                )}
+
+                {review.status === "pending" && (
+                  <div className="mt-5 space-y-3 border-t border-slate-800 pt-5">
+                    <textarea
+                      rows={2}
+                      className={FIELD_CLASS}
+                      placeholder="Decision note (required when rejecting)"
+                      value={decisionNote}
+                      onChange={(event) => setDecisionNote(event.target.value)}
+                      disabled={!isPublisher || isSubmitter}
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => handleDecision("approve")}
+                        disabled={isBusy || !isPublisher || isSubmitter}
+                        className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDecision("reject")}
+                        disabled={
+                          isBusy ||
+                          !isPublisher ||
+                          isSubmitter ||
+                          !decisionNote.trim()
+                        }
+                        className="rounded-lg border border-rose-500 px-4 py-2 text-sm font-semibold text-rose-200 transition hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                      <span className="text-[11px] text-slate-400">
+                        {isSubmitter
+                          ? "Someone other than you has to review this flow."
+                          : !isPublisher
+                            ? "Approving needs the publisher role."
+                            : null}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {review.status === "approved" && (
+                  <div className="mt-5 flex flex-wrap items-center gap-3 border-t border-slate-800 pt-5">
+                    <button
+                      type="button"
+                      onClick={handlePublish}
+                      disabled={isBusy || !isPublisher}
+                      className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+                    >
+                      {isBusy ? "Working..." : "Create Klaviyo flow"}
+                    </button>
+                    {!isPublisher && (
+                      <span className="text-[11px] text-slate-400">
+                        Publishing needs the publisher role.
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {review.status === "unconfirmed" && (
+                  <div className="mt-5 space-y-3 border-t border-slate-800 pt-5">
+                    <p className="text-xs text-rose-200">
+                      The create request failed in transit, so the flow may
+                      already exist in Klaviyo. Look for it there before
+                      publishing again.
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <input
+                        className={`${FIELD_CLASS} max-w-xs`}
+                        placeholder="Flow ID found in Klaviyo"
+                        value={foundFlowId}
+                        onChange={(event) => setFoundFlowId(event.target.value)}
+                        disabled={!isPublisher}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleReconcile(foundFlowId)}
+                        disabled={isBusy || !isPublisher || !foundFlowId.trim()}
+                        className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Mark published
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleReconcile()}
+                        disabled={isBusy || !isPublisher}
+                        className="rounded-lg border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        It wasn&apos;t created
+                      </button>
+                      {!isPublisher && (
+                        <span className="text-[11px] text-slate-400">
+                          Reconciling needs the publisher role.
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {reviewSections(review).map((section) => {
+                const comments = review.comments.filter(
+                  (comment) => comment.path === section.path,
+                );
+                return (
+                  <div
+                    key={section.path || "flow"}
+                    className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6"
+                  >
+                    <h3 className="text-sm font-semibold text-white">
+                      {section.label}
+                      {section.path && (
+                        <span className="ml-2 font-mono text-[11px] font-normal text-slate-500">
+                          {section.path}
+                        </span>
+                      )}
+                    </h3>
+                    <div className="mt-3 max-h-80 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px] leading-relaxed">
+                      <JsonTree value={section.value} />
+                    </div>
+
+                    {comments.length > 0 && (
+                      <ul className="mt-4 space-y-2 text-xs">
+                        {comments.map((comment) => (
+                          <li
+                            key={comment.id}
+                            className="rounded-lg border border-slate-800 bg-slate-950/60 p-3"
+                          >
+                            <p className="text-[11px] text-slate-500">
+                              {comment.author} · {formatDate(comment.createdAt)}
+                            </p>
+                            <p className="mt-1 whitespace-pre-wrap text-slate-200">
+                              {comment.body}
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {canEdit && (
+                      <div className="mt-4 flex gap-2">
+                        <input
+                          className={FIELD_CLASS}
+                          placeholder="Comment on this step"
+                          value={commentDrafts[section.path] ?? ""}
+                          onChange={(event) =>
+                            setCommentDrafts((prev) => ({
+                              ...prev,
+                              [section.path]: event.target.value,
+                            }))
+                          }
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleComment(section.path)}
+                          disabled={
+                            isBusy || !commentDrafts[section.path]?.trim()
+                          }
+                          className="shrink-0 rounded-lg border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          Comment
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <details className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+                <summary className="cursor-pointer text-sm font-semibold text-white">
+                  Full Klaviyo payload
+                </summary>
+                <div className="mt-3 max-h-96 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px] leading-relaxed">
+                  <JsonTree value={review.klaviyoPayload} />
+                </div>
+              </details>
+            </div>
+          )}
+        </div>
+
+        <aside className="space-y-6">
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+              Review requests
+            </h2>
+            <div className="mt-3 flex flex-wrap gap-1">
+              {STATUS_FILTERS.map((filter) => (
+                <button
+                  key={filter.label}
+                  type="button"
+                  onClick={() => setStatusFilter(filter.value)}
+                  className={`rounded-full px-3 py-1 text-[11px] transition ${
+                    statusFilter === filter.value
+                      ? "bg-indigo-500/20 text-indigo-100"
+                      : "text-slate-400 hover:text-slate-100"
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+            <ul className="mt-4 space-y-2 text-xs">
+              {reviews.map((summary) => (
+                <li key={summary.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(summary.id)}
+                    className={`w-full rounded-lg border p-3 text-left transition ${
+                      review?.id === summary.id
+                        ? "border-indigo-500/60 bg-indigo-500/5"
+                        : "border-slate-800 bg-slate-950/60 hover:border-slate-700"
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-slate-100">
+                        {summary.flowName}
+                      </p>
+                      <span
+                        className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] ${STATUS_STYLES[summary.status]}`}
+                      >
+                        {summary.status}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-[11px] text-slate-500">
+                      {summary.submittedBy} · {formatDate(summary.updatedAt)}
+                      {summary.commentCount > 0 &&
+                        ` · ${summary.commentCount} comment(s)`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+              {!reviews.length && (
+                <li className="text-slate-500">No reviews here.</li>
+              )}
+            </ul>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
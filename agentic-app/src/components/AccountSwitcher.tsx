@@ -0,0 +1,111 @@
+'use client';
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import type { AccountSummary } from "@/lib/accountStore";
+
+interface AccountSwitcherProps {
+  value: string | null;
+  onChange: (account: AccountSummary | null) => void;
+}
+
+interface AccountListResponse {
+  data?: AccountSummary[];
+  hasDefaultKey?: boolean;
+  error?: string;
+}
+
+// Shared by every page so the builder, flows and bulk views stay on one account.
+const STORAGE_KEY = "klaviyo-flow-builder:account";
+
+/** Adds the selected account to an API URL; no account uses the server key. */
+export const withAccount = (url: string, accountId: string | null) =>
+  accountId
+    ? `${url}${url.includes("?") ? "&" : "?"}account=${encodeURIComponent(accountId)}`
+    : url;
+
+export default function AccountSwitcher({
+  value,
+  onChange,
+}: AccountSwitcherProps) {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [hasDefaultKey, setHasDefaultKey] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The selection is only restored once, so the fetch reads the latest
+  // callback through a ref rather than re-running when it changes.
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/accounts")
+      .then((response) => response.json())
+      .then((data: AccountListResponse) => {
+        if (cancelled) {
+          return;
+        }
+        const loaded = data.data ?? [];
+        setAccounts(loaded);
+        setHasDefaultKey(data.hasDefaultKey ?? false);
+
+        // Restore the last selection, or fall back to the only option there is.
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        const restored =
+          loaded.find((account) => account.id === stored) ??
+          (!data.hasDefaultKey && loaded.length ? loaded[0] : null);
+        if (restored) {
+          onChangeRef.current(restored);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Unable to load accounts.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleChange = (id: string) => {
+    const account = accounts.find((item) => item.id === id) ?? null;
+    if (account) {
+      window.localStorage.setItem(STORAGE_KEY, account.id);
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+    onChange(account);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <select
+        aria-label="Klaviyo account"
+        value={value ?? ""}
+        onChange={(event) => handleChange(event.target.value)}
+        className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+      >
+        <option value="" disabled={!hasDefaultKey}>
+          {hasDefaultKey ? "Server account" : "No server key"}
+        </option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.name} · …{account.apiKeyHint}
+          </option>
+        ))}
+      </select>
+      <Link
+        href="/accounts"
+        className="text-slate-400 transition hover:text-slate-100"
+      >
+        Manage
+      </Link>
+      {error && <span className="text-rose-300">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+import { withAccount } from "@/components/AccountSwitcher";
+import type { AudienceSummary, AudienceType } from "@/lib/klaviyoAudiences";
+
+interface AudiencePickerProps {
+  accountId: string | null;
+  type: AudienceType;
+  value: string;
+  onChange: (id: string) => void;
+  className: string;
+}
+
+interface AudienceListResponse {
+  data?: AudienceSummary[];
+  nextCursor?: string | null;
+  error?: string;
+}
+
+interface AudienceResponse {
+  data?: AudienceSummary;
+  error?: string;
+}
+
+interface LoadedAudiences {
+  accountId: string | null;
+  type: AudienceType;
+  items: AudienceSummary[];
+  nextCursor: string | null;
+}
+
+const ENDPOINTS: Record<AudienceType, string> = {
+  list: "/api/lists",
+  segment: "/api/segments",
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : "—";
+
+const formatCount = (count: number | null | undefined) => {
+  if (count === undefined) {
+    return "counting profiles…";
+  }
+  return count === null ? "— profiles" : `${count.toLocaleString()} profiles`;
+};
+
+/**
+ * Text input for a list or segment ID with a searchable dropdown of the
+ * account's audiences. Typing an ID directly still works. Profile counts cost
+ * a Klaviyo request each, so only the selected audience's is looked up.
+ */
+export default function AudiencePicker({
+  accountId,
+  type,
+  value,
+  onChange,
+  className,
+}: AudiencePickerProps) {
+  const [loaded, setLoaded] = useState<LoadedAudiences | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Keyed by account, type and ID; null when Klaviyo couldn't give a count.
+  const [counts, setCounts] = useState<Record<string, number | null>>({});
+
+  // Switching type or account discards results loaded for the previous one.
+  const audiences =
+    loaded?.type === type && loaded.accountId === accountId ? loaded : null;
+
+  const selected = audiences?.items.find((item) => item.id === value) ?? null;
+  const countKey = selected
+    ? `${accountId ?? ""}:${type}:${selected.id}`
+    : null;
+  const needsCount = countKey !== null && !(countKey in counts);
+
+  useEffect(() => {
+    if (!needsCount || !countKey || !selected) {
+      return;
+    }
+    let cancelled = false;
+    const setCount = (count: number | null) => {
+      if (!cancelled) {
+        setCounts((prev) => ({ ...prev, [countKey]: count }));
+      }
+    };
+
+    fetch(
+      withAccount(
+        `${ENDPOINTS[type]}/${encodeURIComponent(selected.id)}`,
+        accountId,
+      ),
+    )
+      .then((response) => response.json())
+      .then((data: AudienceResponse) =>
+        setCount(data.data?.profileCount ?? null),
+      )
+      .catch(() => setCount(null));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, countKey, needsCount, selected, type]);
+
+  const matches = useMemo(() => {
+    const term = value.trim().toLowerCase();
+    const items = audiences?.items ?? [];
+    return term && !selected
+      ? items.filter(
+          (item) =>
+            item.name.toLowerCase().includes(term) ||
+            item.id.toLowerCase().includes(term),
+        )
+      : items;
+  }, [audiences, selected, value]);
+
+  const load = async (cursor: string | null) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        withAccount(
+          cursor
+            ? `${ENDPOINTS[type]}?cursor=${encodeURIComponent(cursor)}`
+            : ENDPOINTS[type],
+          accountId,
+        ),
+      );
+      const data: AudienceListResponse = await response.json();
+      if (!response.ok) {
+        setError(data.error ?? `Unable to load ${type}s.`);
+        return;
+      }
+      setLoaded((prev) => ({
+        accountId,
+        type,
+        items: [
+          ...(cursor && prev?.type === type && prev.accountId === accountId
+            ? prev.items
+            : []),
+          ...(data.data ?? []),
+        ],
+        nextCursor: data.nextCursor ?? null,
+      }));
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : `Unexpected error loading ${type}s.`,
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFocus = () => {
+    setIsOpen(true);
+    if (!audiences && !isLoading) {
+      void load(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        className={className}
+        placeholder={
+          type === "list"
+            ? "Search lists or enter a list ID"
+            : "Search segments or enter a segment ID"
+        }
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={handleFocus}
+        onBlur={() => setIsOpen(false)}
+      />
+      {selected && (
+        <p className="mt-1 text-[11px] text-slate-400">
+          {selected.name} · {formatCount(countKey ? counts[countKey] : null)}
+        </p>
+      )}
+
+      {isOpen && (
+        <div className="absolute z-10 mt-1 max-h-72 w-full overflow-auto rounded-lg border border-slate-700 bg-slate-950 text-xs shadow-xl shadow-slate-950/60">
+          {error && <p className="px-3 py-2 text-rose-300">{error}</p>}
+          {/* Options swallow mousedown so the input keeps focus until click. */}
+          {matches.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => {
+                onChange(item.id);
+                setIsOpen(false);
+              }}
+              className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left transition hover:bg-slate-800/60 ${
+                item.id === value ? "text-indigo-200" : "text-slate-300"
+              }`}
+            >
+              <span className="min-w-0">
+                <span className="block truncate font-medium">
+                  {item.name || item.id}
+                </span>
+                <span className="text-[11px] text-slate-500">
+                  {item.id} · created {formatDate(item.created)}
+                </span>
+              </span>
+            </button>
+          ))}
+          {isLoading && <p className="px-3 py-2 text-slate-500">Loading…</p>}
+          {!isLoading && audiences && !matches.length && (
+            <p className="px-3 py-2 text-slate-500">
+              No loaded {type}s match. The ID will be used as entered.
+            </p>
+          )}
+          {!isLoading && audiences?.nextCursor && (
+            <button
+              type="button"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => load(audiences.nextCursor)}
+              className="w-full px-3 py-2 text-left text-indigo-300 transition hover:bg-slate-800/60"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useRef, useState } from "react";
+import type { AuditEntry } from "@/lib/auditLog";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+
+interface AuditEntryNoticeProps {
+  onLoad: (payload: FlowRequestPayload) => void;
+  onError: (message: string) => void;
+}
+
+interface AuditEntryResponse {
+  data?: AuditEntry;
+  error?: string;
+}
+
+/**
+ * Re-opens a past attempt when the audit log links to the builder with
+ * `?audit=<id>`, and says where the loaded flow came from.
+ */
+export default function AuditEntryNotice({
+  onLoad,
+  onError,
+}: AuditEntryNoticeProps) {
+  const [entry, setEntry] = useState<AuditEntry | null>(null);
+
+  // Read through refs so the entry is applied once, with the callbacks
+  // current when it arrives.
+  const onLoadRef = useRef(onLoad);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onLoadRef.current = onLoad;
+    onErrorRef.current = onError;
+  });
+
+  useEffect(() => {
+    const auditId = new URLSearchParams(window.location.search).get("audit");
+    if (!auditId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch(`/api/audit/${auditId}`)
+      .then((response) => response.json())
+      .then(({ data, error }: AuditEntryResponse) => {
+        if (cancelled) {
+          return;
+        }
+        if (!data) {
+          onErrorRef.current(error ?? "Unable to load the audit entry.");
+          return;
+        }
+        onLoadRef.current(data.payload);
+        setEntry(data);
+      })
+      .catch(() => null);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!entry) {
+    return null;
+  }
+
+  return (
+    <p className="mt-4 rounded-lg border border-indigo-500/40 bg-indigo-500/10 px-4 py-3 text-xs text-indigo-100">
+      Re-opened from the audit log: {entry.user}&apos;s{" "}
+      {entry.outcome === "created" ? "successful" : "failed"} attempt on{" "}
+      {new Date(entry.createdAt).toLocaleString()} in{" "}
+      {entry.accountName ?? "the default account"}. Check the account selected
+      above before submitting.
+    </p>
+  );
+}
@@ -0,0 +1,331 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+import type { FlowDraft, FlowDraftSummary } from "@/lib/draftStore";
+import { diffFlowPayloads } from "@/lib/flowDiff";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+
+interface DraftsPanelProps {
+  /** Viewers can open drafts but not save, duplicate or delete them. */
+  canEdit: boolean;
+  flowName: string;
+  getPayload: () => FlowRequestPayload;
+  onLoad: (payload: FlowRequestPayload) => void;
+}
+
+interface DraftResponse<T> {
+  data?: T;
+  error?: string;
+}
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString();
+
+export default function DraftsPanel({
+  canEdit,
+  flowName,
+  getPayload,
+  onLoad,
+}: DraftsPanelProps) {
+  const [drafts, setDrafts] = useState<FlowDraftSummary[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [activeDraft, setActiveDraft] = useState<FlowDraft | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/drafts")
+      .then((response) => response.json())
+      .then((data: DraftResponse<FlowDraftSummary[]>) => {
+        if (!cancelled) {
+          setDrafts(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Unable to load drafts.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const diff = useMemo(() => {
+    if (!activeDraft || compareFrom === null || compareTo === null) {
+      return null;
+    }
+    const from = activeDraft.versions.find((v) => v.version === compareFrom);
+    const to = activeDraft.versions.find((v) => v.version === compareTo);
+    return from && to ? diffFlowPayloads(from.payload, to.payload) : null;
+  }, [activeDraft, compareFrom, compareTo]);
+
+  const request = async <T,>(
+    url: string,
+    init?: RequestInit,
+  ): Promise<T | null> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return null;
+      }
+      const data: DraftResponse<T> = await response.json();
+      if (!response.ok || !data.data) {
+        setError(data.error ?? "Draft request failed.");
+        return null;
+      }
+      return data.data;
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Unexpected error talking to the drafts API.",
+      );
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const selectDraft = (draft: FlowDraft) => {
+    setActiveDraft(draft);
+    setDraftName(draft.name);
+    const latest = draft.versions[draft.versions.length - 1]?.version ?? null;
+    setCompareFrom(latest && latest > 1 ? latest - 1 : latest);
+    setCompareTo(latest);
+  };
+
+  const handleSave = async () => {
+    const payload = getPayload();
+    const draft = activeDraft
+      ? await request<FlowDraft>(`/api/drafts/${activeDraft.id}`, {
+          method: "PUT",
+          body: JSON.stringify({ name: draftName, payload }),
+        })
+      : await request<FlowDraft>("/api/drafts", {
+          method: "POST",
+          body: JSON.stringify({ name: draftName || flowName, payload }),
+        });
+
+    if (draft) {
+      selectDraft(draft);
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    const draft = await request<FlowDraft>(`/api/drafts/${id}`);
+    const latest = draft?.versions[draft.versions.length - 1];
+    if (draft && latest) {
+      selectDraft(draft);
+      onLoad(latest.payload);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    const draft = await request<FlowDraft>(`/api/drafts/${id}/duplicate`, {
+      method: "POST",
+    });
+    if (draft) {
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this draft and its version history?")) {
+      return;
+    }
+    await request(`/api/drafts/${id}`, { method: "DELETE" });
+    if (activeDraft?.id === id) {
+      setActiveDraft(null);
+      setDraftName("");
+    }
+    setRefreshKey((key) => key + 1);
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+        Drafts
+      </h2>
+      <p className="mt-2 text-xs text-slate-400">
+        {activeDraft
+          ? "Saving adds a new version to the open draft."
+          : "Save the current builder state as a named draft."}
+      </p>
+
+      <div className="mt-4 flex gap-2">
+        <input
+          className="min-w-0 flex-1 rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+          placeholder={flowName || "Draft name"}
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isBusy || !canEdit}
+          className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {activeDraft ? "Save version" : "Save draft"}
+        </button>
+      </div>
+      {activeDraft && (
+        <button
+          type="button"
+          onClick={() => {
+            setActiveDraft(null);
+            setDraftName("");
+          }}
+          className="mt-2 text-[11px] text-slate-400 underline-offset-2 hover:underline"
+        >
+          Detach from &quot;{activeDraft.name}&quot; and start a new draft
+        </button>
+      )}
+
+      {error && <p className="mt-3 text-xs text-rose-200">{error}</p>}
+
+      <ul className="mt-4 space-y-2 text-xs">
+        {drafts.map((draft) => (
+          <li
+            key={draft.id}
+            className={`rounded-lg border p-3 ${
+              activeDraft?.id === draft.id
+                ? "border-indigo-500/60 bg-indigo-500/5"
+                : "border-slate-800 bg-slate-950/60"
+            }`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium text-slate-100">{draft.name}</p>
+                <p className="text-[11px] text-slate-500">
+                  v{draft.latestVersion} · {formatTimestamp(draft.updatedAt)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2 text-[11px]">
+                <button
+                  type="button"
+                  onClick={() => handleOpen(draft.id)}
+                  className="text-indigo-200 hover:underline"
+                >
+                  Open
+                </button>
+                {canEdit && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleDuplicate(draft.id)}
+                      className="text-slate-300 hover:underline"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(draft.id)}
+                      className="text-rose-200 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+        {!drafts.length && <li className="text-slate-500">No drafts yet.</li>}
+      </ul>
+
+      {activeDraft && activeDraft.versions.length > 0 && (
+        <div className="mt-6 space-y-3 text-xs">
+          <h3 className="font-semibold uppercase tracking-wide text-slate-400">
+            Version history
+          </h3>
+          <ul className="space-y-1">
+            {[...activeDraft.versions].reverse().map((version) => (
+              <li
+                key={version.version}
+                className="flex items-center justify-between gap-2 text-slate-300"
+              >
+                <span>
+                  v{version.version} · {formatTimestamp(version.savedAt)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onLoad(version.payload)}
+                  className="text-[11px] text-indigo-200 hover:underline"
+                >
+                  Load
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {activeDraft.versions.length > 1 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-slate-400">Compare</span>
+                {[
+                  [compareFrom, setCompareFrom] as const,
+                  [compareTo, setCompareTo] as const,
+                ].map(([value, setValue], index) => (
+                  <select
+                    key={index}
+                    className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-50"
+                    value={value ?? ""}
+                    onChange={(event) => setValue(Number(event.target.value))}
+                  >
+                    {activeDraft.versions.map((version) => (
+                      <option key={version.version} value={version.version}>
+                        v{version.version}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+              {diff && (
+                <ul className="max-h-64 space-y-1 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px]">
+                  {diff.map((entry, index) => (
+                    <li key={index}>
+                      <span className="text-slate-400">{entry.label}</span>{" "}
+                      {entry.change === "added" && (
+                        <span className="text-emerald-300">
+                          + added {entry.after}
+                        </span>
+                      )}
+                      {entry.change === "removed" && (
+                        <span className="text-rose-300">
+                          − removed {entry.before}
+                        </span>
+                      )}
+                      {entry.change === "changed" && (
+                        <span className="text-slate-200">
+                          {entry.field}:{" "}
+                          <span className="text-rose-300">{entry.before}</span>{" "}
+                          →{" "}
+                          <span className="text-emerald-300">{entry.after}</span>
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                  {!diff.length && (
+                    <li className="text-slate-500">No differences.</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from "react";
+import { withAccount } from "@/components/AccountSwitcher";
+import type { FlowRequestPayload, ParsedFlowDefinition } from "@/lib/klaviyo";
+
+interface FlowImportPanelProps {
+  accountId: string | null;
+  onLoad: (payload: FlowRequestPayload) => void;
+}
+
+interface ImportFlowResponse {
+  data?: ParsedFlowDefinition & { flowName: string };
+  error?: string;
+  details?: unknown;
+}
+
+/** Loads an existing Klaviyo flow into the builder as a copy. */
+export default function FlowImportPanel({
+  accountId,
+  onLoad,
+}: FlowImportPanelProps) {
+  const [flowId, setFlowId] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<string[] | null>(null);
+
+  const handleImport = async () => {
+    const id = flowId.trim();
+    if (!id) {
+      setError("Enter the ID of the Klaviyo flow to import.");
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    setNotes(null);
+    try {
+      const response = await fetch(
+        withAccount(`/api/flows/${encodeURIComponent(id)}/import`, accountId),
+      );
+      const data: ImportFlowResponse = await response.json();
+
+      if (!response.ok || !data.data) {
+        setError(data.error ?? "Unable to import the Klaviyo flow.");
+        return;
+      }
+
+      const imported = data.data;
+      onLoad({
+        ...imported,
+        flowName: imported.flowName ? `Copy of ${imported.flowName}` : "",
+      });
+      setNotes(imported.unsupported);
+    } catch (importError) {
+      setError(
+        importError instanceof Error
+          ? importError.message
+          : "Unexpected error importing Klaviyo flow.",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+        Import existing flow
+      </h2>
+      <p className="mt-2 text-xs text-slate-400">
+        Load a flow from Klaviyo into the builder to clone it for another list
+        or brand. This replaces the current form.
+      </p>
+      <div className="mt-4 flex gap-2">
+        <input
+          className="min-w-0 flex-1 rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+          placeholder="Flow ID"
+          value={flowId}
+          onChange={(event) => setFlowId(event.target.value)}
+        />
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={isImporting}
+          className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isImporting ? "Importing..." : "Import"}
+        </button>
+      </div>
+      {error && <p className="mt-3 text-xs text-rose-200">{error}</p>}
+      {notes && (
+        <div className="mt-3 text-xs">
+          {notes.length ? (
+            <>
+              <p className="text-amber-200">
+                Imported with {notes.length} item(s) the builder cannot
+                represent:
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-5 text-amber-100/80">
+                {notes.map((note) => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-emerald-200">
+              Imported every action in the flow.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
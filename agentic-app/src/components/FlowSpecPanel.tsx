@@ -0,0 +1,186 @@
+'use client';
+
+import { ChangeEvent, useState } from "react";
+import { withAccount } from "@/components/AccountSwitcher";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import {
+  FLOW_SPEC_SCHEMA_PATH,
+  parseFlowSpec,
+  serializeFlowSpec,
+  type FlowSpecFormat,
+  type FlowSpecIssue,
+} from "@/lib/flowSpec";
+import { parseIssuePath, type ValidationIssue } from "@/lib/flowValidation";
+
+interface FlowSpecPanelProps {
+  accountId: string | null;
+  getPayload: () => FlowRequestPayload;
+  onLoad: (payload: FlowRequestPayload) => void;
+}
+
+interface DryRunResponse {
+  flow?: FlowRequestPayload;
+  error?: string;
+  errors?: ValidationIssue[];
+}
+
+const fileNameFor = (flowName: string, format: FlowSpecFormat) => {
+  const slug = flowName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "flow"}.flow.${format === "json" ? "json" : "yaml"}`;
+};
+
+export default function FlowSpecPanel({
+  accountId,
+  getPayload,
+  onLoad,
+}: FlowSpecPanelProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [issues, setIssues] = useState<FlowSpecIssue[]>([]);
+  const [importedFile, setImportedFile] = useState<string | null>(null);
+
+  const handleExport = (format: FlowSpecFormat) => {
+    const payload = getPayload();
+    const schemaUrl = `${window.location.origin}${FLOW_SPEC_SCHEMA_PATH}`;
+    const blob = new Blob([serializeFlowSpec(payload, format, schemaUrl)], {
+      type: format === "json" ? "application/json" : "application/yaml",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileNameFor(payload.flowName, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    setIsImporting(true);
+    setIssues([]);
+    setImportedFile(null);
+    try {
+      const spec = parseFlowSpec(await file.text());
+      if (!spec.payload) {
+        setIssues(spec.issues);
+        return;
+      }
+
+      // Validate through a dry run so spec files follow the exact rules
+      // that a real submission would.
+      const response = await fetch(
+        withAccount("/api/flows?dryRun=1", accountId),
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(spec.payload),
+        },
+      );
+      const data: DryRunResponse = await response.json();
+
+      if (!response.ok || !data.flow) {
+        setIssues(
+          data.errors?.map((issue) => ({
+            line: spec.lineOf(parseIssuePath(issue.path)),
+            message: issue.message,
+          })) ?? [
+            {
+              line: null,
+              message: data.error ?? "Unable to validate the flow spec.",
+            },
+          ],
+        );
+        return;
+      }
+
+      onLoad(data.flow);
+      setImportedFile(file.name);
+    } catch (error) {
+      setIssues([
+        {
+          line: null,
+          message:
+            error instanceof Error
+              ? error.message
+              : "Unexpected error importing the flow spec.",
+        },
+      ]);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+        Spec files
+      </h2>
+      <p className="mt-2 text-xs text-slate-400">
+        Export the builder state as a versioned JSON or YAML spec to keep in
+        git, or import a spec to replace the current form.
+      </p>
+      <div className="mt-4 flex flex-wrap gap-2">
+        {(["yaml", "json"] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-200"
+          >
+            Export {format.toUpperCase()}
+          </button>
+        ))}
+        <label
+          className={`rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 ${
+            isImporting ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+          }`}
+        >
+          {isImporting ? "Importing..." : "Import spec"}
+          <input
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/yaml"
+            className="sr-only"
+            disabled={isImporting}
+            onChange={handleImport}
+          />
+        </label>
+      </div>
+      <a
+        href={FLOW_SPEC_SCHEMA_PATH}
+        target="_blank"
+        rel="noreferrer"
+        className="mt-3 inline-block text-[11px] text-slate-400 underline-offset-2 hover:underline"
+      >
+        JSON Schema for editors
+      </a>
+
+      {importedFile && (
+        <p className="mt-3 text-xs text-emerald-200">
+          Loaded {importedFile} into the builder.
+        </p>
+      )}
+      {issues.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-rose-200">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              {issue.line !== null && (
+                <span className="font-mono text-rose-300">
+                  Line {issue.line}:{" "}
+                </span>
+              )}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { DragEvent, useState } from "react";
+import TimezonePicker from "@/components/TimezonePicker";
+import type { DelayUnit, FlowDelayPayload, Weekday } from "@/lib/klaviyo";
+import {
+  effectiveSendTime,
+  isCalendarDate,
+  parseZonedDateTime,
+} from "@/lib/sendWindow";
+import { isIanaTimezone } from "@/lib/timezones";
+
+export interface TimelineStep {
+  id: string;
+  kind: "email" | "sms" | "push" | "conditional-split";
+  title: string;
+  delay: FlowDelayPayload | null;
+  yes?: TimelineStep[];
+  no?: TimelineStep[];
+}
+
+interface FlowTimelineProps {
+  trigger: string;
+  steps: TimelineStep[];
+  /** Moves a step to a new position within the branch it already belongs to. */
+  onMove: (id: string, toIndex: number) => void;
+}
+
+interface DragSource {
+  id: string;
+  list: string;
+}
+
+/** Where a branch has got to: time since the trigger and, with a sample, when. */
+interface TimelinePoint {
+  minutes: number | null;
+  at: Date | null;
+}
+
+const MINUTES_PER_UNIT: Record<DelayUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 60 * 24,
+};
+
+const KIND_STYLES: Record<
+  TimelineStep["kind"],
+  { label: string; tone: string }
+> = {
+  email: { label: "Email", tone: "border-indigo-500/40 text-indigo-200" },
+  sms: { label: "SMS", tone: "border-emerald-500/40 text-emerald-200" },
+  push: { label: "Push", tone: "border-sky-500/40 text-sky-200" },
+  "conditional-split": {
+    label: "Split",
+    tone: "border-amber-500/40 text-amber-200",
+  },
+};
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: "Mon",
+  tuesday: "Tue",
+  wednesday: "Wed",
+  thursday: "Thu",
+  friday: "Fri",
+  saturday: "Sat",
+  sunday: "Sun",
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-50 outline-none transition focus:border-indigo-400";
+
+const hasDelay = (delay: TimelineStep["delay"]): delay is FlowDelayPayload =>
+  Boolean(delay && (delay.untilDate || delay.value > 0));
+
+const delayMinutes = (delay: TimelineStep["delay"]) =>
+  delay && delay.value > 0 ? delay.value * MINUTES_PER_UNIT[delay.unit] : 0;
+
+const describeDelay = (delay: FlowDelayPayload) => {
+  const wait = delay.untilDate
+    ? `Wait until ${delay.untilDate}`
+    : `Wait ${delay.value} ${delay.unit}`;
+  const at = delay.sendAtTime ? `, then send at ${delay.sendAtTime}` : "";
+  const days = delay.weekdays?.length
+    ? ` on ${delay.weekdays.map((day) => WEEKDAY_LABELS[day]).join(", ")}`
+    : "";
+  return `${wait}${at}${days}`;
+};
+
+const formatSendTime = (date: Date, timeZone: string) =>
+  date.toLocaleString(undefined, {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatElapsed = (minutes: number) => {
+  if (minutes <= 0) {
+    return "At trigger";
+  }
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  const mins = Math.round(minutes % 60);
+  const parts = [
+    days ? `${days}d` : "",
+    hours ? `${hours}h` : "",
+    mins ? `${mins}m` : "",
+  ].filter(Boolean);
+  return `+${parts.join(" ")}`;
+};
+
+export default function FlowTimeline({
+  trigger,
+  steps,
+  onMove,
+}: FlowTimelineProps) {
+  const [dragging, setDragging] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [sampleTimezone, setSampleTimezone] = useState("UTC");
+  const [sampleTrigger, setSampleTrigger] = useState("");
+
+  // "profile" and "account" aren't zones, so they stand for the sample
+  // profile's own; so does anything that isn't a valid zone yet.
+  const profileZone = isIanaTimezone(sampleTimezone) ? sampleTimezone : "UTC";
+  const zoneFor = (delay: FlowDelayPayload) =>
+    isIanaTimezone(delay.timezone) ? delay.timezone : profileZone;
+  const triggeredAt = parseZonedDateTime(sampleTrigger, profileZone);
+
+  const advance = (
+    point: TimelinePoint,
+    delay: TimelineStep["delay"],
+  ): TimelinePoint => {
+    if (!hasDelay(delay)) {
+      return point;
+    }
+    if (point.at && triggeredAt) {
+      // A half-typed date can't be placed on the calendar yet.
+      if (delay.untilDate && !isCalendarDate(delay.untilDate)) {
+        return { minutes: null, at: null };
+      }
+      const at = effectiveSendTime(point.at, delay, zoneFor(delay));
+      return {
+        minutes: (at.getTime() - triggeredAt.getTime()) / 60000,
+        at,
+      };
+    }
+    return {
+      minutes:
+        point.minutes === null || delay.untilDate
+          ? null
+          : point.minutes + delayMinutes(delay),
+      at: null,
+    };
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (
+    event: DragEvent<HTMLLIElement>,
+    list: string,
+    index: number,
+  ) => {
+    event.preventDefault();
+    if (dragging && dragging.list === list) {
+      onMove(dragging.id, index);
+    }
+    endDrag();
+  };
+
+  const renderList = (
+    list: TimelineStep[],
+    listKey: string,
+    start: TimelinePoint,
+  ) => {
+    let point = start;
+
+    return (
+      <ol className="space-y-2 border-l border-slate-800 pl-3">
+        {list.map((step, index) => {
+          point = advance(point, step.delay);
+          const reached = point;
+          const style = KIND_STYLES[step.kind];
+          const canDrop =
+            dragging?.list === listKey && dragging.id !== step.id;
+
+          return (
+            <li
+              key={step.id}
+              draggable
+              onDragStart={(event) => {
+                event.stopPropagation();
+                event.dataTransfer.effectAllowed = "move";
+                setDragging({ id: step.id, list: listKey });
+              }}
+              onDragOver={(event) => {
+                // Steps only move within their own branch, so nested lists
+                // must not hand the event up to the split that contains them.
+                event.stopPropagation();
+                if (canDrop) {
+                  event.preventDefault();
+                  setDropTarget(step.id);
+                }
+              }}
+              onDragLeave={() =>
+                setDropTarget((current) =>
+                  current === step.id ? null : current,
+                )
+              }
+              onDrop={(event) => {
+                event.stopPropagation();
+                handleDrop(event, listKey, index);
+              }}
+              onDragEnd={endDrag}
+              className="space-y-2"
+            >
+              {hasDelay(step.delay) && (
+                <p className="text-[11px] text-slate-500">
+                  {describeDelay(step.delay)}
+                </p>
+              )}
+              <div
+                className={`cursor-grab rounded-lg border bg-slate-950/80 px-3 py-2 text-xs transition active:cursor-grabbing ${
+                  dropTarget === step.id
+                    ? "border-indigo-400 ring ring-indigo-500/20"
+                    : style.tone
+                } ${dragging?.id === step.id ? "opacity-50" : ""}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold uppercase tracking-wide">
+                    {style.label}
+                  </span>
+                  <span className="font-mono text-[11px] text-slate-400">
+                    {reached.minutes === null
+                      ? "After a set date"
+                      : formatElapsed(reached.minutes)}
+                  </span>
+                </div>
+                <p className="mt-1 truncate text-slate-300">
+                  {step.title || "Untitled"}
+                </p>
+                {reached.at && (
+                  <p className="mt-1 text-[11px] text-emerald-200">
+                    Sends {formatSendTime(reached.at, profileZone)}
+                  </p>
+                )}
+              </div>
+
+              {step.kind === "conditional-split" && (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {(["yes", "no"] as const).map((branch) => (
+                    <div key={branch}>
+                      <p className="mb-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                        {branch === "yes" ? "Yes" : "No"}
+                      </p>
+                      {step[branch]?.length ? (
+                        renderList(
+                          step[branch] ?? [],
+                          `${step.id}:${branch}`,
+                          reached,
+                        )
+                      ) : (
+                        <p className="text-[11px] text-slate-500">
+                          Exits the flow
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+        Timeline
+      </h2>
+      <p className="mt-2 text-xs text-slate-400">
+        Time since the trigger for each step. Drag steps to reorder them within
+        their branch. Enter a sample trigger time to see when each message
+        would send for a profile in that timezone.
+      </p>
+      <div className="mt-4 grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-[11px] text-slate-400">
+          Sample profile timezone
+          <TimezonePicker
+            className={FIELD_CLASS}
+            value={sampleTimezone}
+            onChange={setSampleTimezone}
+            allowNamed={false}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[11px] text-slate-400">
+          Triggered at
+          <input
+            type="datetime-local"
+            className={FIELD_CLASS}
+            value={sampleTrigger}
+            onChange={(event) => setSampleTrigger(event.target.value)}
+          />
+        </label>
+      </div>
+      <div className="mt-4 space-y-2">
+        <div className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs text-slate-200">
+          <span className="font-semibold uppercase tracking-wide">Trigger</span>
+          <p className="mt-1 truncate text-slate-400">{trigger}</p>
+        </div>
+        {renderList(steps, "root", { minutes: 0, at: triggeredAt })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+interface JsonTreeProps {
+  value: unknown;
+  label?: string;
+  defaultOpenDepth?: number;
+  depth?: number;
+}
+
+const formatPrimitive = (value: unknown) => {
+  if (typeof value === "string") {
+    return <span className="text-emerald-300">&quot;{value}&quot;</span>;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return <span className="text-amber-300">{String(value)}</span>;
+  }
+  return <span className="text-slate-500">null</span>;
+};
+
+export default function JsonTree({
+  value,
+  label,
+  defaultOpenDepth = 2,
+  depth = 0,
+}: JsonTreeProps) {
+  const node = value as JsonValue | undefined;
+  const labelNode = label ? (
+    <span className="text-indigo-200">{label}: </span>
+  ) : null;
+
+  if (node === null || typeof node !== "object") {
+    return (
+      <div className="pl-3">
+        {labelNode}
+        {formatPrimitive(node ?? null)}
+      </div>
+    );
+  }
+
+  const entries: [string, JsonValue][] = Array.isArray(node)
+    ? node.map((item, index) => [String(index), item])
+    : Object.entries(node);
+  const summary = Array.isArray(node)
+    ? `[${entries.length}]`
+    : `{${entries.length}}`;
+
+  return (
+    <details open={depth < defaultOpenDepth} className="pl-3">
+      <summary className="cursor-pointer select-none text-slate-300">
+        {labelNode}
+        <span className="text-slate-500">{summary}</span>
+      </summary>
+      {entries.map(([key, child]) => (
+        <JsonTree
+          key={key}
+          label={key}
+          value={child}
+          depth={depth + 1}
+          defaultOpenDepth={defaultOpenDepth}
+        />
+      ))}
+    </details>
+  );
+}
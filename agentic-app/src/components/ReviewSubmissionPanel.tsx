@@ -0,0 +1,95 @@
+'use client';
+
+import Link from "next/link";
+import { useMemo } from "react";
+import JsonTree from "@/components/JsonTree";
+import type { ValidationIssue } from "@/lib/flowValidation";
+import type { KlaviyoErrorIssue } from "@/lib/klaviyoErrors";
+
+interface ReviewSubmissionPanelProps {
+  /** Set once the flow has been submitted for review. */
+  submitted: { id: string; name: string } | null;
+  /** The last dry run, shown until the flow is submitted. */
+  preview: { payload?: unknown; warnings?: string[] } | null;
+  errors?: Array<ValidationIssue | KlaviyoErrorIssue>;
+  details?: unknown;
+}
+
+export default function ReviewSubmissionPanel({
+  submitted,
+  preview,
+  errors,
+  details,
+}: ReviewSubmissionPanelProps) {
+  const detailsString = useMemo(() => {
+    if (typeof details === "undefined" || details === null) {
+      return null;
+    }
+
+    try {
+      return JSON.stringify(details, null, 2);
+    } catch {
+      return String(details);
+    }
+  }, [details]);
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+        API response
+      </h2>
+      {submitted ? (
+        <div className="mt-3 space-y-2 text-xs text-emerald-200">
+          <p>
+            Flow <span className="font-semibold">{submitted.name}</span>{" "}
+            submitted for review. It&apos;s created in Klaviyo once a second
+            person approves it and it&apos;s published.
+          </p>
+          <Link
+            href={`/reviews?id=${submitted.id}`}
+            className="inline-block text-indigo-300 underline-offset-2 hover:underline"
+          >
+            Open review
+          </Link>
+        </div>
+      ) : preview ? (
+        <div className="mt-3 space-y-3 text-xs">
+          <p className="text-indigo-200">
+            Dry run only. Nothing was sent to Klaviyo.
+          </p>
+          {preview.warnings && preview.warnings.length > 0 && (
+            <ul className="list-disc space-y-1 pl-5 text-amber-200">
+              {preview.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+          <div className="max-h-96 overflow-auto rounded-lg bg-slate-950/80 p-3 font-mono text-[11px] leading-relaxed">
+            <JsonTree value={preview.payload} />
+          </div>
+        </div>
+      ) : errors?.length ? (
+        <ul className="mt-3 space-y-2 text-xs text-rose-200">
+          {errors.map((issue, index) => (
+            <li key={`${issue.path}:${issue.code}:${index}`}>
+              {issue.message}
+              <span className="ml-1 font-mono text-[10px] text-rose-300/70">
+                {issue.code}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-slate-400">
+          Submit the flow for review or preview its payload.
+        </p>
+      )}
+
+      {detailsString && (
+        <pre className="mt-4 max-h-64 overflow-auto rounded-lg bg-slate-950/80 p-3 text-[11px] leading-relaxed text-slate-200">
+          {detailsString}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { ChangeEvent, useMemo, useState } from "react";
+import { withAccount } from "@/components/AccountSwitcher";
+
+interface TemplatePickerProps {
+  accountId: string | null;
+  value: string;
+  onSelect: (templateId: string) => void;
+}
+
+interface TemplateSummary {
+  id: string;
+  name: string;
+  editorType: string;
+  updated: string | null;
+}
+
+interface TemplateDetail extends TemplateSummary {
+  html: string;
+}
+
+interface TemplateListResponse {
+  data?: TemplateSummary[];
+  nextCursor?: string | null;
+  error?: string;
+}
+
+interface TemplateResponse<T> {
+  data?: T;
+  error?: string;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : "—";
+
+export default function TemplatePicker({
+  accountId,
+  value,
+  onSelect,
+}: TemplatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [preview, setPreview] = useState<TemplateDetail | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newHtml, setNewHtml] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visibleTemplates = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term
+      ? templates.filter(
+          (template) =>
+            template.name.toLowerCase().includes(term) ||
+            template.id.toLowerCase() === term,
+        )
+      : templates;
+  }, [search, templates]);
+
+  const request = async <T,>(
+    url: string,
+    init?: RequestInit,
+  ): Promise<T | null> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(withAccount(url, accountId), {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error ?? "Template request failed.");
+        return null;
+      }
+      return data as T;
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Unexpected error talking to the templates API.",
+      );
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const loadTemplates = async (cursor: string | null) => {
+    const data = await request<TemplateListResponse>(
+      cursor
+        ? `/api/templates?cursor=${encodeURIComponent(cursor)}`
+        : "/api/templates",
+    );
+    if (data) {
+      setTemplates((prev) => [...(cursor ? prev : []), ...(data.data ?? [])]);
+      setNextCursor(data.nextCursor ?? null);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen && !templates.length) {
+      void loadTemplates(null);
+    }
+    setIsOpen((open) => !open);
+  };
+
+  const handlePreview = async (templateId: string) => {
+    const data = await request<TemplateResponse<TemplateDetail>>(
+      `/api/templates/${encodeURIComponent(templateId)}`,
+    );
+    if (data?.data) {
+      setPreview(data.data);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setNewHtml(await file.text());
+    setNewName((name) => name || file.name.replace(/\.html?$/i, ""));
+  };
+
+  const handleCreate = async () => {
+    const data = await request<TemplateResponse<TemplateSummary>>(
+      "/api/templates",
+      {
+        method: "POST",
+        body: JSON.stringify({ name: newName, html: newHtml }),
+      },
+    );
+    if (data?.data?.id) {
+      onSelect(data.data.id);
+      setNewName("");
+      setNewHtml(null);
+      void loadTemplates(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleToggle}
+          className="rounded-lg border border-slate-600 px-3 py-1.5 text-xs font-medium text-slate-200 transition hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+        >
+          {isOpen ? "Hide templates" : "Browse templates"}
+        </button>
+        {value && (
+          <button
+            type="button"
+            onClick={() => handlePreview(value)}
+            disabled={isBusy}
+            className="rounded-lg border border-slate-600 px-3 py-1.5 text-xs font-medium text-slate-200 transition hover:bg-slate-500/10 disabled:opacity-60"
+          >
+            Preview selected
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-[11px] text-rose-300">{error}</p>}
+
+      {isOpen && (
+        <div className="space-y-3 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+          <input
+            className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            placeholder="Search loaded templates by name or ID"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          <ul className="max-h-56 space-y-1 overflow-auto text-xs">
+            {visibleTemplates.map((template) => (
+              <li
+                key={template.id}
+                className={`flex items-center justify-between gap-3 rounded-lg px-3 py-2 ${
+                  template.id === value
+                    ? "bg-indigo-500/15 text-indigo-100"
+                    : "text-slate-300 hover:bg-slate-800/60"
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">
+                    {template.name || template.id}
+                  </p>
+                  <p className="text-[11px] text-slate-500">
+                    {template.id} · {template.editorType || "unknown"} ·
+                    updated {formatDate(template.updated)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handlePreview(template.id)}
+                    disabled={isBusy}
+                    className="text-slate-400 transition hover:text-slate-100 disabled:opacity-60"
+                  >
+                    Preview
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(template.id)}
+                    className="text-indigo-300 transition hover:text-indigo-100"
+                  >
+                    Use
+                  </button>
+                </div>
+              </li>
+            ))}
+            {!visibleTemplates.length && !isBusy && (
+              <li className="px-3 py-2 text-slate-500">No templates found.</li>
+            )}
+          </ul>
+          {nextCursor && (
+            <button
+              type="button"
+              onClick={() => loadTemplates(nextCursor)}
+              disabled={isBusy}
+              className="text-xs text-indigo-300 transition hover:text-indigo-100 disabled:opacity-60"
+            >
+              Load more
+            </button>
+          )}
+
+          <div className="space-y-2 border-t border-slate-800 pt-3">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+              New template from HTML
+            </p>
+            <div className="grid gap-2 md:grid-cols-[minmax(0,1fr)_auto_auto]">
+              <input
+                className="rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+                placeholder="Template name"
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+              />
+              <label className="cursor-pointer rounded-lg border border-slate-600 px-3 py-2 text-center text-xs font-medium text-slate-200 transition hover:bg-slate-500/10">
+                {newHtml === null ? "Upload HTML" : "Replace HTML"}
+                <input
+                  type="file"
+                  accept=".html,.htm,text/html"
+                  className="hidden"
+                  onChange={handleFile}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isBusy || !newName.trim() || !newHtml}
+                className="rounded-lg bg-indigo-500 px-3 py-2 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-indigo-500/60"
+              >
+                Create and use
+              </button>
+            </div>
+            {newHtml !== null && (
+              <button
+                type="button"
+                onClick={() =>
+                  setPreview({
+                    id: "",
+                    name: newName || "Uploaded HTML",
+                    editorType: "CODE",
+                    updated: null,
+                    html: newHtml,
+                  })
+                }
+                className="text-xs text-slate-400 transition hover:text-slate-100"
+              >
+                Preview upload
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="space-y-2 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <p className="truncate font-medium text-slate-200">
+              {preview.name || preview.id}
+            </p>
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              className="text-slate-400 transition hover:text-slate-100"
+            >
+              Close
+            </button>
+          </div>
+          {/* An empty sandbox blocks scripts, forms and navigation in template HTML. */}
+          <iframe
+            title={`Preview of ${preview.name || "template"}`}
+            sandbox=""
+            srcDoc={preview.html}
+            className="h-96 w-full rounded-lg border border-slate-800 bg-white"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  effectiveSendTime,
+  offsetChanges,
+  utcOffsetMinutes,
+} from "@/lib/sendWindow";
+import {
+  NAMED_TIMEZONES,
+  isValidTimezone,
+  listTimezones,
+} from "@/lib/timezones";
+
+interface TimezonePickerProps {
+  value: string;
+  onChange: (timezone: string) => void;
+  className: string;
+  /** Offer `profile` and `account` as well as IANA zones. */
+  allowNamed?: boolean;
+  /** Show how a one-day delay behaves across this zone's DST changes. */
+  showDstPreview?: boolean;
+}
+
+const NAMED_LABELS: Record<string, string> = {
+  profile: "Recipient profile timezone",
+  account: "Klaviyo account timezone",
+};
+
+const MAX_MATCHES = 60;
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "+";
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const mins = Math.abs(minutes) % 60;
+  return `UTC${sign}${String(hours).padStart(2, "0")}:${String(mins).padStart(2, "0")}`;
+};
+
+const formatLocal = (date: Date, timeZone: string) =>
+  date.toLocaleString(undefined, {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const searchable = (value: string) =>
+  value.toLowerCase().replace(/[_\s]+/g, " ");
+
+/**
+ * Text input for a delay timezone with a searchable dropdown of IANA zones
+ * and their current UTC offsets. Typing a zone directly still works.
+ */
+export default function TimezonePicker({
+  value,
+  onChange,
+  className,
+  allowNamed = true,
+  showDstPreview = false,
+}: TimezonePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isNamed = NAMED_TIMEZONES.includes(value);
+  const isValid =
+    (allowNamed || !isNamed) && (!value || isValidTimezone(value));
+
+  const matches = useMemo(() => {
+    if (!isOpen) {
+      return [];
+    }
+    const term = searchable(value.trim());
+    const options = [
+      ...(allowNamed ? NAMED_TIMEZONES : []),
+      ...listTimezones(),
+    ];
+    // A complete value lists everything, so the dropdown is also a browser.
+    const filtered =
+      !term || options.includes(value)
+        ? options
+        : options.filter((zone) =>
+            searchable(`${zone} ${NAMED_LABELS[zone] ?? ""}`).includes(term),
+          );
+    const now = new Date();
+    return filtered.slice(0, MAX_MATCHES).map((zone) => ({
+      zone,
+      detail: NAMED_LABELS[zone] ?? formatOffset(utcOffsetMinutes(now, zone)),
+    }));
+  }, [allowNamed, isOpen, value]);
+
+  const preview = useMemo(() => {
+    if (!showDstPreview || !value || isNamed || !isValid) {
+      return null;
+    }
+    // Enter half a day before each change so the one-day wait spans it.
+    return offsetChanges(value, new Date())
+      .slice(0, 2)
+      .map((change) => {
+        const enteredAt = new Date(change.at.getTime() - 12 * 60 * 60 * 1000);
+        return {
+          change,
+          enteredAt,
+          sendAt: effectiveSendTime(
+            enteredAt,
+            { value: 1, unit: "days", timezone: value },
+            value,
+          ),
+        };
+      });
+  }, [isNamed, isValid, showDstPreview, value]);
+
+  return (
+    <div className="relative">
+      <input
+        className={className}
+        placeholder={
+          allowNamed
+            ? "Search timezones, e.g. New York or profile"
+            : "Search timezones, e.g. America/New_York"
+        }
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+      />
+      {isNamed && allowNamed && (
+        <p className="mt-1 text-[11px] text-slate-400">{NAMED_LABELS[value]}</p>
+      )}
+      {!isValid && (
+        <p className="mt-1 text-[11px] text-amber-200">
+          Not an IANA timezone. Pick one from the list.
+        </p>
+      )}
+
+      {isOpen && (
+        <div className="absolute z-10 mt-1 max-h-72 w-full overflow-auto rounded-lg border border-slate-700 bg-slate-950 text-xs shadow-xl shadow-slate-950/60">
+          {/* Options swallow mousedown so the input keeps focus until click. */}
+          {matches.map((option) => (
+            <button
+              key={option.zone}
+              type="button"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => {
+                onChange(option.zone);
+                setIsOpen(false);
+              }}
+              className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left transition hover:bg-slate-800/60 ${
+                option.zone === value ? "text-indigo-200" : "text-slate-300"
+              }`}
+            >
+              <span className="truncate font-medium">{option.zone}</span>
+              <span className="shrink-0 text-[11px] text-slate-500">
+                {option.detail}
+              </span>
+            </button>
+          ))}
+          {!matches.length && (
+            <p className="px-3 py-2 text-slate-500">No timezones match.</p>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <div className="mt-2 space-y-1 text-[11px] text-slate-400">
+          {preview.length ? (
+            <>
+              <p>
+                A 1-day wait is 24 hours, so across a clock change the local
+                send time moves. Set a send time to pin it.
+              </p>
+              {preview.map(({ change, enteredAt, sendAt }) => (
+                <p key={change.at.toISOString()}>
+                  {formatLocal(enteredAt, value)} →{" "}
+                  <span className="text-slate-200">
+                    {formatLocal(sendAt, value)}
+                  </span>{" "}
+                  (clocks go{" "}
+                  {change.offsetAfter > change.offsetBefore
+                    ? "forward"
+                    : "back"}{" "}
+                  on{" "}
+                  {change.at.toLocaleDateString(undefined, {
+                    timeZone: value,
+                    month: "short",
+                    day: "numeric",
+                  })}
+                  )
+                </p>
+              ))}
+            </>
+          ) : (
+            <p>
+              No clock changes in the next year; a 1-day wait always sends at
+              the same local time.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
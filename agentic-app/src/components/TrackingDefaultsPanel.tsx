@@ -0,0 +1,114 @@
+'use client';
+
+import type { ReactNode } from "react";
+import TrackingPresetPicker from "@/components/TrackingPresetPicker";
+import type { TrackingParamPayload } from "@/lib/klaviyo";
+import { TRACKING_TOKENS } from "@/lib/tracking";
+
+export interface TrackingRow {
+  id: string;
+  param: string;
+  value: string;
+}
+
+interface TrackingDefaultsPanelProps {
+  /** Viewers can apply presets but not save or delete them. */
+  canEdit: boolean;
+  rows: TrackingRow[];
+  /** The rows as sent, with incomplete ones dropped. */
+  params: TrackingParamPayload[];
+  onAdd: () => void;
+  onChange: (rows: TrackingRow[]) => void;
+  onApply: (params: TrackingParamPayload[]) => void;
+  fieldClass: (path: string) => string;
+  renderFieldError: (
+    path: string,
+    className?: string,
+    nested?: boolean,
+  ) => ReactNode;
+}
+
+/** Edits the flow's default tracking parameters and applies shared presets. */
+export default function TrackingDefaultsPanel({
+  canEdit,
+  rows,
+  params,
+  onAdd,
+  onChange,
+  onApply,
+  fieldClass,
+  renderFieldError,
+}: TrackingDefaultsPanelProps) {
+  // Incomplete rows are dropped from the payload, so issue indexes only
+  // count the rows that are sent.
+  const rowPath = (id: string) =>
+    `trackingDefaults[${rows
+      .filter((row) => row.param.trim() && row.value.trim())
+      .findIndex((row) => row.id === id)}]`;
+
+  const updateRow = (id: string, field: "param" | "value", value: string) =>
+    onChange(
+      rows.map((item) => (item.id === id ? { ...item, [field]: value } : item)),
+    );
+
+  return (
+    <div className="mt-4 space-y-3 rounded-lg border border-slate-800 bg-slate-950/60 p-4">
+      <div className="flex items-center justify-between gap-4 text-xs">
+        <div>
+          <span className="font-semibold uppercase tracking-wide text-slate-300">
+            Tracking defaults
+          </span>
+          <p className="mt-1 text-[11px] text-slate-400">
+            Added to every email unless the step opts out. Values may use{" "}
+            {TRACKING_TOKENS.map((token, index) => (
+              <span key={token}>
+                {index > 0 && ", "}
+                <code className="text-slate-300">{`{{ ${token} }}`}</code>
+              </span>
+            ))}
+            , filled in for each email.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onAdd}
+          className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+        >
+          Add parameter
+        </button>
+      </div>
+      {rows.map((row) => (
+        <div
+          key={row.id}
+          className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto]"
+        >
+          <input
+            className={fieldClass(`${rowPath(row.id)}.param`)}
+            placeholder="utm_campaign"
+            value={row.param}
+            onChange={(event) => updateRow(row.id, "param", event.target.value)}
+          />
+          <input
+            className={fieldClass(`${rowPath(row.id)}.value`)}
+            placeholder="{{ flow_name }}"
+            value={row.value}
+            onChange={(event) => updateRow(row.id, "value", event.target.value)}
+          />
+          <button
+            type="button"
+            className="rounded-lg border border-transparent px-3 py-2 text-sm text-slate-300 transition hover:border-slate-500 hover:bg-slate-500/10 focus-visible:outline-none focus-visible:ring focus-visible:ring-indigo-500/40"
+            onClick={() => onChange(rows.filter((item) => item.id !== row.id))}
+          >
+            Remove
+          </button>
+          {renderFieldError(rowPath(row.id), "md:col-span-3", true)}
+        </div>
+      ))}
+      <TrackingPresetPicker
+        canEdit={canEdit}
+        params={params}
+        onApply={onApply}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { TrackingParamPayload } from "@/lib/klaviyo";
+import type { TrackingPreset } from "@/lib/trackingPresetStore";
+
+interface TrackingPresetPickerProps {
+  /** Viewers can apply presets but not save or delete them. */
+  canEdit: boolean;
+  /** The flow defaults as they stand, saved when creating a preset. */
+  params: TrackingParamPayload[];
+  onApply: (params: TrackingParamPayload[]) => void;
+}
+
+interface PresetResponse<T> {
+  data?: T;
+  error?: string;
+}
+
+/** Applies, saves and deletes the shared tracking presets. */
+export default function TrackingPresetPicker({
+  canEdit,
+  params,
+  onApply,
+}: TrackingPresetPickerProps) {
+  const [presets, setPresets] = useState<TrackingPreset[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [selectedId, setSelectedId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/tracking-presets")
+      .then((response) => response.json())
+      .then((data: PresetResponse<TrackingPreset[]>) => {
+        if (!cancelled) {
+          setPresets(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError("Unable to load tracking presets.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const selected = presets.find((preset) => preset.id === selectedId) ?? null;
+
+  const request = async <T,>(
+    url: string,
+    init?: RequestInit,
+  ): Promise<T | null> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (response.status === 204) {
+        return null;
+      }
+      const data: PresetResponse<T> = await response.json();
+      if (!response.ok || !data.data) {
+        setError(data.error ?? "Tracking preset request failed.");
+        return null;
+      }
+      return data.data;
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Unexpected error talking to the tracking presets API.",
+      );
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const preset = await request<TrackingPreset>("/api/tracking-presets", {
+      method: "POST",
+      body: JSON.stringify({ name: presetName, params }),
+    });
+    if (preset) {
+      setPresetName("");
+      setSelectedId(preset.id);
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the "${selected.name}" preset?`)) {
+      return;
+    }
+    await request(`/api/tracking-presets/${selected.id}`, {
+      method: "DELETE",
+    });
+    setSelectedId("");
+    setRefreshKey((key) => key + 1);
+  };
+
+  return (
+    <div className="space-y-2 border-t border-slate-800 pt-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="min-w-0 flex-1 rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+          value={selectedId}
+          onChange={(event) => setSelectedId(event.target.value)}
+        >
+          <option value="">
+            {presets.length ? "Choose a preset" : "No saved presets"}
+          </option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name} ({preset.params.length})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!selected}
+          onClick={() => selected && onApply(selected.params)}
+          className="rounded-lg border border-indigo-500 px-3 py-2 text-xs font-medium text-indigo-200 transition hover:bg-indigo-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Apply preset
+        </button>
+        {canEdit && selected && (
+          <button
+            type="button"
+            disabled={isBusy}
+            onClick={handleDelete}
+            className="text-[11px] text-rose-200 hover:underline disabled:opacity-60"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {selected && (
+        <p className="font-mono text-[11px] text-slate-500">
+          {selected.params
+            .map((track) => `${track.param}=${track.value}`)
+            .join(" · ")}
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <input
+            className="min-w-0 flex-1 rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-indigo-400 focus:ring focus:ring-indigo-500/20"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(event) => setPresetName(event.target.value)}
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isBusy || !presetName.trim() || !params.length}
+            className="rounded-lg border border-slate-600 px-3 py-2 text-xs font-medium text-slate-200 transition hover:bg-slate-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Save defaults as preset
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-rose-200">{error}</p>}
+    </div>
+  );
+}
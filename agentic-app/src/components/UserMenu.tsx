@@ -0,0 +1,71 @@
+'use client';
+
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { isRole, type SessionUser } from "@/lib/session";
+
+interface UserMenuProps {
+  /** Called once the signed-in user is known, so pages can gate actions. */
+  onSession?: (user: SessionUser) => void;
+}
+
+interface SessionResponse {
+  data?: { username: string | null; role: string | null };
+}
+
+export default function UserMenu({ onSession }: UserMenuProps) {
+  const router = useRouter();
+  const [user, setUser] = useState<SessionUser | null>(null);
+  // The session is loaded once per page, so the fetch reads the latest
+  // callback through a ref rather than re-running when it changes.
+  const onSessionRef = useRef(onSession);
+
+  useEffect(() => {
+    onSessionRef.current = onSession;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then(({ data }: SessionResponse) => {
+        if (cancelled || !data?.username || !isRole(data.role)) {
+          return;
+        }
+        const session = { username: data.username, role: data.role };
+        setUser(session);
+        onSessionRef.current?.(session);
+      })
+      .catch(() => null);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    router.push("/login");
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-400">
+      <span>
+        {user.username} ·{" "}
+        <span className="text-slate-300">{user.role}</span>
+      </span>
+      <button
+        type="button"
+        onClick={handleSignOut}
+        className="text-slate-400 transition hover:text-slate-100"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
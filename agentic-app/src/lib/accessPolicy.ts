@@ -0,0 +1,59 @@
+import type { Role } from "@/lib/session";
+
+/** Reachable without signing in. */
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"];
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+interface WriteRule {
+  pattern: RegExp;
+  role: Role;
+}
+
+// First match wins. Anything that can reach Klaviyo needs a publisher; local
+// records like drafts, tracking presets, review submissions and bulk job
+// validation only need an editor. Approving a review or a bulk job, or
+// reconciling an unconfirmed create, is a publisher's call.
+const WRITE_RULES: WriteRule[] = [
+  { pattern: /^\/api\/drafts(\/|$)/, role: "editor" },
+  { pattern: /^\/api\/tracking-presets(\/|$)/, role: "editor" },
+  {
+    pattern: /^\/api\/reviews\/[^/]+\/(decision|reconcile)$/,
+    role: "publisher",
+  },
+  { pattern: /^\/api\/reviews(\/|$)/, role: "editor" },
+  {
+    pattern: /^\/api\/bulk\/[^/]+\/(approve|run|reconcile)$/,
+    role: "publisher",
+  },
+  { pattern: /^\/api\/bulk(\/[^/]+)?$/, role: "editor" },
+];
+
+export const isPublicPath = (pathname: string) =>
+  PUBLIC_PATHS.includes(pathname) || pathname.startsWith("/schemas/");
+
+/**
+ * The least role allowed to make a request. Reads are open to every signed-in
+ * user, as are dry runs, which validate and build a payload without creating
+ * anything. Writes not listed in `WRITE_RULES` default to publisher.
+ */
+export const requiredRole = (method: string, url: URL): Role => {
+  const upper = method.toUpperCase();
+  if (READ_METHODS.includes(upper)) {
+    return "viewer";
+  }
+
+  const dryRun = url.searchParams.get("dryRun");
+  if (
+    url.pathname === "/api/flows" &&
+    upper === "POST" &&
+    (dryRun === "1" || dryRun === "true")
+  ) {
+    return "viewer";
+  }
+
+  return (
+    WRITE_RULES.find((rule) => rule.pattern.test(url.pathname))?.role ??
+    "publisher"
+  );
+};
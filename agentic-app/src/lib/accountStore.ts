@@ -0,0 +1,311 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  randomUUID,
+  scryptSync,
+} from "crypto";
+import path from "path";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import { isValidEmail, type ValidationIssue } from "@/lib/flowValidation";
+import type { TrackingParamPayload } from "@/lib/klaviyo";
+import { isValidTimezone, normalizeTimezone } from "@/lib/timezones";
+import { isTrackingParamList } from "@/lib/trackingPresetStore";
+
+/** Brand settings pre-filled into new steps when the account is selected. */
+export interface AccountDefaults {
+  fromName: string;
+  fromEmail: string;
+  replyToEmail: string;
+  trackingParams: TrackingParamPayload[];
+  timezone: string;
+}
+
+interface StoredAccount {
+  id: string;
+  name: string;
+  /** AES-256-GCM ciphertext of the private API key; see `encryptApiKey`. */
+  encryptedApiKey: string;
+  /** Last four characters of the key, so the UI can tell keys apart. */
+  apiKeyHint: string;
+  defaults: AccountDefaults;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An account as returned by the API; the key itself never leaves the server. */
+export type AccountSummary = Omit<StoredAccount, "encryptedApiKey">;
+
+export interface AccountInput {
+  name?: string;
+  apiKey?: string;
+  defaults?: Partial<AccountDefaults>;
+}
+
+export type ApiKeyResolution =
+  | {
+      apiKey: string;
+      account: AccountSummary | null;
+      error?: undefined;
+      status?: undefined;
+    }
+  | { apiKey: null; account: null; error: string; status: number };
+
+const EMPTY_ACCOUNT_DEFAULTS: AccountDefaults = {
+  fromName: "",
+  fromEmail: "",
+  replyToEmail: "",
+  trackingParams: [],
+  timezone: "profile",
+};
+
+const store = createFileStore<StoredAccount>(
+  process.env.ACCOUNTS_DIR ?? path.join(DATA_DIR, "accounts"),
+);
+
+const CIPHER = "aes-256-gcm";
+const KEY_FORMAT_VERSION = "v1";
+
+// Derived once per process; scrypt is deliberately slow.
+let encryptionKey: Buffer | null = null;
+
+const getEncryptionKey = () => {
+  const secret = process.env.ACCOUNTS_SECRET;
+  if (!secret) {
+    throw new Error("ACCOUNTS_SECRET is not configured on the server.");
+  }
+  encryptionKey ??= scryptSync(secret, "klaviyo-flow-builder/accounts", 32);
+  return encryptionKey;
+};
+
+export const isAccountStoreConfigured = () =>
+  Boolean(process.env.ACCOUNTS_SECRET);
+
+const encryptApiKey = (apiKey: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+  return [KEY_FORMAT_VERSION, iv, cipher.getAuthTag(), data]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+};
+
+const decryptApiKey = (encrypted: string) => {
+  const [version, iv, tag, data] = encrypted.split(":");
+  if (version !== KEY_FORMAT_VERSION || !iv || !tag || !data) {
+    throw new Error("Unrecognized API key format.");
+  }
+  const decipher = createDecipheriv(
+    CIPHER,
+    getEncryptionKey(),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+};
+
+const summarize = (account: StoredAccount): AccountSummary => ({
+  id: account.id,
+  name: account.name,
+  apiKeyHint: account.apiKeyHint,
+  defaults: account.defaults,
+  createdAt: account.createdAt,
+  updatedAt: account.updatedAt,
+});
+
+const normalizeDefaults = (
+  defaults: Partial<AccountDefaults> = {},
+  base: AccountDefaults = EMPTY_ACCOUNT_DEFAULTS,
+): AccountDefaults => ({
+  fromName: (defaults.fromName ?? base.fromName).trim(),
+  fromEmail: (defaults.fromEmail ?? base.fromEmail).trim(),
+  replyToEmail: (defaults.replyToEmail ?? base.replyToEmail).trim(),
+  trackingParams: (defaults.trackingParams ?? base.trackingParams)
+    .map((row) => ({
+      param: `${row.param ?? ""}`.trim(),
+      value: `${row.value ?? ""}`.trim(),
+    }))
+    .filter((row) => row.param && row.value),
+  timezone: normalizeTimezone(defaults.timezone ?? base.timezone),
+});
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || typeof value === "string";
+
+/**
+ * Checks a request body has the shape of `AccountInput`: strings where
+ * strings go and a list of `{ param, value }` tracking params. Values are
+ * checked afterwards with `validateAccountInput`.
+ */
+export const isAccountInput = (body: unknown): body is AccountInput => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return false;
+  }
+  const { name, apiKey, defaults } = body as Record<string, unknown>;
+  if (!isOptionalString(name) || !isOptionalString(apiKey)) {
+    return false;
+  }
+  if (defaults === undefined) {
+    return true;
+  }
+  if (!defaults || typeof defaults !== "object" || Array.isArray(defaults)) {
+    return false;
+  }
+  const fields = defaults as Record<string, unknown>;
+  return (
+    (["fromName", "fromEmail", "replyToEmail", "timezone"] as const).every(
+      (field) => isOptionalString(fields[field]),
+    ) &&
+    (fields.trackingParams === undefined ||
+      isTrackingParamList(fields.trackingParams))
+  );
+};
+
+/**
+ * Checks an account create or update. `requireKey` is set on create; updates
+ * keep the stored key when none is given.
+ */
+export const validateAccountInput = (
+  input: AccountInput,
+  requireKey: boolean,
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const defaults = normalizeDefaults(input.defaults);
+
+  if (input.name !== undefined && !input.name.trim()) {
+    issues.push({
+      path: "name",
+      code: "required",
+      message: "Account name is required.",
+    });
+  }
+  if (requireKey && !input.apiKey?.trim()) {
+    issues.push({
+      path: "apiKey",
+      code: "required",
+      message: "A private Klaviyo API key is required.",
+    });
+  }
+  (["fromEmail", "replyToEmail"] as const).forEach((field) => {
+    if (defaults[field] && !isValidEmail(defaults[field])) {
+      issues.push({
+        path: `defaults.${field}`,
+        code: "invalid_email",
+        message: `Default ${field === "fromEmail" ? "from" : "reply-to"} email is not a valid email address.`,
+      });
+    }
+  });
+  if (!isValidTimezone(defaults.timezone)) {
+    issues.push({
+      path: "defaults.timezone",
+      code: "invalid_timezone",
+      message: `Default timezone "${defaults.timezone}" is not an IANA timezone such as America/New_York.`,
+    });
+  }
+
+  return issues;
+};
+
+export const listAccounts = async (): Promise<AccountSummary[]> =>
+  (await store.list())
+    .map(summarize)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const getAccount = async (id: string) => {
+  const account = await store.get(id);
+  return account ? summarize(account) : null;
+};
+
+export const createAccount = async (
+  input: AccountInput,
+): Promise<AccountSummary> => {
+  const apiKey = input.apiKey?.trim() ?? "";
+  const now = new Date().toISOString();
+  return summarize(
+    await store.put({
+      id: randomUUID(),
+      name: input.name?.trim() ?? "",
+      encryptedApiKey: encryptApiKey(apiKey),
+      apiKeyHint: apiKey.slice(-4),
+      defaults: normalizeDefaults(input.defaults),
+      createdAt: now,
+      updatedAt: now,
+    }),
+  );
+};
+
+export const updateAccount = async (
+  id: string,
+  input: AccountInput,
+): Promise<AccountSummary | null> => {
+  const account = await store.get(id);
+  if (!account) {
+    return null;
+  }
+
+  const apiKey = input.apiKey?.trim();
+  return summarize(
+    await store.put({
+      ...account,
+      name: input.name?.trim() || account.name,
+      ...(apiKey
+        ? { encryptedApiKey: encryptApiKey(apiKey), apiKeyHint: apiKey.slice(-4) }
+        : {}),
+      defaults: normalizeDefaults(input.defaults, account.defaults),
+      updatedAt: new Date().toISOString(),
+    }),
+  );
+};
+
+export const deleteAccount = (id: string) => store.remove(id);
+
+/**
+ * Picks the Klaviyo key for an account ID, falling back to `KLAVIYO_API_KEY`
+ * when none is given. On failure `error` and `status` describe the response.
+ */
+export const resolveAccountKey = async (
+  accountId: string | null | undefined,
+): Promise<ApiKeyResolution> => {
+  if (!accountId) {
+    const apiKey = process.env.KLAVIYO_API_KEY;
+    return apiKey
+      ? { apiKey, account: null }
+      : {
+          apiKey: null,
+          account: null,
+          error: "KLAVIYO_API_KEY is not configured on the server.",
+          status: 500,
+        };
+  }
+
+  const account = await store.get(accountId);
+  if (!account) {
+    return {
+      apiKey: null,
+      account: null,
+      error: "Klaviyo account not found.",
+      status: 404,
+    };
+  }
+
+  try {
+    return {
+      apiKey: decryptApiKey(account.encryptedApiKey),
+      account: summarize(account),
+    };
+  } catch {
+    return {
+      apiKey: null,
+      account: null,
+      error: `Unable to decrypt the API key for "${account.name}". Check ACCOUNTS_SECRET.`,
+      status: 500,
+    };
+  }
+};
+
+/** Resolves the key for the `?account=` query parameter on an API request. */
+export const resolveApiKey = (request: Request) =>
+  resolveAccountKey(new URL(request.url).searchParams.get("account"));
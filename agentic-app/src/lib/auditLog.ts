@@ -0,0 +1,230 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import type { AccountSummary } from "@/lib/accountStore";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import { summarizeIssues, type PreparedFlow } from "@/lib/flowPayload";
+import type { FlowRequestPayload, KlaviyoFlowDefinition } from "@/lib/klaviyo";
+import { KLAVIYO_BASE_URL } from "@/lib/klaviyoApi";
+import {
+  KlaviyoNetworkError,
+  postFlow,
+  resourceOf,
+  type KlaviyoAttempt,
+} from "@/lib/klaviyoClient";
+import { mapKlaviyoErrors, type KlaviyoErrorIssue } from "@/lib/klaviyoErrors";
+
+export type AuditSource = "builder" | "bulk" | "cli";
+
+export type AuditOutcome = "created" | "failed";
+
+/** Who is creating the flow, where, and what it belongs to. */
+export interface AuditContext {
+  user: string;
+  account: Pick<AccountSummary, "id" | "name"> | null;
+  source: AuditSource;
+  reviewId?: string;
+  bulkJobId?: string;
+  /** 1-based CSV row for bulk attempts. */
+  bulkRow?: number;
+}
+
+export interface AuditEntry {
+  id: string;
+  createdAt: string;
+  user: string;
+  /** Null when the attempt used `KLAVIYO_API_KEY`. */
+  accountId: string | null;
+  /** Account name at the time, kept in case the account is deleted later. */
+  accountName: string | null;
+  source: AuditSource;
+  reviewId?: string;
+  bulkJobId?: string;
+  bulkRow?: number;
+  flowName: string;
+  outcome: AuditOutcome;
+  /** Klaviyo's HTTP status, or null when Klaviyo couldn't be reached. */
+  status: number | null;
+  flowId: string | null;
+  error: string | null;
+  errors: KlaviyoErrorIssue[];
+  details?: unknown;
+  attempts: KlaviyoAttempt[];
+  payload: FlowRequestPayload;
+  definition: KlaviyoFlowDefinition;
+}
+
+export type AuditEntrySummary = Omit<
+  AuditEntry,
+  "payload" | "definition" | "details" | "errors" | "attempts"
+>;
+
+export interface AuditQuery {
+  /** Matches flow name, user, account name, flow ID or error text. */
+  q?: string;
+  outcome?: AuditOutcome;
+  source?: AuditSource;
+  limit?: number;
+}
+
+export const AUDIT_SOURCES: AuditSource[] = ["builder", "bulk", "cli"];
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = ["created", "failed"];
+
+export const MAX_AUDIT_RESULTS = 200;
+
+type BuiltFlow = Extract<PreparedFlow, { klaviyoPayload: unknown }>;
+
+const store = createFileStore<AuditEntry>(
+  process.env.AUDIT_DIR ?? path.join(DATA_DIR, "audit"),
+);
+
+// Entries never change once written, so searches keep their summaries in
+// memory and only read the entry files they haven't seen yet.
+const summaries = new Map<string, AuditEntrySummary>();
+
+const summarize = (entry: AuditEntry): AuditEntrySummary => ({
+  id: entry.id,
+  createdAt: entry.createdAt,
+  user: entry.user,
+  accountId: entry.accountId,
+  accountName: entry.accountName,
+  source: entry.source,
+  reviewId: entry.reviewId,
+  bulkJobId: entry.bulkJobId,
+  bulkRow: entry.bulkRow,
+  flowName: entry.flowName,
+  outcome: entry.outcome,
+  status: entry.status,
+  flowId: entry.flowId,
+  error: entry.error,
+});
+
+export const isAuditSource = (value: unknown): value is AuditSource =>
+  AUDIT_SOURCES.includes(value as AuditSource);
+
+export const isAuditOutcome = (value: unknown): value is AuditOutcome =>
+  AUDIT_OUTCOMES.includes(value as AuditOutcome);
+
+const loadSummaries = async () => {
+  const ids = await store.ids();
+  const stored = new Set(ids);
+  [...summaries.keys()]
+    .filter((id) => !stored.has(id))
+    .forEach((id) => summaries.delete(id));
+
+  const added = await Promise.all(
+    ids.filter((id) => !summaries.has(id)).map(store.get),
+  );
+  added.forEach((entry) => entry && summaries.set(entry.id, summarize(entry)));
+  return [...summaries.values()];
+};
+
+export const listAuditEntries = async ({
+  q,
+  outcome,
+  source,
+  limit = MAX_AUDIT_RESULTS,
+}: AuditQuery = {}): Promise<AuditEntrySummary[]> => {
+  const needle = q?.trim().toLowerCase();
+  return (await loadSummaries())
+    .filter(
+      (entry) =>
+        (!outcome || entry.outcome === outcome) &&
+        (!source || entry.source === source) &&
+        (!needle ||
+          [
+            entry.flowName,
+            entry.user,
+            entry.accountName,
+            entry.flowId,
+            entry.error,
+          ].some((value) => value?.toLowerCase().includes(needle))),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, Math.max(1, Math.min(Math.trunc(limit), MAX_AUDIT_RESULTS)));
+};
+
+export const getAuditEntry = (id: string) => store.get(id);
+
+/** Returns why the entry couldn't be written, or null once it's stored. */
+const recordAttempt = async (
+  flow: BuiltFlow,
+  context: AuditContext,
+  result: Pick<
+    AuditEntry,
+    "outcome" | "status" | "flowId" | "error" | "errors" | "details" | "attempts"
+  >,
+): Promise<string | null> => {
+  try {
+    await store.put({
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      user: context.user,
+      accountId: context.account?.id ?? null,
+      accountName: context.account?.name ?? null,
+      source: context.source,
+      reviewId: context.reviewId,
+      bulkJobId: context.bulkJobId,
+      bulkRow: context.bulkRow,
+      flowName: flow.payload.flowName,
+      ...result,
+      payload: flow.payload,
+      definition: flow.klaviyoPayload.data.attributes.definition,
+    });
+    return null;
+  } catch (error) {
+    return `The attempt couldn't be written to the audit log: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+};
+
+/**
+ * `postFlow` plus an audit entry for the attempt, whatever its outcome. The
+ * result comes back with `auditError` set if the entry couldn't be written;
+ * the flow may already exist in Klaviyo, so that's the caller's to report
+ * rather than a failed create. A network error is rethrown with the audit
+ * failure appended to its message.
+ */
+export const postFlowWithAudit = async (
+  apiKey: string,
+  flow: BuiltFlow,
+  context: AuditContext,
+  baseUrl = KLAVIYO_BASE_URL,
+) => {
+  let result;
+  try {
+    result = await postFlow(apiKey, flow.klaviyoPayload, baseUrl);
+  } catch (error) {
+    const auditError = await recordAttempt(flow, context, {
+      outcome: "failed",
+      status: null,
+      flowId: null,
+      error:
+        error instanceof Error ? error.message : "Failed to reach Klaviyo API.",
+      errors: [],
+      attempts: error instanceof KlaviyoNetworkError ? error.attempts : [],
+    });
+    throw auditError && error instanceof KlaviyoNetworkError
+      ? new KlaviyoNetworkError(
+          `${error.message} ${auditError}`,
+          error.attempts,
+        )
+      : error;
+  }
+
+  const { ok, status, json, attempts } = result;
+  const errors = ok ? [] : mapKlaviyoErrors(json, flow.actionPaths);
+  const auditError = await recordAttempt(flow, context, {
+    outcome: ok ? "created" : "failed",
+    status,
+    flowId: ok ? (resourceOf(json)?.id ?? null) : null,
+    error: ok
+      ? null
+      : summarizeIssues(errors) || `Klaviyo API request failed with ${status}.`,
+    errors,
+    details: ok ? undefined : (json ?? undefined),
+    attempts,
+  });
+  return { ...result, auditError };
+};
@@ -0,0 +1,292 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { postFlowWithAudit, type AuditContext } from "@/lib/auditLog";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import { prepareFlow, summarizeIssues } from "@/lib/flowPayload";
+import { findPlaceholders, renderFlowTemplate } from "@/lib/flowTemplate";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import {
+  KlaviyoNetworkError,
+  resourceOf,
+  type KlaviyoAttempt,
+} from "@/lib/klaviyoClient";
+import { mapKlaviyoErrors } from "@/lib/klaviyoErrors";
+
+export const MAX_BULK_ROWS = 500;
+
+/**
+ * `unconfirmed` rows had a create request sent without a recorded answer, so
+ * the flow may exist in Klaviyo. Runs skip them until they're reconciled.
+ */
+export type BulkRowStatus =
+  "pending" | "invalid" | "created" | "failed" | "unconfirmed";
+
+export interface BulkJobRow {
+  /** 1-based data row number in the uploaded CSV. */
+  row: number;
+  variables: Record<string, string>;
+  flowName: string;
+  status: BulkRowStatus;
+  flowId?: string;
+  error?: string;
+  details?: unknown;
+  /** Klaviyo request attempts from the most recent create, including retries. */
+  attempts?: KlaviyoAttempt[];
+  warnings: string[];
+}
+
+export interface BulkJobApproval {
+  by: string;
+  at: string;
+}
+
+export interface BulkJob {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Stored account the flows are created in; unset uses `KLAVIYO_API_KEY`. */
+  accountId?: string | null;
+  createdBy: string;
+  /** Set once a publisher other than the creator approves it; runs need it. */
+  approval?: BulkJobApproval;
+  template: FlowRequestPayload;
+  /** Template placeholders with no CSV column; they are sent to Klaviyo as-is. */
+  unmatchedPlaceholders: string[];
+  rows: BulkJobRow[];
+}
+
+export interface BulkJobSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  accountId: string | null;
+  approved: boolean;
+  counts: Record<BulkRowStatus, number>;
+}
+
+const store = createFileStore<BulkJob>(
+  process.env.BULK_JOBS_DIR ?? path.join(DATA_DIR, "bulk-jobs"),
+);
+
+// Guards against two overlapping runs of the same job creating duplicates.
+const runningJobs = new Set<string>();
+
+const countRows = (rows: BulkJobRow[]) =>
+  rows.reduce<Record<BulkRowStatus, number>>(
+    (counts, row) => ({ ...counts, [row.status]: counts[row.status] + 1 }),
+    { pending: 0, invalid: 0, created: 0, failed: 0, unconfirmed: 0 },
+  );
+
+const prepareRow = (
+  template: FlowRequestPayload,
+  variables: Record<string, string>,
+) => {
+  try {
+    return prepareFlow(renderFlowTemplate(template, variables));
+  } catch (error) {
+    return {
+      error:
+        error instanceof Error ? error.message : "Unable to render template.",
+    };
+  }
+};
+
+export const isBulkJobRunning = (id: string) => runningJobs.has(id);
+
+export const listBulkJobs = async (): Promise<BulkJobSummary[]> =>
+  (await store.list())
+    .map((job) => ({
+      id: job.id,
+      name: job.name,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      accountId: job.accountId ?? null,
+      approved: Boolean(job.approval),
+      counts: countRows(job.rows),
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getBulkJob = (id: string) => store.get(id);
+
+export const deleteBulkJob = (id: string) => store.remove(id);
+
+/**
+ * Expands a template once per CSV row and validates each result. Nothing is
+ * sent to Klaviyo until the job is approved and run.
+ */
+export const createBulkJob = async (
+  name: string,
+  template: FlowRequestPayload,
+  csvHeaders: string[],
+  csvRows: Record<string, string>[],
+  createdBy: string,
+  accountId: string | null = null,
+): Promise<BulkJob> => {
+  const now = new Date().toISOString();
+
+  return store.put({
+    id: randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    accountId,
+    createdBy,
+    template,
+    unmatchedPlaceholders: findPlaceholders(template).filter(
+      (placeholder) => !csvHeaders.includes(placeholder),
+    ),
+    rows: csvRows.map((variables, index) => {
+      const prepared = prepareRow(template, variables);
+      return "error" in prepared
+        ? {
+            row: index + 1,
+            variables,
+            flowName: renderFlowTemplate(template, variables).flowName ?? "",
+            status: "invalid",
+            error: prepared.error,
+            warnings: [],
+          }
+        : {
+            row: index + 1,
+            variables,
+            flowName: prepared.payload.flowName,
+            status: "pending",
+            warnings: prepared.warnings,
+          };
+    }),
+  });
+};
+
+/**
+ * Records a publisher's approval, which lets the job run. The template and
+ * rows can't change afterwards, so the approval covers every flow the job
+ * creates. Callers check that the approver isn't the creator.
+ */
+export const approveBulkJob = async (
+  job: BulkJob,
+  by: string,
+): Promise<BulkJob> => {
+  const now = new Date().toISOString();
+  return store.put({ ...job, updatedAt: now, approval: { by, at: now } });
+};
+
+/**
+ * Creates a flow for every pending or failed row, saving after each one so an
+ * interrupted run can be resumed without duplicating flows already created.
+ * A row is saved as `unconfirmed` before its request goes out and only moves
+ * on once Klaviyo answers, so neither a crash mid-request nor a network error
+ * leaves it to be retried.
+ * Each Klaviyo request is written to the audit log as `runBy`. Jobs without
+ * an approval are returned untouched.
+ */
+export const runBulkJob = async (
+  id: string,
+  apiKey: string,
+  runBy: Pick<AuditContext, "user" | "account">,
+): Promise<BulkJob | null> => {
+  const job = await store.get(id);
+  if (!job || !job.approval || runningJobs.has(id)) {
+    return job;
+  }
+
+  runningJobs.add(id);
+  try {
+    for (const row of job.rows) {
+      if (row.status !== "pending" && row.status !== "failed") {
+        continue;
+      }
+
+      const prepared = prepareRow(job.template, row.variables);
+      if ("error" in prepared) {
+        Object.assign(row, { status: "invalid", error: prepared.error });
+      } else {
+        Object.assign(row, {
+          status: "unconfirmed",
+          error: "The create request was sent but its outcome wasn't recorded.",
+          details: undefined,
+          attempts: undefined,
+        });
+        job.updatedAt = new Date().toISOString();
+        await store.put(job);
+
+        try {
+          const { ok, status, json, attempts, auditError } =
+            await postFlowWithAudit(apiKey, prepared, {
+              ...runBy,
+              source: "bulk",
+              bulkJobId: job.id,
+              bulkRow: row.row,
+            });
+          Object.assign(
+            row,
+            ok
+              ? {
+                  status: "created",
+                  flowId: resourceOf(json)?.id,
+                  error: undefined,
+                  details: undefined,
+                  attempts,
+                }
+              : {
+                  status: "failed",
+                  error:
+                    summarizeIssues(
+                      mapKlaviyoErrors(json, prepared.actionPaths),
+                    ) || `Klaviyo API request failed with ${status}.`,
+                  details: json ?? undefined,
+                  attempts,
+                },
+          );
+          if (auditError) {
+            row.warnings = [...row.warnings, auditError];
+          }
+        } catch (error) {
+          Object.assign(row, {
+            status: "unconfirmed",
+            error: `${
+              error instanceof Error
+                ? error.message
+                : "Failed to reach Klaviyo API."
+            } The flow may have been created; check Klaviyo, then reconcile the row.`,
+            attempts:
+              error instanceof KlaviyoNetworkError ? error.attempts : undefined,
+          });
+        }
+      }
+
+      job.updatedAt = new Date().toISOString();
+      await store.put(job);
+    }
+  } finally {
+    runningJobs.delete(id);
+  }
+
+  return job;
+};
+
+/**
+ * Settles an unconfirmed row once someone has checked Klaviyo: with the
+ * flow's ID it's `created`, without one it's `pending` again for the next
+ * run. Returns null if the row isn't unconfirmed.
+ */
+export const reconcileBulkRow = async (
+  job: BulkJob,
+  rowNumber: number,
+  flowId: string | undefined,
+): Promise<BulkJob | null> => {
+  const row = job.rows.find((candidate) => candidate.row === rowNumber);
+  if (row?.status !== "unconfirmed") {
+    return null;
+  }
+
+  Object.assign(
+    row,
+    flowId
+      ? { status: "created", flowId, error: undefined }
+      : { status: "pending", error: undefined },
+  );
+  job.updatedAt = new Date().toISOString();
+  return store.put(job);
+};
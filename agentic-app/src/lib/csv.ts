@@ -0,0 +1,70 @@
+export interface CsvTable {
+  headers: string[];
+  /** One record per data row, keyed by header; blank lines are skipped. */
+  rows: Record<string, string>[];
+}
+
+const parseRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV ends inside a quoted field.");
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((row) => row.some((value) => value.trim()));
+};
+
+/** Parses RFC 4180 CSV whose first row holds the column names. */
+export const parseCsv = (text: string): CsvTable => {
+  const [headerRow, ...dataRows] = parseRecords(text.replace(/^\uFEFF/, ""));
+  const headers = (headerRow ?? []).map((header) => header.trim());
+
+  return {
+    headers,
+    rows: dataRows.map((values) =>
+      Object.fromEntries(
+        headers.map((header, index) => [header, values[index] ?? ""]),
+      ),
+    ),
+  };
+};
@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+
+export interface FlowDraftVersion {
+  version: number;
+  savedAt: string;
+  payload: FlowRequestPayload;
+}
+
+export interface FlowDraft {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: FlowDraftVersion[];
+}
+
+export interface FlowDraftSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  latestVersion: number;
+}
+
+const store = createFileStore<FlowDraft>(
+  process.env.DRAFTS_DIR ?? path.join(DATA_DIR, "drafts"),
+);
+
+const summarize = (draft: FlowDraft): FlowDraftSummary => ({
+  id: draft.id,
+  name: draft.name,
+  createdAt: draft.createdAt,
+  updatedAt: draft.updatedAt,
+  latestVersion: draft.versions[draft.versions.length - 1]?.version ?? 0,
+});
+
+export const isDraftPayload = (
+  payload: unknown,
+): payload is FlowRequestPayload =>
+  Boolean(payload) &&
+  typeof payload === "object" &&
+  Array.isArray((payload as FlowRequestPayload).steps) &&
+  Boolean((payload as FlowRequestPayload).trigger) &&
+  typeof (payload as FlowRequestPayload).trigger === "object";
+
+export const listDrafts = async (): Promise<FlowDraftSummary[]> =>
+  (await store.list())
+    .map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getDraft = (id: string) => store.get(id);
+
+export const createDraft = async (
+  name: string,
+  payload: FlowRequestPayload,
+): Promise<FlowDraft> => {
+  const now = new Date().toISOString();
+  return store.put({
+    id: randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    versions: [{ version: 1, savedAt: now, payload }],
+  });
+};
+
+export const saveDraftVersion = async (
+  id: string,
+  payload: FlowRequestPayload,
+  name?: string,
+): Promise<FlowDraft | null> => {
+  const draft = await getDraft(id);
+  if (!draft) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const latest = draft.versions[draft.versions.length - 1]?.version ?? 0;
+  return store.put({
+    ...draft,
+    name: name || draft.name,
+    updatedAt: now,
+    versions: [
+      ...draft.versions,
+      { version: latest + 1, savedAt: now, payload },
+    ],
+  });
+};
+
+export const renameDraft = async (
+  id: string,
+  name: string,
+): Promise<FlowDraft | null> => {
+  const draft = await getDraft(id);
+  if (!draft) {
+    return null;
+  }
+  return store.put({ ...draft, name, updatedAt: new Date().toISOString() });
+};
+
+export const duplicateDraft = async (id: string): Promise<FlowDraft | null> => {
+  const draft = await getDraft(id);
+  const latest = draft?.versions[draft.versions.length - 1];
+  if (!draft || !latest) {
+    return null;
+  }
+  return createDraft(`${draft.name} (copy)`, latest.payload);
+};
+
+export const deleteDraft = (id: string) => store.remove(id);
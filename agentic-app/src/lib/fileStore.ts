@@ -0,0 +1,85 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/** Root for the app's local JSON stores (drafts, bulk jobs, ...). */
+export const DATA_DIR =
+  process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+
+// Record IDs become file names, so only accept the UUIDs the stores issue.
+const RECORD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export const isRecordId = (id: string) => RECORD_ID_PATTERN.test(id);
+
+export interface FileStore<T extends { id: string }> {
+  /** IDs of the stored records, without reading them. */
+  ids: () => Promise<string[]>;
+  list: () => Promise<T[]>;
+  get: (id: string) => Promise<T | null>;
+  put: (record: T) => Promise<T>;
+  remove: (id: string) => Promise<boolean>;
+}
+
+/** Stores one pretty-printed JSON file per record under `dir`. */
+export const createFileStore = <T extends { id: string }>(
+  dir: string,
+): FileStore<T> => {
+  const recordPath = (id: string) => path.join(dir, `${id}.json`);
+
+  const get = async (id: string): Promise<T | null> => {
+    if (!isRecordId(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(recordPath(id), "utf8")) as T;
+    } catch {
+      return null;
+    }
+  };
+
+  const ids = async () => {
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.replace(/\.json$/, ""));
+  };
+
+  return {
+    get,
+    ids,
+
+    list: async () => {
+      const records: (T | null)[] = await Promise.all((await ids()).map(get));
+      return records.filter((record): record is T => Boolean(record));
+    },
+
+    put: async (record) => {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so a crash never leaves a half-written record behind.
+      // Each write gets its own temp file, so overlapping puts of one record
+      // can't interleave.
+      const target = recordPath(record.id);
+      const temp = `${target}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(record, null, 2), "utf8");
+      await fs.rename(temp, target);
+      return record;
+    },
+
+    remove: async (id) => {
+      if (!isRecordId(id)) {
+        return false;
+      }
+      try {
+        await fs.unlink(recordPath(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import {
+  isSplitStep,
+  type FlowRequestPayload,
+  type FlowStepPayload,
+} from "@/lib/klaviyo";
+
+export interface FlowDiffEntry {
+  /** Step label such as "Step 2 › Yes › 1", or "Flow" for flow-level fields. */
+  label: string;
+  change: "added" | "removed" | "changed";
+  field?: string;
+  before?: string;
+  after?: string;
+}
+
+const describe = (value: unknown) => {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+const stepTitle = (step: FlowStepPayload) => {
+  if (isSplitStep(step)) {
+    return step.internalName || step.kind;
+  }
+  if (step.kind === "sms") {
+    return step.internalName || step.body;
+  }
+  if (step.kind === "push") {
+    return step.internalName || step.title;
+  }
+  return step.internalName || step.subjectLine;
+};
+
+const compareFields = (
+  label: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  entries: FlowDiffEntry[],
+  skip: string[] = [],
+) => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach((key) => {
+    if (skip.includes(key)) {
+      return;
+    }
+    const previous = describe(before[key]);
+    const next = describe(after[key]);
+    if (previous !== next) {
+      entries.push({
+        label,
+        change: "changed",
+        field: key,
+        before: previous,
+        after: next,
+      });
+    }
+  });
+};
+
+const diffSteps = (
+  before: FlowStepPayload[],
+  after: FlowStepPayload[],
+  prefix: string,
+  entries: FlowDiffEntry[],
+) => {
+  const length = Math.max(before.length, after.length);
+
+  for (let index = 0; index < length; index += 1) {
+    const label = `${prefix} ${index + 1}`;
+    const previous = before[index];
+    const next = after[index];
+
+    if (!previous && next) {
+      entries.push({ label, change: "added", after: stepTitle(next) });
+      continue;
+    }
+    if (previous && !next) {
+      entries.push({ label, change: "removed", before: stepTitle(previous) });
+      continue;
+    }
+    if (!previous || !next) {
+      continue;
+    }
+
+    compareFields(
+      label,
+      previous as unknown as Record<string, unknown>,
+      next as unknown as Record<string, unknown>,
+      entries,
+      ["yes", "no"],
+    );
+
+    if (isSplitStep(previous) || isSplitStep(next)) {
+      const previousSplit = isSplitStep(previous) ? previous : null;
+      const nextSplit = isSplitStep(next) ? next : null;
+      diffSteps(
+        previousSplit?.yes ?? [],
+        nextSplit?.yes ?? [],
+        `${label} › Yes ›`,
+        entries,
+      );
+      diffSteps(
+        previousSplit?.no ?? [],
+        nextSplit?.no ?? [],
+        `${label} › No ›`,
+        entries,
+      );
+    }
+  }
+};
+
+/** Lists flow-level and step-by-step differences between two payloads. */
+export const diffFlowPayloads = (
+  before: FlowRequestPayload,
+  after: FlowRequestPayload,
+): FlowDiffEntry[] => {
+  const entries: FlowDiffEntry[] = [];
+
+  compareFields(
+    "Flow",
+    {
+      flowName: before.flowName,
+      trigger: before.trigger,
+      profileFilters: before.profileFilters ?? [],
+      trackingDefaults: before.trackingDefaults ?? [],
+    },
+    {
+      flowName: after.flowName,
+      trigger: after.trigger,
+      profileFilters: after.profileFilters ?? [],
+      trackingDefaults: after.trackingDefaults ?? [],
+    },
+    entries,
+  );
+  diffSteps(before.steps, after.steps, "Step", entries);
+
+  return entries;
+};
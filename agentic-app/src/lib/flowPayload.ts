@@ -0,0 +1,455 @@
+import {
+  DelayUnit,
+  FlowDelayPayload,
+  FlowRequestPayload,
+  FlowStepPayload,
+  KlaviyoFlowDefinition,
+  ProfileFilterPayload,
+  ProfilePropertyOperator,
+  SplitCondition,
+  StepStatus,
+  TriggerFilterPayload,
+  TrackingParamPayload,
+  TriggerPropertyOperator,
+  WEEKDAYS,
+  buildFlowDefinitionWithPaths,
+  isSplitStep,
+} from "@/lib/klaviyo";
+import {
+  SMS_SEGMENT_LENGTH,
+  validateFlowPayload,
+  type ValidationIssue,
+} from "@/lib/flowValidation";
+import { normalizeTimezone } from "@/lib/timezones";
+import { trackingOverrides } from "@/lib/tracking";
+
+const VALID_STATUSES: StepStatus[] = ["draft", "live", "manual", "disabled"];
+const VALID_UNITS: DelayUnit[] = ["minutes", "hours", "days"];
+
+const normalizeDelayUnit = (unit: string | undefined): DelayUnit => {
+  return VALID_UNITS.includes(unit as DelayUnit) ? (unit as DelayUnit) : "days";
+};
+
+const normalizeStatus = (status: string | undefined): StepStatus => {
+  return VALID_STATUSES.includes(status as StepStatus)
+    ? (status as StepStatus)
+    : "draft";
+};
+
+const VALID_PROFILE_OPERATORS: ProfilePropertyOperator[] = [
+  "equals",
+  "not-equals",
+  "contains",
+  "is-set",
+  "is-not-set",
+];
+const VALID_TRIGGER_OPERATORS: TriggerPropertyOperator[] = [
+  "equals",
+  "contains",
+  "greater-than",
+];
+
+// Payloads arrive as JSON, so a typed entry may still be null, a string or an
+// array at runtime.
+const isObject = <T>(value: T): value is T & Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const sanitizeDelay = (
+  delay: FlowDelayPayload | null | undefined,
+): FlowDelayPayload | null => {
+  if (!isObject(delay)) {
+    return null;
+  }
+  const value = typeof delay.value === "number" ? delay.value : 0;
+  const untilDate = `${delay.untilDate ?? ""}`.trim();
+  const sendAtTime = `${delay.sendAtTime ?? ""}`.trim();
+  if (value <= 0 && !untilDate) {
+    return null;
+  }
+
+  return {
+    value: Math.max(0, Math.round(value)),
+    unit: normalizeDelayUnit(delay.unit),
+    timezone: normalizeTimezone(delay.timezone),
+    ...(untilDate ? { untilDate } : {}),
+    ...(sendAtTime ? { sendAtTime } : {}),
+    // An empty list is kept so validation can flag it; leaving the field out
+    // means any day.
+    ...(Array.isArray(delay.weekdays)
+      ? { weekdays: WEEKDAYS.filter((day) => delay.weekdays?.includes(day)) }
+      : {}),
+  };
+};
+
+const sanitizeCondition = (
+  condition: Partial<SplitCondition> | undefined,
+): SplitCondition => {
+  if (condition?.type === "has-done-metric") {
+    return {
+      type: "has-done-metric",
+      metricId: `${condition.metricId ?? ""}`.trim(),
+      count: Math.max(1, Math.round(Number(condition.count) || 1)),
+      timeframeDays: Math.max(
+        1,
+        Math.round(Number(condition.timeframeDays) || 30),
+      ),
+    };
+  }
+
+  if (condition?.type === "trigger-property") {
+    return {
+      type: "trigger-property",
+      property: `${condition.property ?? ""}`.trim(),
+      operator: VALID_TRIGGER_OPERATORS.includes(
+        condition.operator as TriggerPropertyOperator,
+      )
+        ? (condition.operator as TriggerPropertyOperator)
+        : "equals",
+      value: `${condition.value ?? ""}`.trim(),
+    };
+  }
+
+  const profileCondition = condition as
+    | Partial<Extract<SplitCondition, { type: "profile-property" }>>
+    | undefined;
+  return {
+    type: "profile-property",
+    property: `${profileCondition?.property ?? ""}`.trim(),
+    operator: VALID_PROFILE_OPERATORS.includes(
+      profileCondition?.operator as ProfilePropertyOperator,
+    )
+      ? (profileCondition?.operator as ProfilePropertyOperator)
+      : "equals",
+    value: `${profileCondition?.value ?? ""}`.trim(),
+  };
+};
+
+// `prepareFlow` reports steps that aren't objects before they're dropped here.
+const sanitizeSteps = (steps: FlowStepPayload[] | undefined): FlowStepPayload[] =>
+  (Array.isArray(steps) ? steps : [])
+    .filter(isObject)
+    .map((step): FlowStepPayload => {
+      if (isSplitStep(step)) {
+        return {
+          kind: step.kind,
+          internalName: `${step.internalName ?? ""}`.trim(),
+          delay: sanitizeDelay(step.delay),
+          condition: sanitizeCondition(step.condition),
+          yes: sanitizeSteps(step.yes),
+          no: sanitizeSteps(step.no),
+        };
+      }
+
+      if (step.kind === "sms") {
+        return {
+          kind: "sms",
+          internalName: `${step.internalName ?? ""}`.trim(),
+          body: `${step.body ?? ""}`.trim(),
+          mediaUrl: `${step.mediaUrl ?? ""}`.trim(),
+          sender: `${step.sender ?? ""}`.trim(),
+          shortenLinks: Boolean(step.shortenLinks),
+          quietHoursEnabled: Boolean(step.quietHoursEnabled),
+          smartSendingEnabled: Boolean(step.smartSendingEnabled),
+          status: normalizeStatus(step.status),
+          delay: sanitizeDelay(step.delay),
+        };
+      }
+
+      if (step.kind === "push") {
+        return {
+          kind: "push",
+          internalName: `${step.internalName ?? ""}`.trim(),
+          title: `${step.title ?? ""}`.trim(),
+          body: `${step.body ?? ""}`.trim(),
+          deepLink: `${step.deepLink ?? ""}`.trim(),
+          smartSendingEnabled: Boolean(step.smartSendingEnabled),
+          status: normalizeStatus(step.status),
+          delay: sanitizeDelay(step.delay),
+        };
+      }
+
+      return {
+        kind: "email",
+        internalName: `${step.internalName ?? ""}`.trim(),
+        subjectLine: `${step.subjectLine ?? ""}`.trim(),
+        previewText: `${step.previewText ?? ""}`.trim(),
+        fromEmail: `${step.fromEmail ?? ""}`.trim(),
+        fromName: `${step.fromName ?? ""}`.trim(),
+        replyToEmail: `${step.replyToEmail ?? ""}`.trim(),
+        ccEmail: `${step.ccEmail ?? ""}`.trim(),
+        bccEmail: `${step.bccEmail ?? ""}`.trim(),
+        templateId: `${step.templateId ?? ""}`.trim(),
+        smartSendingEnabled: Boolean(step.smartSendingEnabled),
+        status: normalizeStatus(step.status),
+        delay: sanitizeDelay(step.delay),
+        customTracking: sanitizeTracking(step.customTracking),
+        ...(step.inheritTracking === false ? { inheritTracking: false } : {}),
+      };
+    });
+
+const sanitizeTracking = (
+  tracking: TrackingParamPayload[] | undefined,
+): TrackingParamPayload[] =>
+  (Array.isArray(tracking) ? tracking : [])
+    .filter(isObject)
+    .map((track) => ({
+      param: `${track.param ?? ""}`.trim(),
+      value: `${track.value ?? ""}`.trim(),
+    }))
+    .filter((track) => track.param && track.value);
+
+const sanitizeTriggerFilters = (
+  filters: TriggerFilterPayload[] | undefined,
+): TriggerFilterPayload[] =>
+  (Array.isArray(filters) ? filters : [])
+    .filter(isObject)
+    .map((filter) => ({
+      property: `${filter.property ?? ""}`.trim(),
+      operator: VALID_TRIGGER_OPERATORS.includes(filter.operator)
+        ? filter.operator
+        : "equals",
+      value: `${filter.value ?? ""}`.trim(),
+    }))
+    .filter((filter) => filter.property);
+
+const sanitizeProfileFilters = (
+  filters: ProfileFilterPayload[] | undefined,
+): ProfileFilterPayload[] =>
+  (Array.isArray(filters) ? filters : [])
+    .filter(isObject)
+    .map((filter) => ({
+      property: `${filter.property ?? ""}`.trim(),
+      operator: VALID_PROFILE_OPERATORS.includes(filter.operator)
+        ? filter.operator
+        : "equals",
+      value: `${filter.value ?? ""}`.trim(),
+    }))
+    .filter((filter) => filter.property);
+
+export const sanitizePayload = (
+  payload: FlowRequestPayload,
+): FlowRequestPayload => {
+  return {
+    flowName: `${payload.flowName ?? ""}`.trim(),
+    trigger: {
+      type: payload.trigger?.type,
+      id: `${payload.trigger?.id ?? ""}`.trim(),
+      filters:
+        payload.trigger?.type === "metric"
+          ? sanitizeTriggerFilters(payload.trigger.filters)
+          : [],
+    },
+    profileFilters: sanitizeProfileFilters(payload.profileFilters),
+    trackingDefaults: sanitizeTracking(payload.trackingDefaults),
+    steps: sanitizeSteps(payload.steps),
+  };
+};
+
+const branchLabel = (prefix: string, branch: "yes" | "no") =>
+  `${prefix} › ${branch === "yes" ? "Yes" : "No"} ›`;
+
+/**
+ * Finds what sanitizing would otherwise drop or paper over: steps that aren't
+ * objects and delay weekdays that aren't a list of day names.
+ */
+const checkStepShapes = (
+  steps: unknown,
+  pathPrefix: string,
+  labelPrefix: string,
+  issues: ValidationIssue[],
+) => {
+  if (!Array.isArray(steps)) {
+    return;
+  }
+  steps.forEach((step: unknown, index) => {
+    const path = `${pathPrefix}[${index}]`;
+    const label = `${labelPrefix} ${index + 1}`;
+
+    if (!isObject(step)) {
+      issues.push({
+        path,
+        code: "invalid_structure",
+        message: `${label} must be an object with the step's fields.`,
+      });
+      return;
+    }
+
+    const weekdays = isObject(step.delay) ? step.delay.weekdays : undefined;
+    if (
+      weekdays !== undefined &&
+      (!Array.isArray(weekdays) ||
+        weekdays.some((day) => !WEEKDAYS.includes(day)))
+    ) {
+      issues.push({
+        path: `${path}.delay.weekdays`,
+        code: "invalid_format",
+        message: `${label}: delay weekdays must be a list of day names such as ["monday", "friday"].`,
+      });
+    }
+
+    checkStepShapes(step.yes, `${path}.yes`, branchLabel(label, "yes"), issues);
+    checkStepShapes(step.no, `${path}.no`, branchLabel(label, "no"), issues);
+  });
+};
+
+export const collectWarnings = (payload: FlowRequestPayload): string[] => {
+  const warnings: string[] = [];
+
+  const visit = (steps: FlowStepPayload[], prefix: string) => {
+    steps.forEach((step, index) => {
+      const label = `${prefix} ${index + 1}`;
+
+      if (isSplitStep(step)) {
+        if (!step.yes.length || !step.no.length) {
+          warnings.push(
+            `${label} has an empty branch; matching profiles exit the flow there.`,
+          );
+        }
+        visit(step.yes, branchLabel(label, "yes"));
+        visit(step.no, branchLabel(label, "no"));
+        return;
+      }
+
+      if (step.status === "live") {
+        warnings.push(
+          `${label} is set to live and will start sending as soon as the flow is turned on.`,
+        );
+      }
+
+      if (index > 0 && !step.delay) {
+        warnings.push(
+          `${label} has no delay and will send immediately after the previous step.`,
+        );
+      }
+
+      if (step.kind === "sms") {
+        const segments = Math.ceil(step.body.length / SMS_SEGMENT_LENGTH);
+        if (segments > 1) {
+          warnings.push(
+            `${label} SMS body will be sent as ${segments} segments and billed accordingly.`,
+          );
+        }
+        if (!step.quietHoursEnabled) {
+          warnings.push(`${label} SMS may send during quiet hours.`);
+        }
+        return;
+      }
+
+      if (step.kind === "push") {
+        if (!step.deepLink) {
+          warnings.push(`${label} push opens the app home screen.`);
+        }
+        return;
+      }
+
+      if (!step.templateId) {
+        warnings.push(
+          `${label} has no template ID; Klaviyo will create the message without content.`,
+        );
+      }
+
+      if (!step.previewText) {
+        warnings.push(`${label} has no preview text.`);
+      }
+
+      const defaults = payload.trackingDefaults ?? [];
+      if (step.inheritTracking === false && defaults.length) {
+        warnings.push(`${label} does not use the flow tracking defaults.`);
+      } else {
+        trackingOverrides(step, defaults).forEach((track) => {
+          warnings.push(
+            `${label} sets ${track.param} to "${track.value}" instead of the flow default "${track.flowValue}".`,
+          );
+        });
+      }
+    });
+  };
+
+  visit(payload.steps, "Step");
+
+  return warnings;
+};
+
+/** One-line summary for callers that only show a single message. */
+export const summarizeIssues = (issues: { message: string }[]) =>
+  issues.length > 1
+    ? `${issues[0].message} (+${issues.length - 1} more)`
+    : (issues[0]?.message ?? "");
+
+export type PreparedFlow =
+  | {
+      error: string;
+      details?: unknown;
+      /** Field-level problems, present when the payload failed validation. */
+      issues?: ValidationIssue[];
+    }
+  | {
+      payload: FlowRequestPayload;
+      klaviyoPayload: {
+        data: {
+          type: "flow";
+          attributes: {
+            name: string;
+            definition: KlaviyoFlowDefinition;
+          };
+        };
+      };
+      /** Payload path behind each definition action, for mapping API errors. */
+      actionPaths: string[];
+      warnings: string[];
+    };
+
+export const prepareFlow = (rawPayload: FlowRequestPayload): PreparedFlow => {
+  if (!isObject(rawPayload)) {
+    const issues: ValidationIssue[] = [
+      {
+        path: "",
+        code: "invalid_structure",
+        message: "The flow payload must be an object with the flow's fields.",
+      },
+    ];
+    return { error: summarizeIssues(issues), issues };
+  }
+
+  // Sanitizing drops malformed steps, which would shift every later step's
+  // path, so shape problems are reported on their own.
+  const shapeIssues: ValidationIssue[] = [];
+  checkStepShapes(rawPayload.steps, "steps", "Step", shapeIssues);
+  if (shapeIssues.length) {
+    return { error: summarizeIssues(shapeIssues), issues: shapeIssues };
+  }
+
+  const sanitizedPayload = sanitizePayload(rawPayload);
+  const issues = validateFlowPayload(sanitizedPayload);
+
+  if (issues.length) {
+    return { error: summarizeIssues(issues), issues };
+  }
+
+  let built;
+  try {
+    built = buildFlowDefinitionWithPaths(sanitizedPayload);
+  } catch (error) {
+    return {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unable to construct Klaviyo flow payload.",
+    };
+  }
+
+  return {
+    payload: sanitizedPayload,
+    klaviyoPayload: {
+      data: {
+        type: "flow" as const,
+        attributes: {
+          name: sanitizedPayload.flowName,
+          definition: built.definition,
+        },
+      },
+    },
+    actionPaths: built.actionPaths,
+    warnings: collectWarnings(sanitizedPayload),
+  };
+};
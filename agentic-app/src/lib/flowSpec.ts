@@ -0,0 +1,148 @@
+import {
+  LineCounter,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  parseDocument,
+  stringify,
+  type Document,
+} from "yaml";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+
+export const FLOW_SPEC_VERSION = 1;
+
+/** Served from `public/`, so editors can reference it for linting. */
+export const FLOW_SPEC_SCHEMA_PATH = "/schemas/flow-spec.v1.schema.json";
+
+export type FlowSpecFormat = "json" | "yaml";
+
+export type FlowSpecPath = (string | number)[];
+
+export interface FlowSpecIssue {
+  /** 1-based line in the spec file, when the issue can be located. */
+  line: number | null;
+  message: string;
+}
+
+export interface ParsedFlowSpec {
+  payload: FlowRequestPayload | null;
+  issues: FlowSpecIssue[];
+  /** Resolves a path such as `["steps", 1, "yes", 0]` to its line in the file. */
+  lineOf: (path: FlowSpecPath) => number | null;
+}
+
+export const serializeFlowSpec = (
+  payload: FlowRequestPayload,
+  format: FlowSpecFormat,
+  schemaUrl = FLOW_SPEC_SCHEMA_PATH,
+) => {
+  const spec = { schemaVersion: FLOW_SPEC_VERSION, ...payload };
+
+  if (format === "json") {
+    return `${JSON.stringify({ $schema: schemaUrl, ...spec }, null, 2)}\n`;
+  }
+  // YAML has no `$schema` key; the YAML language server reads this comment.
+  return `# yaml-language-server: $schema=${schemaUrl}\n${stringify(spec)}`;
+};
+
+const locate = (
+  document: Document,
+  lineCounter: LineCounter,
+  path: FlowSpecPath,
+): number | null => {
+  // Walk up the path until we reach a node that exists in the file.
+  for (let depth = path.length; depth > 0; depth -= 1) {
+    const parent = document.getIn(path.slice(0, depth - 1), true);
+    const key = path[depth - 1];
+
+    if (isMap(parent)) {
+      const pair = parent.items.find(
+        (item) => isScalar(item.key) && item.key.value === key,
+      );
+      const range = isScalar(pair?.key) ? pair.key.range : undefined;
+      if (range) {
+        return lineCounter.linePos(range[0]).line;
+      }
+    }
+
+    if (isSeq(parent) && typeof key === "number") {
+      const item = parent.items[key];
+      const range = isNode(item) ? item.range : undefined;
+      if (range) {
+        return lineCounter.linePos(range[0]).line;
+      }
+    }
+  }
+
+  return document.contents ? 1 : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Parses a JSON or YAML flow spec. JSON is valid YAML, so both go through
+ * the same parser and share line tracking.
+ */
+export const parseFlowSpec = (text: string): ParsedFlowSpec => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: false });
+  const lineOf = (path: FlowSpecPath) => locate(document, lineCounter, path);
+
+  if (document.errors.length) {
+    return {
+      payload: null,
+      lineOf,
+      issues: document.errors.map((error) => ({
+        line: lineCounter.linePos(error.pos[0]).line,
+        message: error.message,
+      })),
+    };
+  }
+
+  const spec: unknown = document.toJS();
+  if (!isRecord(spec)) {
+    return {
+      payload: null,
+      lineOf,
+      issues: [{ line: 1, message: "A flow spec must be an object." }],
+    };
+  }
+
+  const issues: FlowSpecIssue[] = [];
+  const { schemaVersion } = spec;
+  const payload = { ...spec };
+  delete payload.$schema;
+  delete payload.schemaVersion;
+
+  if (schemaVersion === undefined) {
+    issues.push({
+      line: 1,
+      message: `Missing schemaVersion. This builder reads version ${FLOW_SPEC_VERSION}.`,
+    });
+  } else if (schemaVersion !== FLOW_SPEC_VERSION) {
+    issues.push({
+      line: lineOf(["schemaVersion"]),
+      message: `Unsupported schemaVersion ${JSON.stringify(schemaVersion)}. This builder reads version ${FLOW_SPEC_VERSION}.`,
+    });
+  }
+  if (!isRecord(payload.trigger)) {
+    issues.push({
+      line: lineOf(["trigger"]),
+      message: "trigger must be an object with a type and id.",
+    });
+  }
+  if (!Array.isArray(payload.steps)) {
+    issues.push({
+      line: lineOf(["steps"]),
+      message: "steps must be a list.",
+    });
+  }
+
+  return {
+    payload: issues.length ? null : (payload as unknown as FlowRequestPayload),
+    issues,
+    lineOf,
+  };
+};
@@ -0,0 +1,56 @@
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { isTrackingToken } from "@/lib/tracking";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === "string") {
+    return map(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Lists the distinct `{{placeholder}}` names used anywhere in a template. The
+ * tracking tokens (`{{ flow_name }}` etc.) are filled when the flow is built,
+ * so they aren't placeholders.
+ */
+export const findPlaceholders = (template: FlowRequestPayload): string[] => {
+  const names = new Set<string>();
+  mapStrings(template, (text) => {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!isTrackingToken(match[1])) {
+        names.add(match[1]);
+      }
+    }
+    return text;
+  });
+  return [...names];
+};
+
+/**
+ * Fills `{{placeholder}}`s from one row of variables. Placeholders without a
+ * matching variable are left alone, since Klaviyo uses the same syntax for
+ * its own personalization tags (e.g. `{{ first_name }}`), and tracking tokens
+ * are always left for the flow build to fill.
+ */
+export const renderFlowTemplate = (
+  template: FlowRequestPayload,
+  variables: Record<string, string>,
+): FlowRequestPayload =>
+  mapStrings(template, (text) =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      !isTrackingToken(name) &&
+      Object.prototype.hasOwnProperty.call(variables, name)
+        ? variables[name]
+        : placeholder,
+    ),
+  ) as FlowRequestPayload;
@@ -0,0 +1,488 @@
+import {
+  isSplitStep,
+  type FlowDelayPayload,
+  type FlowRequestPayload,
+  type FlowStepPayload,
+  type MessageStepPayload,
+  type TrackingParamPayload,
+} from "@/lib/klaviyo";
+import { isCalendarDate, isTimeOfDay } from "@/lib/sendWindow";
+import { isValidTimezone } from "@/lib/timezones";
+import { TRACKING_TOKENS, unknownTrackingTokens } from "@/lib/tracking";
+
+export type ValidationCode =
+  | "required"
+  | "too_long"
+  | "invalid_email"
+  | "invalid_url"
+  | "invalid_format"
+  | "invalid_timezone"
+  | "not_numeric"
+  | "duplicate"
+  | "unsupported"
+  | "invalid_structure"
+  | "not_found";
+
+export interface ValidationIssue {
+  /** Location in the request payload, e.g. `steps[1].yes[0].fromEmail`. */
+  path: string;
+  code: ValidationCode;
+  message: string;
+}
+
+export const SUBJECT_MAX_LENGTH = 150;
+export const SMS_MAX_LENGTH = 1600;
+export const SMS_SEGMENT_LENGTH = 160;
+export const PUSH_TITLE_MAX_LENGTH = 65;
+export const PUSH_BODY_MAX_LENGTH = 240;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SENDER_PATTERN = /^(\+[1-9]\d{6,14}|\d{5,6}|[A-Za-z0-9 ]{1,11})$/;
+
+type FieldFormat = "email" | "http-url" | "url-scheme" | "sender";
+
+interface FieldRule {
+  field: string;
+  label: string;
+  required?: boolean;
+  maxLength?: number;
+  format?: FieldFormat;
+}
+
+type MessageKind = NonNullable<MessageStepPayload["kind"]>;
+
+const MESSAGE_RULES: Record<MessageKind, FieldRule[]> = {
+  email: [
+    {
+      field: "subjectLine",
+      label: "subject line",
+      required: true,
+      maxLength: SUBJECT_MAX_LENGTH,
+    },
+    { field: "fromEmail", label: "from email", required: true, format: "email" },
+    { field: "fromName", label: "from name", required: true },
+    { field: "replyToEmail", label: "reply-to email", format: "email" },
+    { field: "ccEmail", label: "CC email", format: "email" },
+    { field: "bccEmail", label: "BCC email", format: "email" },
+  ],
+  sms: [
+    {
+      field: "body",
+      label: "SMS body",
+      required: true,
+      maxLength: SMS_MAX_LENGTH,
+    },
+    { field: "mediaUrl", label: "media URL", format: "http-url" },
+    { field: "sender", label: "sender", format: "sender" },
+  ],
+  push: [
+    {
+      field: "title",
+      label: "push title",
+      required: true,
+      maxLength: PUSH_TITLE_MAX_LENGTH,
+    },
+    {
+      field: "body",
+      label: "push body",
+      required: true,
+      maxLength: PUSH_BODY_MAX_LENGTH,
+    },
+    { field: "deepLink", label: "deep link", format: "url-scheme" },
+  ],
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+export const isValidEmail = (value: string) => EMAIL_PATTERN.test(value);
+
+const FORMAT_CHECKS: Record<
+  FieldFormat,
+  { test: (value: string) => boolean; code: ValidationCode; problem: string }
+> = {
+  email: {
+    test: isValidEmail,
+    code: "invalid_email",
+    problem: "is not a valid email address",
+  },
+  "http-url": {
+    test: isHttpUrl,
+    code: "invalid_url",
+    problem: "must be an http(s) URL",
+  },
+  "url-scheme": {
+    test: (value) => /^[a-z][a-z0-9+.-]*:\/\//i.test(value),
+    code: "invalid_url",
+    problem: "must include a scheme (e.g. myapp://cart)",
+  },
+  sender: {
+    test: (value) => SENDER_PATTERN.test(value),
+    code: "invalid_format",
+    problem:
+      "must be an E.164 phone number, short code, or alphanumeric ID of up to 11 characters",
+  },
+};
+
+const addIssue = (
+  issues: ValidationIssue[],
+  path: string,
+  code: ValidationCode,
+  message: string,
+) => {
+  issues.push({ path, code, message });
+};
+
+const needsValue = (operator: string) =>
+  operator !== "is-set" && operator !== "is-not-set";
+
+const isNumeric = (value: string) =>
+  value.trim() !== "" && Number.isFinite(Number(value));
+
+const validateDelay = (
+  delay: FlowDelayPayload | null,
+  path: string,
+  label: string,
+  issues: ValidationIssue[],
+) => {
+  if (!delay) {
+    return;
+  }
+  if (delay.untilDate) {
+    if (!isCalendarDate(delay.untilDate)) {
+      addIssue(
+        issues,
+        `${path}.delay.untilDate`,
+        "invalid_format",
+        `${label}: delay-until date must be a date like 2026-11-27.`,
+      );
+    }
+    if (delay.weekdays) {
+      addIssue(
+        issues,
+        `${path}.delay.weekdays`,
+        "unsupported",
+        `${label}: a delay until a date can't also be limited to days of the week.`,
+      );
+    }
+  } else if (!Number.isInteger(delay.value) || delay.value <= 0) {
+    addIssue(
+      issues,
+      `${path}.delay.value`,
+      "invalid_format",
+      `${label}: delay must be a whole number greater than zero.`,
+    );
+  }
+  if (delay.sendAtTime && !isTimeOfDay(delay.sendAtTime)) {
+    addIssue(
+      issues,
+      `${path}.delay.sendAtTime`,
+      "invalid_format",
+      `${label}: send time must be a 24-hour time like 10:00.`,
+    );
+  }
+  if (delay.weekdays && !delay.weekdays.length) {
+    addIssue(
+      issues,
+      `${path}.delay.weekdays`,
+      "required",
+      `${label}: pick at least one day to send on.`,
+    );
+  }
+  if (!isValidTimezone(delay.timezone || "profile")) {
+    addIssue(
+      issues,
+      `${path}.delay.timezone`,
+      "invalid_timezone",
+      `${label}: "${delay.timezone}" is not an IANA timezone such as America/New_York.`,
+    );
+  }
+};
+
+// Shared by step tracking and the flow defaults; `label` prefixes messages.
+const validateTracking = (
+  tracking: TrackingParamPayload[],
+  path: string,
+  label: string,
+  issues: ValidationIssue[],
+) => {
+  const seen = new Set<string>();
+  tracking.forEach((track, index) => {
+    const param = track.param.toLowerCase();
+    if (seen.has(param)) {
+      addIssue(
+        issues,
+        `${path}[${index}].param`,
+        "duplicate",
+        `${label} tracking parameter "${track.param}" is set more than once.`,
+      );
+    }
+    seen.add(param);
+
+    const unknown = unknownTrackingTokens(track.value);
+    if (unknown.length) {
+      addIssue(
+        issues,
+        `${path}[${index}].value`,
+        "unsupported",
+        `${label} tracking parameter "${track.param}" uses unknown token {{ ${unknown[0]} }}. Use one of: ${TRACKING_TOKENS.join(", ")}.`,
+      );
+    }
+  });
+};
+
+const validateMessageStep = (
+  step: MessageStepPayload,
+  path: string,
+  label: string,
+  issues: ValidationIssue[],
+) => {
+  const fields = step as unknown as Record<string, unknown>;
+
+  for (const rule of MESSAGE_RULES[step.kind ?? "email"]) {
+    const value = `${fields[rule.field] ?? ""}`;
+    const fieldPath = `${path}.${rule.field}`;
+
+    if (!value) {
+      if (rule.required) {
+        addIssue(
+          issues,
+          fieldPath,
+          "required",
+          `${label}: ${rule.label} is required.`,
+        );
+      }
+      continue;
+    }
+    if (rule.maxLength && value.length > rule.maxLength) {
+      addIssue(
+        issues,
+        fieldPath,
+        "too_long",
+        `${label}: ${rule.label} exceeds ${rule.maxLength} characters.`,
+      );
+    }
+    if (rule.format && !FORMAT_CHECKS[rule.format].test(value)) {
+      const check = FORMAT_CHECKS[rule.format];
+      addIssue(
+        issues,
+        fieldPath,
+        check.code,
+        `${label}: ${rule.label} ${check.problem}.`,
+      );
+    }
+  }
+
+  if (step.kind !== "sms" && step.kind !== "push") {
+    validateTracking(
+      step.customTracking ?? [],
+      `${path}.customTracking`,
+      `${label}:`,
+      issues,
+    );
+  }
+};
+
+const validateSteps = (
+  steps: FlowStepPayload[],
+  payload: FlowRequestPayload,
+  pathPrefix: string,
+  labelPrefix: string,
+  issues: ValidationIssue[],
+) => {
+  steps.forEach((step, index) => {
+    const path = `${pathPrefix}[${index}]`;
+    const label = `${labelPrefix} ${index + 1}`;
+
+    validateDelay(step.delay, path, label, issues);
+
+    if (!isSplitStep(step)) {
+      validateMessageStep(step, path, label, issues);
+      return;
+    }
+
+    if (index !== steps.length - 1) {
+      addIssue(
+        issues,
+        path,
+        "invalid_structure",
+        `${label} is a split and must be the last step in its branch.`,
+      );
+    }
+
+    const { condition } = step;
+    const conditionPath = `${path}.condition`;
+
+    if (step.kind === "trigger-split") {
+      if (condition.type !== "trigger-property") {
+        addIssue(
+          issues,
+          `${conditionPath}.type`,
+          "unsupported",
+          `${label} is a trigger split and needs an event property condition.`,
+        );
+      }
+      if (payload.trigger.type !== "metric") {
+        addIssue(
+          issues,
+          path,
+          "unsupported",
+          `${label} is a trigger split, which requires a metric-triggered flow.`,
+        );
+      }
+    } else if (condition.type === "trigger-property") {
+      addIssue(
+        issues,
+        `${conditionPath}.type`,
+        "unsupported",
+        `${label} is a conditional split and cannot use an event property condition.`,
+      );
+    }
+
+    if (condition.type === "has-done-metric") {
+      if (!condition.metricId) {
+        addIssue(
+          issues,
+          `${conditionPath}.metricId`,
+          "required",
+          `${label}: metric ID is required for its condition.`,
+        );
+      }
+    } else {
+      if (!condition.property) {
+        addIssue(
+          issues,
+          `${conditionPath}.property`,
+          "required",
+          `${label}: property name is required for its condition.`,
+        );
+      }
+      if (needsValue(condition.operator) && !condition.value) {
+        addIssue(
+          issues,
+          `${conditionPath}.value`,
+          "required",
+          `${label} needs a value to compare against.`,
+        );
+      } else if (
+        condition.operator === "greater-than" &&
+        !isNumeric(condition.value)
+      ) {
+        addIssue(
+          issues,
+          `${conditionPath}.value`,
+          "not_numeric",
+          `${label} compares with greater-than and needs a numeric value.`,
+        );
+      }
+    }
+
+    if (!step.yes.length && !step.no.length) {
+      addIssue(
+        issues,
+        path,
+        "invalid_structure",
+        `${label} needs at least one step in its yes or no branch.`,
+      );
+    }
+
+    validateSteps(step.yes, payload, `${path}.yes`, `${label} › Yes ›`, issues);
+    validateSteps(step.no, payload, `${path}.no`, `${label} › No ›`, issues);
+  });
+};
+
+/**
+ * Validates a sanitized flow payload and returns every problem found, each
+ * tied to the payload path it refers to. Used by both the builder form and
+ * the API, so they always agree on what is valid.
+ */
+export const validateFlowPayload = (
+  payload: FlowRequestPayload,
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!payload.flowName) {
+    addIssue(issues, "flowName", "required", "Flow name is required.");
+  }
+
+  if (!["list", "segment", "metric"].includes(payload.trigger.type)) {
+    addIssue(
+      issues,
+      "trigger.type",
+      "unsupported",
+      "Unsupported trigger type. Only list, segment, and metric triggers are supported.",
+    );
+  }
+
+  if (!payload.trigger.id) {
+    addIssue(
+      issues,
+      "trigger.id",
+      "required",
+      "Trigger identifier is required.",
+    );
+  }
+
+  (payload.trigger.filters ?? []).forEach((filter, index) => {
+    const path = `trigger.filters[${index}].value`;
+    if (!filter.value) {
+      addIssue(
+        issues,
+        path,
+        "required",
+        `Trigger filter ${index + 1} needs a value to compare against.`,
+      );
+    } else if (filter.operator === "greater-than" && !isNumeric(filter.value)) {
+      addIssue(
+        issues,
+        path,
+        "not_numeric",
+        `Trigger filter ${index + 1} compares with greater-than and needs a numeric value.`,
+      );
+    }
+  });
+
+  (payload.profileFilters ?? []).forEach((filter, index) => {
+    if (!filter.value && needsValue(filter.operator)) {
+      addIssue(
+        issues,
+        `profileFilters[${index}].value`,
+        "required",
+        `Profile filter ${index + 1} needs a value to compare against.`,
+      );
+    }
+  });
+
+  validateTracking(
+    payload.trackingDefaults ?? [],
+    "trackingDefaults",
+    "Flow defaults:",
+    issues,
+  );
+
+  if (!payload.steps.length) {
+    addIssue(
+      issues,
+      "steps",
+      "required",
+      "At least one message step is required.",
+    );
+  }
+
+  validateSteps(payload.steps, payload, "steps", "Step", issues);
+
+  return issues;
+};
+
+/** Splits `steps[1].yes[0].fromEmail` into `["steps", 1, "yes", 0, "fromEmail"]`. */
+export const parseIssuePath = (path: string): (string | number)[] =>
+  path
+    .split(/\.|\[(\d+)\]/)
+    .filter((part) => part !== undefined && part !== "")
+    .map((part) => (/^\d+$/.test(part) ? Number(part) : part));
@@ -0,0 +1,925 @@
+import { effectiveTracking, fillTrackingTokens } from "@/lib/tracking";
+
+export type TriggerType = "list" | "segment" | "metric";
+
+export type StepStatus = "draft" | "live" | "manual" | "disabled";
+
+export type DelayUnit = "minutes" | "hours" | "days";
+
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+export const WEEKDAYS: Weekday[] = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+export type StepKind =
+  | "email"
+  | "sms"
+  | "push"
+  | "conditional-split"
+  | "trigger-split";
+
+export type ProfilePropertyOperator =
+  | "equals"
+  | "not-equals"
+  | "contains"
+  | "is-set"
+  | "is-not-set";
+
+export type TriggerPropertyOperator = "equals" | "contains" | "greater-than";
+
+export interface FlowDelayPayload {
+  value: number;
+  unit: DelayUnit;
+  timezone: string;
+  /** Local time of day to send at once the wait is over, as 24-hour `HH:MM`. */
+  sendAtTime?: string;
+  /** Days the message may go out on; a wait ending on another day rolls forward. */
+  weekdays?: Weekday[];
+  /** Wait until this date (`YYYY-MM-DD`) instead of `value` `unit`s. */
+  untilDate?: string;
+}
+
+export interface TrackingParamPayload {
+  param: string;
+  value: string;
+}
+
+export interface EmailStepPayload {
+  kind?: "email";
+  internalName: string;
+  subjectLine: string;
+  previewText: string;
+  fromEmail: string;
+  fromName: string;
+  replyToEmail: string;
+  ccEmail: string;
+  bccEmail: string;
+  templateId: string;
+  smartSendingEnabled: boolean;
+  status: StepStatus;
+  delay: FlowDelayPayload | null;
+  /** The step's own params; they override flow defaults of the same name. */
+  customTracking: TrackingParamPayload[];
+  /** Whether the flow's `trackingDefaults` apply; unset means they do. */
+  inheritTracking?: boolean;
+}
+
+export interface SmsStepPayload {
+  kind: "sms";
+  internalName: string;
+  body: string;
+  mediaUrl: string;
+  /** Sending phone number or alphanumeric sender ID; blank uses the account default. */
+  sender: string;
+  shortenLinks: boolean;
+  quietHoursEnabled: boolean;
+  smartSendingEnabled: boolean;
+  status: StepStatus;
+  delay: FlowDelayPayload | null;
+}
+
+export interface PushStepPayload {
+  kind: "push";
+  internalName: string;
+  title: string;
+  body: string;
+  deepLink: string;
+  smartSendingEnabled: boolean;
+  status: StepStatus;
+  delay: FlowDelayPayload | null;
+}
+
+export type SplitCondition =
+  | {
+      type: "profile-property";
+      property: string;
+      operator: ProfilePropertyOperator;
+      value: string;
+    }
+  | {
+      type: "has-done-metric";
+      metricId: string;
+      /** Matches profiles that performed the metric at least this many times. */
+      count: number;
+      timeframeDays: number;
+    }
+  | {
+      type: "trigger-property";
+      property: string;
+      operator: TriggerPropertyOperator;
+      value: string;
+    };
+
+export interface SplitStepPayload {
+  kind: "conditional-split" | "trigger-split";
+  internalName: string;
+  delay: FlowDelayPayload | null;
+  condition: SplitCondition;
+  yes: FlowStepPayload[];
+  no: FlowStepPayload[];
+}
+
+export type MessageStepPayload =
+  | EmailStepPayload
+  | SmsStepPayload
+  | PushStepPayload;
+
+export type FlowStepPayload = MessageStepPayload | SplitStepPayload;
+
+export interface TriggerFilterPayload {
+  property: string;
+  operator: TriggerPropertyOperator;
+  value: string;
+}
+
+export interface ProfileFilterPayload {
+  property: string;
+  operator: ProfilePropertyOperator;
+  value: string;
+}
+
+export interface FlowRequestPayload {
+  flowName: string;
+  trigger: {
+    type: TriggerType;
+    id: string;
+    /** Event property filters; only honored for metric triggers. */
+    filters?: TriggerFilterPayload[];
+  };
+  profileFilters?: ProfileFilterPayload[];
+  /** Tracking params every email step gets unless it opts out. */
+  trackingDefaults?: TrackingParamPayload[];
+  steps: FlowStepPayload[];
+}
+
+interface KlaviyoFilterCondition {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface KlaviyoConditionGroups {
+  condition_groups: {
+    conditions: KlaviyoFilterCondition[];
+  }[];
+}
+
+export interface KlaviyoFlowAction {
+  temporary_id: string;
+  type:
+    | "send-email"
+    | "send-sms"
+    | "send-push-notification"
+    | "time-delay"
+    | "conditional-split"
+    | "trigger-split";
+  links: {
+    next?: string | null;
+    next_if_true?: string | null;
+    next_if_false?: string | null;
+  };
+  data: Record<string, unknown>;
+}
+
+export interface KlaviyoFlowDefinition {
+  triggers: {
+    type: TriggerType;
+    id: string;
+    trigger_filter?: KlaviyoConditionGroups | null;
+  }[];
+  profile_filter: KlaviyoConditionGroups | null;
+  actions: KlaviyoFlowAction[];
+  entry_action_id: string;
+}
+
+export const isSplitStep = (step: FlowStepPayload): step is SplitStepPayload =>
+  step.kind === "conditional-split" || step.kind === "trigger-split";
+
+export const isEmailStep = (step: FlowStepPayload): step is EmailStepPayload =>
+  !step.kind || step.kind === "email";
+
+const UNIT_TO_KLAVIYO: Record<DelayUnit, string> = {
+  minutes: "minutes",
+  hours: "hours",
+  days: "days",
+};
+
+const buildDelayData = (delay: FlowDelayPayload) => {
+  if (
+    !delay.untilDate &&
+    (!Number.isFinite(delay.value) || delay.value <= 0)
+  ) {
+    throw new Error("Delay values must be positive numbers.");
+  }
+
+  return {
+    ...(delay.untilDate
+      ? { delay_until_date: delay.untilDate }
+      : { unit: UNIT_TO_KLAVIYO[delay.unit], value: delay.value }),
+    timezone: delay.timezone || "profile",
+    ...(delay.sendAtTime ? { delay_until_time: delay.sendAtTime } : {}),
+    ...(delay.weekdays?.length
+      ? { delay_until_weekdays: delay.weekdays }
+      : {}),
+  };
+};
+
+const buildEmailData = (
+  step: EmailStepPayload,
+  payload: FlowRequestPayload,
+) => {
+  const tokens = {
+    flow_name: payload.flowName,
+    step_name: step.internalName || step.subjectLine,
+    subject_line: step.subjectLine,
+  };
+  const tracking = effectiveTracking(step, payload.trackingDefaults);
+
+  return {
+    message: {
+      name: step.internalName || step.subjectLine,
+      from_email: step.fromEmail,
+      from_label: step.fromName,
+      reply_to_email: step.replyToEmail || step.fromEmail,
+      cc_email: step.ccEmail || null,
+      bcc_email: step.bccEmail || null,
+      subject_line: step.subjectLine,
+      preview_text: step.previewText,
+      template_id: step.templateId || null,
+      smart_sending_enabled: step.smartSendingEnabled,
+      transactional: false,
+      add_tracking_params: tracking.length > 0,
+      custom_tracking_params: tracking.length
+        ? tracking.map((track) => ({
+            type: "static",
+            name: track.param,
+            value: fillTrackingTokens(track.value, tokens),
+          }))
+        : null,
+      additional_filters: null,
+    },
+    status: step.status,
+  };
+};
+
+const buildSmsData = (step: SmsStepPayload) => ({
+  message: {
+    name: step.internalName || step.body.slice(0, 40),
+    body: step.body,
+    media_url: step.mediaUrl || null,
+    sender: step.sender || null,
+    shorten_links: step.shortenLinks,
+    sms_quiet_hours_enabled: step.quietHoursEnabled,
+    smart_sending_enabled: step.smartSendingEnabled,
+    add_tracking_params: false,
+  },
+  status: step.status,
+});
+
+const buildPushData = (step: PushStepPayload) => ({
+  message: {
+    name: step.internalName || step.title,
+    title: step.title,
+    body: step.body,
+    on_open: step.deepLink
+      ? {
+          type: "deep_link",
+          ios_deep_link: step.deepLink,
+          android_deep_link: step.deepLink,
+        }
+      : { type: "home" },
+    smart_sending_enabled: step.smartSendingEnabled,
+  },
+  status: step.status,
+});
+
+const buildMessageAction = (
+  id: string,
+  step: MessageStepPayload,
+  payload: FlowRequestPayload,
+): KlaviyoFlowAction => {
+  const links = { next: null };
+
+  switch (step.kind) {
+    case "sms":
+      return {
+        temporary_id: id,
+        type: "send-sms",
+        links,
+        data: buildSmsData(step),
+      };
+    case "push":
+      return {
+        temporary_id: id,
+        type: "send-push-notification",
+        links,
+        data: buildPushData(step),
+      };
+    default:
+      return {
+        temporary_id: id,
+        type: "send-email",
+        links,
+        data: buildEmailData(step, payload),
+      };
+  }
+};
+
+const buildProfilePropertyCondition = (
+  property: string,
+  operator: ProfilePropertyOperator,
+  value: string,
+): KlaviyoFilterCondition => ({
+  type: "profile-property",
+  property: `properties['${property}']`,
+  filter:
+    operator === "is-set" || operator === "is-not-set"
+      ? { type: "existence", operator }
+      : { type: "string", operator, value },
+});
+
+const buildMetricPropertyCondition = (
+  property: string,
+  operator: TriggerPropertyOperator,
+  value: string,
+): KlaviyoFilterCondition => ({
+  type: "metric-property",
+  field: property,
+  filter:
+    operator === "greater-than"
+      ? { type: "numeric", operator, value: Number(value) }
+      : { type: "string", operator, value },
+});
+
+const toConditionGroups = (
+  conditions: KlaviyoFilterCondition[],
+): KlaviyoConditionGroups => ({
+  condition_groups: [{ conditions }],
+});
+
+const buildConditionFilter = (
+  condition: SplitCondition,
+): KlaviyoConditionGroups => {
+  switch (condition.type) {
+    case "profile-property":
+      return toConditionGroups([
+        buildProfilePropertyCondition(
+          condition.property,
+          condition.operator,
+          condition.value,
+        ),
+      ]);
+    case "has-done-metric":
+      return toConditionGroups([
+        {
+          type: "profile-metric",
+          metric_id: condition.metricId,
+          measurement: "count",
+          measurement_filter: {
+            type: "numeric",
+            operator: "greater-than-or-equal",
+            value: condition.count,
+          },
+          timeframe_filter: {
+            type: "date",
+            operator: "in-the-last",
+            unit: "day",
+            quantity: condition.timeframeDays,
+          },
+          metric_filters: null,
+        },
+      ]);
+    case "trigger-property":
+      return toConditionGroups([
+        buildMetricPropertyCondition(
+          condition.property,
+          condition.operator,
+          condition.value,
+        ),
+      ]);
+    default:
+      throw new Error("Unsupported split condition.");
+  }
+};
+
+const buildTrigger = (
+  trigger: FlowRequestPayload["trigger"],
+): KlaviyoFlowDefinition["triggers"][number] => {
+  if (trigger.type !== "metric") {
+    return { type: trigger.type, id: trigger.id };
+  }
+
+  const filters = trigger.filters ?? [];
+  return {
+    type: "metric",
+    id: trigger.id,
+    trigger_filter: filters.length
+      ? toConditionGroups(
+          filters.map((filter) =>
+            buildMetricPropertyCondition(
+              filter.property,
+              filter.operator,
+              filter.value,
+            ),
+          ),
+        )
+      : null,
+  };
+};
+
+export interface BuiltFlowDefinition {
+  definition: KlaviyoFlowDefinition;
+  /**
+   * Payload path of the step behind each action, by action index (e.g.
+   * `steps[1].yes[0]`, or `steps[1].yes[0].delay` for its time delay). Used
+   * to trace Klaviyo errors about an action back to the builder step.
+   */
+  actionPaths: string[];
+}
+
+/**
+ * Converts the builder payload into a Klaviyo flow definition. Actions are
+ * chained through temporary IDs; split branches never rejoin, so every branch
+ * ends with a `null` link.
+ */
+export const buildFlowDefinitionWithPaths = (
+  payload: FlowRequestPayload,
+): BuiltFlowDefinition => {
+  const actions: KlaviyoFlowAction[] = [];
+  const actionPaths: string[] = [];
+  let counter = 0;
+  const nextId = () => `${++counter}`;
+
+  // Returns the entry action ID for the sequence, or null when it is empty.
+  const buildSequence = (
+    steps: FlowStepPayload[],
+    pathPrefix: string,
+  ): string | null => {
+    let entryId: string | null = null;
+    let previous: KlaviyoFlowAction | null = null;
+
+    const append = (action: KlaviyoFlowAction, path: string) => {
+      if (previous) {
+        previous.links.next = action.temporary_id;
+      } else {
+        entryId = action.temporary_id;
+      }
+      actions.push(action);
+      actionPaths.push(path);
+      previous = action;
+    };
+
+    steps.forEach((step, index) => {
+      const path = `${pathPrefix}[${index}]`;
+
+      if (step.delay) {
+        append(
+          {
+            temporary_id: nextId(),
+            type: "time-delay",
+            links: { next: null },
+            data: buildDelayData(step.delay),
+          },
+          `${path}.delay`,
+        );
+      }
+
+      if (!isSplitStep(step)) {
+        append(buildMessageAction(nextId(), step, payload), path);
+        return;
+      }
+
+      if (index !== steps.length - 1) {
+        throw new Error("A split must be the last step in its branch.");
+      }
+
+      const split: KlaviyoFlowAction = {
+        temporary_id: nextId(),
+        type: step.kind,
+        links: { next_if_true: null, next_if_false: null },
+        data:
+          step.kind === "trigger-split"
+            ? { trigger_filter: buildConditionFilter(step.condition) }
+            : { profile_filter: buildConditionFilter(step.condition) },
+      };
+      append(split, path);
+      previous = null;
+
+      split.links.next_if_true = buildSequence(step.yes, `${path}.yes`);
+      split.links.next_if_false = buildSequence(step.no, `${path}.no`);
+    });
+
+    return entryId;
+  };
+
+  const entryActionId = buildSequence(payload.steps, "steps");
+
+  if (!entryActionId) {
+    throw new Error("A flow requires at least one action.");
+  }
+
+  return {
+    definition: {
+      triggers: [buildTrigger(payload.trigger)],
+      profile_filter: payload.profileFilters?.length
+        ? toConditionGroups(
+            payload.profileFilters.map((filter) =>
+              buildProfilePropertyCondition(
+                filter.property,
+                filter.operator,
+                filter.value,
+              ),
+            ),
+          )
+        : null,
+      actions,
+      entry_action_id: entryActionId,
+    },
+    actionPaths,
+  };
+};
+
+export const buildFlowDefinition = (
+  payload: FlowRequestPayload,
+): KlaviyoFlowDefinition => buildFlowDefinitionWithPaths(payload).definition;
+
+interface ParsedDefinitionAction {
+  id?: string;
+  temporary_id?: string;
+  type: string;
+  links?: {
+    next?: string | null;
+    next_if_true?: string | null;
+    next_if_false?: string | null;
+  };
+  data?: Record<string, unknown>;
+}
+
+export interface ParsedFlowDefinition {
+  trigger: FlowRequestPayload["trigger"];
+  profileFilters: ProfileFilterPayload[];
+  steps: FlowStepPayload[];
+  /** Human-readable notes about actions or settings the builder dropped. */
+  unsupported: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): UnknownRecord =>
+  value && typeof value === "object" ? (value as UnknownRecord) : {};
+
+const asString = (value: unknown) => (typeof value === "string" ? value : "");
+
+const PROFILE_OPERATORS: ProfilePropertyOperator[] = [
+  "equals",
+  "not-equals",
+  "contains",
+  "is-set",
+  "is-not-set",
+];
+
+const TRIGGER_OPERATORS: TriggerPropertyOperator[] = [
+  "equals",
+  "contains",
+  "greater-than",
+];
+
+const conditionsOf = (filter: unknown): UnknownRecord[] => {
+  const groups = asRecord(filter).condition_groups;
+  if (!Array.isArray(groups)) {
+    return [];
+  }
+  return groups.flatMap((group) => {
+    const conditions = asRecord(group).conditions;
+    return Array.isArray(conditions) ? conditions.map(asRecord) : [];
+  });
+};
+
+const parsePropertyName = (property: string) =>
+  property.match(/^properties\['(.+)'\]$/)?.[1] ?? property;
+
+const parseProfileCondition = (
+  condition: UnknownRecord,
+): ProfileFilterPayload | null => {
+  if (condition.type !== "profile-property") {
+    return null;
+  }
+  const filter = asRecord(condition.filter);
+  const operator = asString(filter.operator) as ProfilePropertyOperator;
+  if (!PROFILE_OPERATORS.includes(operator)) {
+    return null;
+  }
+  return {
+    property: parsePropertyName(asString(condition.property)),
+    operator,
+    value: filter.value === undefined ? "" : String(filter.value),
+  };
+};
+
+const parseMetricCondition = (
+  condition: UnknownRecord,
+): TriggerFilterPayload | null => {
+  if (condition.type !== "metric-property") {
+    return null;
+  }
+  const filter = asRecord(condition.filter);
+  const operator = asString(filter.operator) as TriggerPropertyOperator;
+  if (!TRIGGER_OPERATORS.includes(operator)) {
+    return null;
+  }
+  return {
+    property: asString(condition.field),
+    operator,
+    value: filter.value === undefined ? "" : String(filter.value),
+  };
+};
+
+const parseSplitCondition = (
+  condition: UnknownRecord,
+): SplitCondition | null => {
+  if (condition.type === "profile-metric") {
+    const measurement = asRecord(condition.measurement_filter);
+    const timeframe = asRecord(condition.timeframe_filter);
+    return {
+      type: "has-done-metric",
+      metricId: asString(condition.metric_id),
+      count: Math.max(1, Number(measurement.value) || 1),
+      timeframeDays: Math.max(1, Number(timeframe.quantity) || 30),
+    };
+  }
+
+  const profile = parseProfileCondition(condition);
+  if (profile) {
+    return { type: "profile-property", ...profile };
+  }
+
+  const metric = parseMetricCondition(condition);
+  if (metric) {
+    return { type: "trigger-property", ...metric };
+  }
+
+  return null;
+};
+
+const parseStatus = (value: unknown): StepStatus =>
+  value === "live" || value === "manual" || value === "disabled"
+    ? value
+    : "draft";
+
+/**
+ * Inverse of `buildFlowDefinition`: walks a Klaviyo flow definition from its
+ * entry action and rebuilds the builder payload. Anything the builder cannot
+ * represent is skipped and described in `unsupported`.
+ */
+export const parseFlowDefinition = (
+  definition: unknown,
+): ParsedFlowDefinition => {
+  const source = asRecord(definition);
+  const unsupported: string[] = [];
+
+  const rawTrigger = asRecord(
+    Array.isArray(source.triggers) ? source.triggers[0] : undefined,
+  );
+  const triggerType = asString(rawTrigger.type);
+  const trigger: FlowRequestPayload["trigger"] = {
+    type: "list",
+    id: asString(rawTrigger.id),
+    filters: [],
+  };
+
+  if (triggerType === "list" || triggerType === "segment") {
+    trigger.type = triggerType;
+  } else if (triggerType === "metric") {
+    trigger.type = "metric";
+    conditionsOf(rawTrigger.trigger_filter).forEach((condition) => {
+      const filter = parseMetricCondition(condition);
+      if (filter) {
+        trigger.filters?.push(filter);
+      } else {
+        unsupported.push(
+          `Trigger filter of type "${asString(condition.type)}" was dropped.`,
+        );
+      }
+    });
+  } else {
+    trigger.id = "";
+    unsupported.push(
+      `Trigger type "${triggerType || "unknown"}" is not supported; choose a list, segment, or metric trigger.`,
+    );
+  }
+
+  if (Array.isArray(source.triggers) && source.triggers.length > 1) {
+    unsupported.push("Only the first of multiple triggers was imported.");
+  }
+
+  const profileFilters: ProfileFilterPayload[] = [];
+  conditionsOf(source.profile_filter).forEach((condition) => {
+    const filter = parseProfileCondition(condition);
+    if (filter) {
+      profileFilters.push(filter);
+    } else {
+      unsupported.push(
+        `Profile filter of type "${asString(condition.type)}" was dropped.`,
+      );
+    }
+  });
+
+  const actions = new Map<string, ParsedDefinitionAction>();
+  (Array.isArray(source.actions) ? source.actions : []).forEach((item) => {
+    const action = item as ParsedDefinitionAction;
+    const id = action.id ?? action.temporary_id;
+    if (id) {
+      actions.set(String(id), action);
+    }
+  });
+
+  const visited = new Set<string>();
+
+  const walk = (startId: string | null | undefined): FlowStepPayload[] => {
+    const steps: FlowStepPayload[] = [];
+    let pendingDelay: FlowDelayPayload | null = null;
+    let currentId = startId ?? null;
+
+    while (currentId) {
+      if (visited.has(currentId)) {
+        unsupported.push(
+          `Action ${currentId} is reached from more than one path; only its first occurrence was imported.`,
+        );
+        break;
+      }
+      visited.add(currentId);
+
+      const action = actions.get(currentId);
+      if (!action) {
+        unsupported.push(`Action ${currentId} is referenced but missing.`);
+        break;
+      }
+
+      const data = asRecord(action.data);
+      const message = asRecord(data.message);
+      const next = action.links?.next ?? null;
+
+      switch (action.type) {
+        case "time-delay": {
+          const unit = asString(data.unit) as DelayUnit;
+          const value = Number(data.value) || 0;
+          const untilDate = asString(data.delay_until_date);
+          const sendAtTime = asString(data.delay_until_time);
+          const rawWeekdays = data.delay_until_weekdays;
+          const weekdays = Array.isArray(rawWeekdays)
+            ? WEEKDAYS.filter((day) => rawWeekdays.includes(day))
+            : [];
+          if (pendingDelay) {
+            unsupported.push(
+              `Consecutive delays before action ${currentId} were collapsed into the last one.`,
+            );
+          }
+          pendingDelay =
+            value > 0 || untilDate
+              ? {
+                  value,
+                  unit: unit in UNIT_TO_KLAVIYO ? unit : "days",
+                  timezone: asString(data.timezone) || "profile",
+                  ...(untilDate ? { untilDate } : {}),
+                  ...(sendAtTime ? { sendAtTime } : {}),
+                  ...(weekdays.length ? { weekdays } : {}),
+                }
+              : null;
+          currentId = next;
+          continue;
+        }
+        case "send-email": {
+          const tracking = Array.isArray(message.custom_tracking_params)
+            ? message.custom_tracking_params.map(asRecord)
+            : [];
+          if (tracking.some((track) => track.type === "dynamic")) {
+            unsupported.push(
+              `Email ${currentId} uses dynamic tracking parameters, which were imported as static values.`,
+            );
+          }
+          steps.push({
+            kind: "email",
+            internalName: asString(message.name),
+            subjectLine: asString(message.subject_line),
+            previewText: asString(message.preview_text),
+            fromEmail: asString(message.from_email),
+            fromName: asString(message.from_label),
+            replyToEmail: asString(message.reply_to_email),
+            ccEmail: asString(message.cc_email),
+            bccEmail: asString(message.bcc_email),
+            templateId: asString(message.template_id),
+            smartSendingEnabled: message.smart_sending_enabled !== false,
+            status: parseStatus(data.status),
+            delay: pendingDelay,
+            customTracking: tracking
+              .map((track) => ({
+                param: asString(track.name),
+                value: String(track.value ?? ""),
+              }))
+              .filter((track) => track.param),
+          });
+          break;
+        }
+        case "send-sms":
+          steps.push({
+            kind: "sms",
+            internalName: asString(message.name),
+            body: asString(message.body),
+            mediaUrl: asString(message.media_url),
+            sender: asString(message.sender),
+            shortenLinks: message.shorten_links !== false,
+            quietHoursEnabled: message.sms_quiet_hours_enabled !== false,
+            smartSendingEnabled: message.smart_sending_enabled !== false,
+            status: parseStatus(data.status),
+            delay: pendingDelay,
+          });
+          break;
+        case "send-push-notification": {
+          const onOpen = asRecord(message.on_open);
+          steps.push({
+            kind: "push",
+            internalName: asString(message.name),
+            title: asString(message.title),
+            body: asString(message.body),
+            deepLink:
+              asString(onOpen.ios_deep_link) ||
+              asString(onOpen.android_deep_link),
+            smartSendingEnabled: message.smart_sending_enabled !== false,
+            status: parseStatus(data.status),
+            delay: pendingDelay,
+          });
+          break;
+        }
+        case "conditional-split":
+        case "trigger-split": {
+          const conditions = conditionsOf(
+            action.type === "trigger-split"
+              ? data.trigger_filter
+              : data.profile_filter,
+          );
+          const condition = conditions[0]
+            ? parseSplitCondition(conditions[0])
+            : null;
+          if (conditions.length > 1) {
+            unsupported.push(
+              `Split ${currentId} has ${conditions.length} conditions; only the first was imported.`,
+            );
+          }
+          if (!condition) {
+            unsupported.push(
+              `Split ${currentId} uses a condition the builder cannot represent; it was imported as an empty profile property check.`,
+            );
+          }
+          steps.push({
+            kind: action.type,
+            internalName: "",
+            delay: pendingDelay,
+            condition: condition ?? {
+              type: "profile-property",
+              property: "",
+              operator: "equals",
+              value: "",
+            },
+            yes: walk(action.links?.next_if_true),
+            no: walk(action.links?.next_if_false),
+          });
+          // Splits end a branch in the builder.
+          return steps;
+        }
+        default:
+          unsupported.push(
+            `Action ${currentId} of type "${action.type}" is not supported and was skipped.`,
+          );
+          // Keep any pending delay for the next supported step.
+          currentId = next;
+          continue;
+      }
+
+      pendingDelay = null;
+      currentId = next;
+    }
+
+    if (pendingDelay) {
+      unsupported.push("A trailing delay with no following message was dropped.");
+    }
+
+    return steps;
+  };
+
+  const steps = walk(asString(source.entry_action_id));
+
+  return { trigger, profileFilters, steps, unsupported };
+};
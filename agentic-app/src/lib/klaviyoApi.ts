@@ -0,0 +1,43 @@
+/** Overridable so the app and CLI can be pointed at `scripts/klaviyo-mock.ts`. */
+export const KLAVIYO_BASE_URL =
+  process.env.KLAVIYO_BASE_URL ?? "https://a.klaviyo.com/api";
+export const KLAVIYO_REVISION = "2024-10-15";
+
+export const klaviyoHeaders = (apiKey: string): HeadersInit => ({
+  Authorization: `Klaviyo-API-Key ${apiKey}`,
+  "Content-Type": "application/vnd.api+json",
+  Accept: "application/vnd.api+json",
+  revision: KLAVIYO_REVISION,
+});
+
+export const klaviyoUrl = (
+  path: string,
+  params?: Record<string, string | undefined>,
+  baseUrl = KLAVIYO_BASE_URL,
+) => {
+  const url = new URL(
+    `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`,
+  );
+  Object.entries(params ?? {}).forEach(([key, value]) => {
+    if (value) {
+      url.searchParams.set(key, value);
+    }
+  });
+  return url.toString();
+};
+
+/** Pulls `page[cursor]` out of a JSON:API pagination link. */
+export const extractCursor = (link: unknown) => {
+  if (!link || typeof link !== "string") {
+    return null;
+  }
+  try {
+    return new URL(link).searchParams.get("page[cursor]");
+  } catch {
+    return null;
+  }
+};
+
+/** Quotes a value for use inside a Klaviyo `filter` expression. */
+export const filterString = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
@@ -0,0 +1,156 @@
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { extractCursor, klaviyoUrl } from "@/lib/klaviyoApi";
+import {
+  klaviyoRequest,
+  resourceOf,
+  resourcesOf,
+  type KlaviyoResult,
+} from "@/lib/klaviyoClient";
+import type { ValidationIssue } from "@/lib/flowValidation";
+
+export type AudienceType = "list" | "segment";
+
+export interface AudienceSummary {
+  id: string;
+  name: string;
+  /** Only looked up for a single audience; null on list pages. */
+  profileCount: number | null;
+  created: string | null;
+}
+
+export type AudiencePageResult =
+  | { ok: true; data: AudienceSummary[]; nextCursor: string | null }
+  | { ok: false; result: KlaviyoResult };
+
+export type AudienceResult =
+  { ok: true; data: AudienceSummary } | { ok: false; result: KlaviyoResult };
+
+/** The outcome of `verifyTrigger`: a definite problem, or a failed check. */
+export type TriggerCheck =
+  | { issue: ValidationIssue; warning?: undefined }
+  | { issue?: undefined; warning: string }
+  | null;
+
+interface KlaviyoAudienceResource {
+  id: string;
+  attributes?: {
+    name?: string;
+    created?: string;
+    profile_count?: number;
+  };
+}
+
+const PATHS: Record<AudienceType, string> = {
+  list: "lists",
+  segment: "segments",
+};
+
+const toSummary = (resource: KlaviyoAudienceResource): AudienceSummary => ({
+  id: resource.id,
+  name: resource.attributes?.name ?? "",
+  profileCount:
+    typeof resource.attributes?.profile_count === "number"
+      ? resource.attributes.profile_count
+      : null,
+  created: resource.attributes?.created ?? null,
+});
+
+/**
+ * Fetches one list or segment with its profile count. Klaviyo only reports
+ * counts on the single-resource endpoint, and each lookup spends one request
+ * of the key's budget, so pages leave counts out and the picker asks for the
+ * selected audience's count alone.
+ */
+export const getAudience = async (
+  apiKey: string,
+  type: AudienceType,
+  id: string,
+): Promise<AudienceResult> => {
+  const result = await klaviyoRequest(
+    apiKey,
+    klaviyoUrl(`${PATHS[type]}/${encodeURIComponent(id)}/`, {
+      [`additional-fields[${type}]`]: "profile_count",
+    }),
+  );
+  const resource = result.ok
+    ? resourceOf<KlaviyoAudienceResource>(result.json)
+    : null;
+
+  return resource
+    ? { ok: true, data: toSummary(resource) }
+    : { ok: false, result };
+};
+
+/** Fetches one page of lists or segments, newest first, without counts. */
+export const listAudiences = async (
+  apiKey: string,
+  type: AudienceType,
+  cursor?: string,
+): Promise<AudiencePageResult> => {
+  const result = await klaviyoRequest(
+    apiKey,
+    klaviyoUrl(`${PATHS[type]}/`, {
+      [`fields[${type}]`]: "name,created",
+      sort: "-created",
+      "page[cursor]": cursor,
+    }),
+  );
+
+  if (!result.ok) {
+    return { ok: false, result };
+  }
+
+  return {
+    ok: true,
+    data: resourcesOf<KlaviyoAudienceResource>(result.json?.data).map(
+      toSummary,
+    ),
+    nextCursor: extractCursor(result.json?.links?.next),
+  };
+};
+
+const TRIGGER_PATHS: Record<FlowRequestPayload["trigger"]["type"], string> = {
+  list: "lists",
+  segment: "segments",
+  metric: "metrics",
+};
+
+/**
+ * Confirms the flow's trigger list, segment or metric exists in Klaviyo.
+ * Only a definite 404 is an issue; when the lookup fails some other way the
+ * check is skipped with a warning, and the create request reports anything
+ * still wrong.
+ */
+export const verifyTrigger = async (
+  apiKey: string,
+  trigger: FlowRequestPayload["trigger"],
+): Promise<TriggerCheck> => {
+  const skipped = (reason: string) => ({
+    warning: `Couldn't confirm ${trigger.type} "${trigger.id}" exists in Klaviyo (${reason}).`,
+  });
+
+  let result: KlaviyoResult;
+  try {
+    result = await klaviyoRequest(
+      apiKey,
+      klaviyoUrl(
+        `${TRIGGER_PATHS[trigger.type]}/${encodeURIComponent(trigger.id)}/`,
+      ),
+    );
+  } catch (error) {
+    return skipped(
+      error instanceof Error ? error.message : "Klaviyo couldn't be reached",
+    );
+  }
+
+  if (result.status === 404) {
+    return {
+      issue: {
+        path: "trigger.id",
+        code: "not_found",
+        message: `No ${trigger.type} with ID "${trigger.id}" exists in Klaviyo.`,
+      },
+    };
+  }
+  return result.ok ? null : skipped(`Klaviyo answered ${result.status}`);
+};
@@ -0,0 +1,205 @@
+import { KLAVIYO_BASE_URL, klaviyoHeaders, klaviyoUrl } from "@/lib/klaviyoApi";
+
+/** Client-side budget per API key, kept under Klaviyo's steady-state limits. */
+const REQUESTS_PER_MINUTE =
+  Number(process.env.KLAVIYO_REQUESTS_PER_MINUTE) || 60;
+const BUDGET_WINDOW_MS = 60_000;
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+export interface KlaviyoAttempt {
+  attempt: number;
+  /** HTTP status, or null when the request never got a response. */
+  status: number | null;
+  error?: string;
+  /** Time spent waiting before this attempt (budget throttling plus backoff). */
+  waitedMs: number;
+}
+
+/** A JSON:API resource; each caller describes the attributes it reads. */
+export interface KlaviyoJsonApiResource {
+  id: string;
+  type?: string;
+  attributes?: Record<string, unknown>;
+}
+
+/**
+ * The parts of a JSON:API body the app reads. Nothing in it is trusted, so
+ * `data` and `included` go through `resourceOf` and `resourcesOf`.
+ */
+export interface KlaviyoJsonApiBody {
+  data?: unknown;
+  included?: unknown;
+  links?: { next?: unknown; prev?: unknown } | null;
+  errors?: unknown;
+}
+
+export interface KlaviyoResult {
+  ok: boolean;
+  status: number;
+  /** Null when the response had no body or it wasn't a JSON object. */
+  json: KlaviyoJsonApiBody | null;
+  attempts: KlaviyoAttempt[];
+}
+
+const isResource = (value: unknown): value is KlaviyoJsonApiResource =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  typeof (value as KlaviyoJsonApiResource).id === "string";
+
+/** The single resource in `data`, or null when the body doesn't hold one. */
+export const resourceOf = <
+  T extends KlaviyoJsonApiResource = KlaviyoJsonApiResource,
+>(
+  json: KlaviyoJsonApiBody | null,
+): T | null => {
+  const data = json?.data;
+  return isResource(data) ? (data as T) : null;
+};
+
+/** The resources in a `data` or `included` array, skipping malformed items. */
+export const resourcesOf = <
+  T extends KlaviyoJsonApiResource = KlaviyoJsonApiResource,
+>(
+  value: unknown,
+): T[] => (Array.isArray(value) ? (value.filter(isResource) as T[]) : []);
+
+/** Thrown when Klaviyo could not be reached after every allowed attempt. */
+export class KlaviyoNetworkError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: KlaviyoAttempt[],
+  ) {
+    super(message);
+    this.name = "KlaviyoNetworkError";
+  }
+}
+
+const requestLog = new Map<string, number[]>();
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Waits for room in the key's rolling budget window; returns the time waited. */
+const reserveBudget = async (apiKey: string) => {
+  let waited = 0;
+
+  for (;;) {
+    const now = Date.now();
+    const recent = (requestLog.get(apiKey) ?? []).filter(
+      (sentAt) => now - sentAt < BUDGET_WINDOW_MS,
+    );
+
+    if (recent.length < REQUESTS_PER_MINUTE) {
+      recent.push(now);
+      requestLog.set(apiKey, recent);
+      return waited;
+    }
+
+    requestLog.set(apiKey, recent);
+    const wait = BUDGET_WINDOW_MS - (now - recent[0]) + 1;
+    await sleep(wait);
+    waited += wait;
+  }
+};
+
+/** Reads `Retry-After` as either delta-seconds or an HTTP date. */
+const parseRetryAfter = (value: string | null) => {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Full jitter spreads retries from concurrent bulk rows apart.
+const backoff = (attempt: number) =>
+  Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+/**
+ * Sends a request to Klaviyo within the key's request budget. A 429 is always
+ * retried because Klaviyo rejected it before doing any work; other 5xx
+ * responses and network failures are only retried for idempotent methods, so
+ * a timed-out create can never produce a duplicate flow.
+ */
+export const klaviyoRequest = async (
+  apiKey: string,
+  url: string,
+  init: { method?: string; body?: unknown } = {},
+): Promise<KlaviyoResult> => {
+  const method = (init.method ?? "GET").toUpperCase();
+  const idempotent = IDEMPOTENT_METHODS.includes(method);
+  const attempts: KlaviyoAttempt[] = [];
+  let delay = 0;
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (delay) {
+      await sleep(delay);
+    }
+    const waitedMs = Math.round(delay + (await reserveBudget(apiKey)));
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: klaviyoHeaders(apiKey),
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        cache: "no-store",
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to reach Klaviyo API.";
+      attempts.push({ attempt, status: null, error: message, waitedMs });
+
+      if (!idempotent || attempt >= MAX_ATTEMPTS) {
+        throw new KlaviyoNetworkError(message, attempts);
+      }
+      delay = backoff(attempt);
+      continue;
+    }
+
+    attempts.push({ attempt, status: response.status, waitedMs });
+
+    const retryable =
+      response.status === 429 ||
+      (idempotent && RETRYABLE_STATUSES.includes(response.status));
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+
+    if (
+      !retryable ||
+      attempt >= MAX_ATTEMPTS ||
+      (retryAfter !== null && retryAfter > MAX_BACKOFF_MS)
+    ) {
+      const body: unknown = await response.json().catch(() => null);
+      const json =
+        body && typeof body === "object" && !Array.isArray(body)
+          ? (body as KlaviyoJsonApiBody)
+          : null;
+      return { ok: response.ok, status: response.status, json, attempts };
+    }
+
+    // Drain the body so the connection can be reused for the retry.
+    await response.arrayBuffer().catch(() => null);
+    delay = retryAfter ?? backoff(attempt);
+  }
+};
+
+/** Creates a flow from a prepared JSON:API body. */
+export const postFlow = (
+  apiKey: string,
+  body: unknown,
+  baseUrl = KLAVIYO_BASE_URL,
+) =>
+  klaviyoRequest(apiKey, klaviyoUrl("flows/", undefined, baseUrl), {
+    method: "POST",
+    body,
+  });
@@ -0,0 +1,199 @@
+import { parseIssuePath } from "@/lib/flowValidation";
+
+export interface KlaviyoErrorIssue {
+  /** Builder payload path the error refers to, or "" when it can't be placed. */
+  path: string;
+  code: string;
+  message: string;
+  status: number | null;
+  /** The original JSON:API `source.pointer`, if Klaviyo sent one. */
+  pointer: string | null;
+}
+
+interface JsonApiError {
+  status?: string | number;
+  code?: string;
+  title?: string;
+  detail?: string;
+  source?: { pointer?: string };
+}
+
+// Error bodies come from the network, so items are checked before use.
+const isJsonApiError = (value: unknown): value is JsonApiError =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const DEFINITION_POINTER = "/data/attributes/definition/";
+
+// Klaviyo message fields that the builder edits under a different name.
+const MESSAGE_FIELDS: Record<string, string> = {
+  subject_line: "subjectLine",
+  preview_text: "previewText",
+  from_email: "fromEmail",
+  from_label: "fromName",
+  reply_to_email: "replyToEmail",
+  cc_email: "ccEmail",
+  bcc_email: "bccEmail",
+  template_id: "templateId",
+  custom_tracking_params: "customTracking",
+  add_tracking_params: "customTracking",
+  smart_sending_enabled: "smartSendingEnabled",
+  media_url: "mediaUrl",
+  shorten_links: "shortenLinks",
+  sms_quiet_hours_enabled: "quietHoursEnabled",
+  on_open: "deepLink",
+  body: "body",
+  sender: "sender",
+  title: "title",
+};
+
+// Time delay fields, keyed the same way.
+const DELAY_FIELDS: Record<string, string> = {
+  value: "value",
+  unit: "unit",
+  timezone: "timezone",
+  delay_until_time: "sendAtTime",
+  delay_until_weekdays: "weekdays",
+  delay_until_date: "untilDate",
+};
+
+const CONDITION_FIELDS: Record<string, string> = {
+  property: "property",
+  field: "property",
+  operator: "operator",
+  value: "value",
+  metric_id: "metricId",
+};
+
+/** Maps the rest of a condition pointer (`conditions/0/filter/value`) to a field. */
+const conditionField = (parts: string[]) => {
+  const field = [...parts].reverse().find((part) => CONDITION_FIELDS[part]);
+  return field ? CONDITION_FIELDS[field] : null;
+};
+
+const withField = (path: string, field: string | null | undefined) =>
+  field ? `${path}.${field}` : path;
+
+const pathForAction = (parts: string[], actionPaths: string[]) => {
+  const [index, section, ...rest] = parts;
+  const actionPath = actionPaths[Number(index)];
+  if (!actionPath) {
+    return "";
+  }
+  if (section !== "data" || !rest.length) {
+    return actionPath;
+  }
+
+  if (actionPath.endsWith(".delay")) {
+    return withField(actionPath, DELAY_FIELDS[rest[0]]);
+  }
+  if (rest[0] === "profile_filter" || rest[0] === "trigger_filter") {
+    return withField(`${actionPath}.condition`, conditionField(rest));
+  }
+  if (rest[0] === "status") {
+    return `${actionPath}.status`;
+  }
+  return rest[0] === "message"
+    ? withField(actionPath, MESSAGE_FIELDS[rest[1]])
+    : actionPath;
+};
+
+/** Finds the index of `conditions/<n>` in a condition-group pointer. */
+const conditionIndex = (parts: string[]) => {
+  const at = parts.indexOf("conditions");
+  return at === -1 ? null : Number(parts[at + 1]);
+};
+
+/**
+ * Converts a JSON:API `source.pointer` into a builder payload path, using the
+ * action paths recorded when the definition was built.
+ */
+const pathForPointer = (pointer: string, actionPaths: string[]) => {
+  if (pointer === "/data/attributes/name") {
+    return "flowName";
+  }
+  if (!pointer.startsWith(DEFINITION_POINTER)) {
+    return "";
+  }
+
+  const [section, ...parts] = pointer
+    .slice(DEFINITION_POINTER.length)
+    .split("/");
+
+  if (section === "actions") {
+    return pathForAction(parts, actionPaths);
+  }
+
+  if (section === "triggers") {
+    if (parts[1] === "id" || parts[1] === "type") {
+      return `trigger.${parts[1]}`;
+    }
+    if (parts[1] !== "trigger_filter") {
+      return "trigger";
+    }
+    const index = conditionIndex(parts);
+    return index === null
+      ? "trigger.filters"
+      : withField(`trigger.filters[${index}]`, conditionField(parts));
+  }
+
+  if (section === "profile_filter") {
+    const index = conditionIndex(parts);
+    return index === null
+      ? "profileFilters"
+      : withField(`profileFilters[${index}]`, conditionField(parts));
+  }
+
+  return "";
+};
+
+/** Turns `steps[1].yes[0].fromEmail` into `Step 2 › Yes › 1`. */
+export const stepLabelForPath = (path: string) => {
+  const parts = parseIssuePath(path);
+  if (parts[0] !== "steps" || typeof parts[1] !== "number") {
+    return null;
+  }
+
+  let label = `Step ${parts[1] + 1}`;
+  for (let index = 2; index < parts.length; index += 2) {
+    const branch = parts[index];
+    const position = parts[index + 1];
+    if (
+      (branch !== "yes" && branch !== "no") ||
+      typeof position !== "number"
+    ) {
+      break;
+    }
+    label += ` › ${branch === "yes" ? "Yes" : "No"} › ${position + 1}`;
+  }
+  return label;
+};
+
+/**
+ * Reads the `errors[]` array from a Klaviyo JSON:API error response and ties
+ * each error to the builder step and field it refers to where possible.
+ */
+export const mapKlaviyoErrors = (
+  json: unknown,
+  actionPaths: string[] = [],
+): KlaviyoErrorIssue[] => {
+  const errors = (json as { errors?: unknown } | null)?.errors;
+  if (!Array.isArray(errors)) {
+    return [];
+  }
+
+  return errors.filter(isJsonApiError).map((error) => {
+    const pointer =
+      typeof error.source?.pointer === "string" ? error.source.pointer : null;
+    const path = pointer ? pathForPointer(pointer, actionPaths) : "";
+    const label = stepLabelForPath(path);
+    const detail = error.detail || error.title || "Klaviyo rejected the flow.";
+
+    return {
+      path,
+      code: error.code ?? "klaviyo_error",
+      message: label ? `${label}: ${detail}` : detail,
+      status: Number(error.status) || null,
+      pointer,
+    };
+  });
+};
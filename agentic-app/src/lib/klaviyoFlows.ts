@@ -0,0 +1,94 @@
+import type { StepStatus } from "@/lib/klaviyo";
+import { klaviyoUrl } from "@/lib/klaviyoApi";
+import { klaviyoRequest } from "@/lib/klaviyoClient";
+
+export type FlowStatus = "draft" | "live" | "manual";
+
+export const FLOW_STATUSES: FlowStatus[] = ["draft", "live", "manual"];
+
+/** The statuses a builder step can have, which Klaviyo also uses for actions. */
+export const ACTION_STATUSES: StepStatus[] = [
+  "draft",
+  "live",
+  "manual",
+  "disabled",
+];
+
+export interface KlaviyoFlowResource {
+  id: string;
+  attributes?: {
+    name?: string;
+    status?: string;
+    archived?: boolean;
+    trigger_type?: string;
+    created?: string;
+    updated?: string;
+  };
+}
+
+export interface FlowSummary {
+  id: string;
+  name: string;
+  status: string;
+  archived: boolean;
+  triggerType: string;
+  created: string | null;
+  updated: string | null;
+}
+
+/** Klaviyo's Update Flow endpoint only changes the status; names are fixed. */
+export interface FlowUpdate {
+  status: FlowStatus;
+}
+
+export const isFlowStatus = (value: unknown): value is FlowStatus =>
+  FLOW_STATUSES.includes(value as FlowStatus);
+
+export const isActionStatus = (value: unknown): value is StepStatus =>
+  ACTION_STATUSES.includes(value as StepStatus);
+
+export const toFlowSummary = (flow: KlaviyoFlowResource): FlowSummary => ({
+  id: flow.id,
+  name: flow.attributes?.name ?? "",
+  status: flow.attributes?.status ?? "",
+  archived: Boolean(flow.attributes?.archived),
+  triggerType: flow.attributes?.trigger_type ?? "",
+  created: flow.attributes?.created ?? null,
+  updated: flow.attributes?.updated ?? null,
+});
+
+/**
+ * Changes a flow's status. Klaviyo applies a flow status change to every
+ * action in the flow as well.
+ */
+export const updateFlow = (apiKey: string, id: string, update: FlowUpdate) =>
+  klaviyoRequest(apiKey, klaviyoUrl(`flows/${encodeURIComponent(id)}/`), {
+    method: "PATCH",
+    body: { data: { type: "flow", id, attributes: update } },
+  });
+
+export const deleteFlow = (apiKey: string, id: string) =>
+  klaviyoRequest(apiKey, klaviyoUrl(`flows/${encodeURIComponent(id)}/`), {
+    method: "DELETE",
+  });
+
+/** Looks up the ID of the flow an action belongs to. */
+export const getFlowActionFlow = (apiKey: string, id: string) =>
+  klaviyoRequest(
+    apiKey,
+    klaviyoUrl(`flow-actions/${encodeURIComponent(id)}/relationships/flow/`),
+  );
+
+export const updateFlowAction = (
+  apiKey: string,
+  id: string,
+  status: StepStatus,
+) =>
+  klaviyoRequest(
+    apiKey,
+    klaviyoUrl(`flow-actions/${encodeURIComponent(id)}/`),
+    {
+      method: "PATCH",
+      body: { data: { type: "flow-action", id, attributes: { status } } },
+    },
+  );
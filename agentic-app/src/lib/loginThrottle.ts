@@ -0,0 +1,45 @@
+// Failed sign-ins are counted in memory, per username and per client address,
+// so a password can't be guessed at full speed. Like the Klaviyo request
+// budget, the counts are per server process.
+
+export const MAX_LOGIN_FAILURES = 5;
+export const LOGIN_FAILURE_WINDOW_MS = 15 * 60_000;
+
+const failures = new Map<string, number[]>();
+
+const recentFailures = (key: string, now: number) =>
+  (failures.get(key) ?? []).filter(
+    (failedAt) => now - failedAt < LOGIN_FAILURE_WINDOW_MS,
+  );
+
+/** The throttle keys for a sign-in: the username and, if known, the client. */
+export const loginThrottleKeys = (request: Request, username: string) => {
+  const client = request.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return [
+    `user:${username.trim().toLowerCase()}`,
+    ...(client ? [`client:${client}`] : []),
+  ];
+};
+
+/** Milliseconds until every key may try again; 0 when none is locked out. */
+export const loginRetryAfter = (keys: string[]) => {
+  const now = Date.now();
+  return Math.max(
+    0,
+    ...keys.map((key) => {
+      const recent = recentFailures(key, now);
+      return recent.length < MAX_LOGIN_FAILURES
+        ? 0
+        : LOGIN_FAILURE_WINDOW_MS - (now - recent[0]);
+    }),
+  );
+};
+
+export const recordLoginFailure = (keys: string[]) => {
+  const now = Date.now();
+  keys.forEach((key) => failures.set(key, [...recentFailures(key, now), now]));
+};
+
+export const clearLoginFailures = (keys: string[]) => {
+  keys.forEach((key) => failures.delete(key));
+};
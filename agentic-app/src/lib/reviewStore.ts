@@ -0,0 +1,182 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import type { PreparedFlow } from "@/lib/flowPayload";
+
+/**
+ * `unconfirmed` means the create request failed in transit, so the flow may or
+ * may not exist in Klaviyo; a publisher checks and reconciles the review.
+ */
+export type ReviewStatus =
+  "pending" | "approved" | "rejected" | "published" | "unconfirmed";
+
+export const REVIEW_STATUSES: ReviewStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "published",
+  "unconfirmed",
+];
+
+type BuiltFlow = Extract<PreparedFlow, { klaviyoPayload: unknown }>;
+
+export interface ReviewComment {
+  id: string;
+  /** Payload path of the step it's about (`steps[2]`), or "" for the whole flow. */
+  path: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface ReviewEvent {
+  status: ReviewStatus;
+  by: string;
+  at: string;
+  note?: string;
+}
+
+export interface FlowReview {
+  id: string;
+  flowName: string;
+  /** Registry account the flow will be created in; null for the server key. */
+  accountId: string | null;
+  status: ReviewStatus;
+  submittedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  payload: BuiltFlow["payload"];
+  /** The exact body that gets sent to Klaviyo once approved. */
+  klaviyoPayload: BuiltFlow["klaviyoPayload"];
+  actionPaths: string[];
+  warnings: string[];
+  comments: ReviewComment[];
+  /** Every status change, oldest first, starting with the submission. */
+  history: ReviewEvent[];
+  /** Set once the approved flow has been created in Klaviyo. */
+  flowId?: string;
+}
+
+export interface FlowReviewSummary {
+  id: string;
+  flowName: string;
+  accountId: string | null;
+  status: ReviewStatus;
+  submittedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  commentCount: number;
+}
+
+const store = createFileStore<FlowReview>(
+  process.env.REVIEWS_DIR ?? path.join(DATA_DIR, "reviews"),
+);
+
+// Guards against two overlapping publishes of the same review creating the
+// flow twice. The set lives in memory, so it only covers publishes handled by
+// this server process; with several instances, two of them can still publish
+// the same review at once.
+const publishingReviews = new Set<string>();
+
+const summarize = (review: FlowReview): FlowReviewSummary => ({
+  id: review.id,
+  flowName: review.flowName,
+  accountId: review.accountId,
+  status: review.status,
+  submittedBy: review.submittedBy,
+  createdAt: review.createdAt,
+  updatedAt: review.updatedAt,
+  commentCount: review.comments.length,
+});
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+  REVIEW_STATUSES.includes(value as ReviewStatus);
+
+export const listReviews = async (
+  status?: ReviewStatus,
+): Promise<FlowReviewSummary[]> =>
+  (await store.list())
+    .filter((review) => !status || review.status === status)
+    .map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getReview = (id: string) => store.get(id);
+
+/** Marks a review as being published; false if a publish is already running. */
+export const claimReviewPublish = (id: string) => {
+  if (publishingReviews.has(id)) {
+    return false;
+  }
+  publishingReviews.add(id);
+  return true;
+};
+
+export const releaseReviewPublish = (id: string) => {
+  publishingReviews.delete(id);
+};
+
+export const createReview = async (
+  flow: BuiltFlow,
+  accountId: string | null,
+  submittedBy: string,
+  note?: string,
+): Promise<FlowReview> => {
+  const now = new Date().toISOString();
+  return store.put({
+    id: randomUUID(),
+    flowName: flow.payload.flowName,
+    accountId,
+    status: "pending",
+    submittedBy,
+    createdAt: now,
+    updatedAt: now,
+    payload: flow.payload,
+    klaviyoPayload: flow.klaviyoPayload,
+    actionPaths: flow.actionPaths,
+    warnings: flow.warnings,
+    comments: [],
+    history: [{ status: "pending", by: submittedBy, at: now, note }],
+  });
+};
+
+export const addReviewComment = async (
+  id: string,
+  comment: Pick<ReviewComment, "path" | "author" | "body">,
+): Promise<FlowReview | null> => {
+  const review = await getReview(id);
+  if (!review) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  return store.put({
+    ...review,
+    updatedAt: now,
+    comments: [
+      ...review.comments,
+      { id: randomUUID(), ...comment, createdAt: now },
+    ],
+  });
+};
+
+/**
+ * Moves a review to `status` and appends the change to its history. Callers
+ * check that the transition is allowed. The stored review is read again
+ * first, so comments added since the caller loaded it are kept.
+ */
+export const recordReviewStatus = async (
+  loaded: FlowReview,
+  status: ReviewStatus,
+  by: string,
+  extra: { note?: string; flowId?: string } = {},
+): Promise<FlowReview> => {
+  const review = (await getReview(loaded.id)) ?? loaded;
+  const now = new Date().toISOString();
+  return store.put({
+    ...review,
+    status,
+    updatedAt: now,
+    flowId: extra.flowId ?? review.flowId,
+    history: [...review.history, { status, by, at: now, note: extra.note }],
+  });
+};
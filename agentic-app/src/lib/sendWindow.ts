@@ -0,0 +1,250 @@
+import type { DelayUnit, FlowDelayPayload, Weekday } from "@/lib/klaviyo";
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const MS_PER_UNIT: Record<DelayUnit, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: Weekday;
+}
+
+/** A 24-hour `HH:MM` time of day. */
+export const isTimeOfDay = (value: string) => TIME_OF_DAY_PATTERN.test(value);
+
+/** A `YYYY-MM-DD` date that exists on the calendar. */
+export const isCalendarDate = (value: string) => {
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Building a formatter is far slower than using one, and the DST scan below
+// reads hundreds of dates in the same zone.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "long",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const zonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? "";
+
+  return {
+    year: Number(part("year")),
+    month: Number(part("month")),
+    day: Number(part("day")),
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+    second: Number(part("second")),
+    weekday: part("weekday").toLowerCase() as Weekday,
+  };
+};
+
+// The instant the clock in `timeZone` reads the given wall time. Days past the
+// end of the month roll over, so callers can add days to `day` directly.
+const fromZoned = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+) => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return (
+      Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute,
+        parts.second,
+      ) - instant
+    );
+  };
+  // A second pass picks up the right offset when a DST change falls between
+  // the wall time read as UTC and the real instant.
+  const first = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(first));
+};
+
+/**
+ * When a message behind `delay` goes out for someone who reached the delay at
+ * `enteredAt`, with `timeZone` standing in for the delay's timezone. Waits in
+ * days count calendar days and then send at `sendAtTime`; shorter waits send
+ * at the next `sendAtTime` after they finish. A wait that ends on a day not in
+ * `weekdays` rolls forward to the next allowed day, and a past `untilDate`
+ * sends straight away.
+ */
+export const effectiveSendTime = (
+  enteredAt: Date,
+  delay: FlowDelayPayload,
+  timeZone: string,
+) => {
+  const [hour, minute] = delay.sendAtTime
+    ? delay.sendAtTime.split(":").map(Number)
+    : [0, 0];
+  let sendAt: Date;
+
+  if (delay.untilDate) {
+    const [year, month, day] = delay.untilDate.split("-").map(Number);
+    sendAt = fromZoned(year, month, day, hour, minute, timeZone);
+    if (sendAt < enteredAt) {
+      sendAt = enteredAt;
+    }
+  } else {
+    const waitedUntil = new Date(
+      enteredAt.getTime() + delay.value * MS_PER_UNIT[delay.unit],
+    );
+    sendAt = waitedUntil;
+    if (delay.sendAtTime) {
+      const ended = zonedParts(waitedUntil, timeZone);
+      sendAt = fromZoned(
+        ended.year,
+        ended.month,
+        ended.day,
+        hour,
+        minute,
+        timeZone,
+      );
+      if (delay.unit !== "days" && sendAt < waitedUntil) {
+        sendAt = fromZoned(
+          ended.year,
+          ended.month,
+          ended.day + 1,
+          hour,
+          minute,
+          timeZone,
+        );
+      }
+    }
+  }
+
+  const allowed = delay.weekdays ?? [];
+  for (let tries = 0; allowed.length && tries < 7; tries += 1) {
+    const current = zonedParts(sendAt, timeZone);
+    if (allowed.includes(current.weekday)) {
+      break;
+    }
+    sendAt = fromZoned(
+      current.year,
+      current.month,
+      current.day + 1,
+      delay.sendAtTime ? hour : current.hour,
+      delay.sendAtTime ? minute : current.minute,
+      timeZone,
+    );
+  }
+
+  return sendAt;
+};
+
+/**
+ * Reads a `YYYY-MM-DDTHH:MM` wall time (what a `datetime-local` input holds)
+ * in `timeZone`, or null when it isn't one.
+ */
+export const parseZonedDateTime = (value: string, timeZone: string) => {
+  const [date = "", time = ""] = value.split("T");
+  if (!isCalendarDate(date) || !isTimeOfDay(time)) {
+    return null;
+  }
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return fromZoned(year, month, day, hour, minute, timeZone);
+};
+
+/** Minutes `timeZone` is ahead of UTC at `date`, e.g. -240 for New York in summer. */
+export const utcOffsetMinutes = (date: Date, timeZone: string) => {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  const parts = zonedParts(new Date(instant), timeZone);
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return Math.round((wall - instant) / 60000);
+};
+
+export interface OffsetChange {
+  /** First minute on the new offset. */
+  at: Date;
+  offsetBefore: number;
+  offsetAfter: number;
+}
+
+/**
+ * Offset changes in `timeZone` (daylight saving starting or ending) within
+ * `days` of `from`, earliest first.
+ */
+export const offsetChanges = (timeZone: string, from: Date, days = 366) => {
+  const changes: OffsetChange[] = [];
+  const dayMs = MS_PER_UNIT.days;
+  let previous = utcOffsetMinutes(from, timeZone);
+
+  for (let day = 1; day <= days; day += 1) {
+    const end = from.getTime() + day * dayMs;
+    const offset = utcOffsetMinutes(new Date(end), timeZone);
+    if (offset === previous) {
+      continue;
+    }
+
+    // Narrow the change down to the minute within the day it happened.
+    let low = end - dayMs;
+    let high = end;
+    while (high - low > MS_PER_UNIT.minutes) {
+      const middle = low + Math.floor((high - low) / 2);
+      if (utcOffsetMinutes(new Date(middle), timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    changes.push({
+      at: new Date(
+        Math.floor(high / MS_PER_UNIT.minutes) * MS_PER_UNIT.minutes,
+      ),
+      offsetBefore: previous,
+      offsetAfter: offset,
+    });
+    previous = offset;
+  }
+
+  return changes;
+};
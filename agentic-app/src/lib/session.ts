@@ -0,0 +1,131 @@
+// Runs in middleware, so this module sticks to Web Crypto and never touches
+// the file system.
+
+export type Role = "viewer" | "editor" | "publisher";
+
+/** Ordered from least to most access; each role can do everything before it. */
+export const ROLES: Role[] = ["viewer", "editor", "publisher"];
+
+export const SESSION_COOKIE = "flow_builder_session";
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+/** Request headers middleware sets so route handlers know who is calling. */
+export const USER_HEADER = "x-flow-builder-user";
+export const ROLE_HEADER = "x-flow-builder-role";
+
+export interface SessionUser {
+  username: string;
+  role: Role;
+}
+
+/** A user as a session records them when they sign in. */
+export interface SessionIdentity extends SessionUser {
+  /** Bumped on password resets and role changes to end older sessions. */
+  version: number;
+}
+
+export interface Session extends SessionIdentity {
+  /** Unix time in seconds. */
+  expiresAt: number;
+}
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+export const hasRole = (role: Role, required: Role) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(
+    atob(value.replace(/-/g, "+").replace(/_/g, "/")),
+    (char) => char.charCodeAt(0),
+  );
+
+const signingKey = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured on the server.");
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+};
+
+export const isSessionConfigured = () => Boolean(process.env.SESSION_SECRET);
+
+/** Issues a signed `payload.signature` token for the session cookie. */
+export const createSessionToken = async (user: SessionIdentity) => {
+  const session: Session = {
+    username: user.username,
+    role: user.role,
+    version: user.version,
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await signingKey(),
+    encoder.encode(payload),
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/** Returns the session for a valid, unexpired token and null otherwise. */
+export const readSessionToken = async (
+  token: string | undefined,
+): Promise<Session | null> => {
+  const [payload, signature] = token?.split(".") ?? [];
+  if (!payload || !signature) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload),
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const session = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(payload)),
+    ) as Session;
+    return typeof session.username === "string" &&
+      isRole(session.role) &&
+      typeof session.version === "number" &&
+      session.expiresAt > Date.now() / 1000
+      ? session
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a session still belongs to `current`, the user's record as it is
+ * now. Sessions from before a password reset or role change don't.
+ */
+export const isSessionCurrent = (session: Session, current: SessionIdentity) =>
+  session.username === current.username && session.version === current.version;
+
+/** The caller of a route handler, from the headers middleware sets. */
+export const requestUser = (request: Request): SessionUser | null => {
+  const username = request.headers.get(USER_HEADER);
+  const role = request.headers.get(ROLE_HEADER);
+  return username && isRole(role) ? { username, role } : null;
+};
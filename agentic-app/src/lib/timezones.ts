@@ -0,0 +1,64 @@
+/** Klaviyo's named delay timezones; anything else must be an IANA zone. */
+export const NAMED_TIMEZONES = ["profile", "account"];
+
+let supportedZones: string[] | null = null;
+
+/**
+ * The IANA zones the runtime's `Intl` knows, sorted, plus `UTC`, which V8
+ * leaves out. Empty where `Intl.supportedValuesOf` is missing.
+ */
+export const listTimezones = () => {
+  if (!supportedZones) {
+    const zones =
+      typeof Intl.supportedValuesOf === "function"
+        ? Intl.supportedValuesOf("timeZone")
+        : [];
+    supportedZones =
+      zones.length && !zones.includes("UTC") ? ["UTC", ...zones] : zones;
+  }
+  return supportedZones;
+};
+
+const resolveZone = (zone: string) => {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+    }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether `zone` is in the IANA database: listed by `Intl`, or an alias that
+ * resolves to a listed zone (`US/Eastern`, `Asia/Kolkata`). UTC offsets such
+ * as `+01:00` are not zones.
+ */
+export const isIanaTimezone = (zone: string) => {
+  const resolved = resolveZone(zone);
+  if (!resolved) {
+    return false;
+  }
+  const zones = listTimezones();
+  return !zones.length || zones.includes(zone) || zones.includes(resolved);
+};
+
+export const isValidTimezone = (timezone: string) =>
+  NAMED_TIMEZONES.includes(timezone) || isIanaTimezone(timezone);
+
+/**
+ * Trims a timezone and fixes the case of named and listed zones, so
+ * `america/new_york` is stored as `America/New_York`. Blank means `profile`.
+ */
+export const normalizeTimezone = (timezone: string | undefined) => {
+  const trimmed = `${timezone ?? ""}`.trim();
+  if (!trimmed) {
+    return "profile";
+  }
+  const lower = trimmed.toLowerCase();
+  return (
+    [...NAMED_TIMEZONES, ...listTimezones()].find(
+      (zone) => zone.toLowerCase() === lower,
+    ) ?? trimmed
+  );
+};
@@ -0,0 +1,79 @@
+import type { EmailStepPayload, TrackingParamPayload } from "@/lib/klaviyo";
+
+/** Tokens a tracking value may use, filled in when the flow is built. */
+export const TRACKING_TOKENS = [
+  "flow_name",
+  "step_name",
+  "subject_line",
+] as const;
+
+export type TrackingToken = (typeof TRACKING_TOKENS)[number];
+
+const TOKEN_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+export const isTrackingToken = (name: string): name is TrackingToken =>
+  (TRACKING_TOKENS as readonly string[]).includes(name);
+
+type StepTracking = Pick<
+  EmailStepPayload,
+  "customTracking" | "inheritTracking"
+>;
+
+const sameParam = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Names inside `{{ }}` in `value` that aren't one of `TRACKING_TOKENS`. */
+export const unknownTrackingTokens = (value: string) =>
+  [...value.matchAll(TOKEN_PATTERN)]
+    .map((match) => match[1])
+    .filter((name) => !isTrackingToken(name));
+
+/**
+ * The params an email step sends: the flow defaults, unless the step opts
+ * out, with the step's own params replacing defaults of the same name and the
+ * rest added after them. Names compare case-insensitively, like the duplicate
+ * check in validation.
+ */
+export const effectiveTracking = (
+  step: StepTracking,
+  defaults: TrackingParamPayload[] = [],
+): TrackingParamPayload[] => {
+  const own = step.customTracking ?? [];
+  if (step.inheritTracking === false) {
+    return own;
+  }
+  return [
+    ...defaults.map(
+      (track) =>
+        own.find((item) => sameParam(item.param, track.param)) ?? track,
+    ),
+    ...own.filter(
+      (track) => !defaults.some((item) => sameParam(item.param, track.param)),
+    ),
+  ];
+};
+
+/** Step params that replace a flow default with a different value. */
+export const trackingOverrides = (
+  step: StepTracking,
+  defaults: TrackingParamPayload[] = [],
+) =>
+  (step.customTracking ?? []).flatMap((track) => {
+    const inherited = defaults.find((item) =>
+      sameParam(item.param, track.param),
+    );
+    return inherited && inherited.value !== track.value
+      ? [{ param: track.param, flowValue: inherited.value, value: track.value }]
+      : [];
+  });
+
+/**
+ * Replaces `{{ flow_name }}`, `{{ step_name }}` and `{{ subject_line }}` in
+ * `value`. Unknown tokens are left as typed; validation reports them.
+ */
+export const fillTrackingTokens = (
+  value: string,
+  values: Record<TrackingToken, string>,
+) =>
+  value.replace(TOKEN_PATTERN, (match, name: string) =>
+    isTrackingToken(name) ? values[name] : match,
+  );
@@ -0,0 +1,74 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import type { TrackingParamPayload } from "@/lib/klaviyo";
+
+/** A named set of tracking params the builder can apply as flow defaults. */
+export interface TrackingPreset {
+  id: string;
+  name: string;
+  params: TrackingParamPayload[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const store = createFileStore<TrackingPreset>(
+  process.env.TRACKING_PRESETS_DIR ?? path.join(DATA_DIR, "tracking-presets"),
+);
+
+export const isTrackingParamList = (
+  params: unknown,
+): params is TrackingParamPayload[] =>
+  Array.isArray(params) &&
+  params.every(
+    (track) =>
+      Boolean(track) &&
+      typeof track === "object" &&
+      typeof (track as TrackingParamPayload).param === "string" &&
+      typeof (track as TrackingParamPayload).value === "string",
+  );
+
+const normalizeParams = (params: TrackingParamPayload[]) =>
+  params
+    .map((track) => ({ param: track.param.trim(), value: track.value.trim() }))
+    .filter((track) => track.param && track.value);
+
+export const listTrackingPresets = async (): Promise<TrackingPreset[]> =>
+  (await store.list()).sort((a, b) => a.name.localeCompare(b.name));
+
+export const getTrackingPreset = (id: string) => store.get(id);
+
+export const createTrackingPreset = async (
+  name: string,
+  params: TrackingParamPayload[],
+  createdBy: string,
+): Promise<TrackingPreset> => {
+  const now = new Date().toISOString();
+  return store.put({
+    id: randomUUID(),
+    name,
+    params: normalizeParams(params),
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const updateTrackingPreset = async (
+  id: string,
+  update: { name?: string; params?: TrackingParamPayload[] },
+): Promise<TrackingPreset | null> => {
+  const preset = await getTrackingPreset(id);
+  if (!preset) {
+    return null;
+  }
+  return store.put({
+    ...preset,
+    name: update.name || preset.name,
+    params: update.params ? normalizeParams(update.params) : preset.params,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const deleteTrackingPreset = (id: string) => store.remove(id);
@@ -0,0 +1,160 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import path from "path";
+import { promisify } from "util";
+import { DATA_DIR, createFileStore } from "@/lib/fileStore";
+import type { Role, SessionIdentity } from "@/lib/session";
+
+export interface UserRecord {
+  id: string;
+  username: string;
+  role: Role;
+  /** `scrypt:<salt>:<hash>`, both base64. */
+  passwordHash: string;
+  /** Signed into each session; saving the user bumps it. Unset means 0. */
+  sessionVersion?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UserSummary = Omit<UserRecord, "passwordHash" | "sessionVersion">;
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const store = createFileStore<UserRecord>(
+  process.env.USERS_DIR ?? path.join(DATA_DIR, "users"),
+);
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+const summarize = (user: UserRecord): UserSummary => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`;
+};
+
+const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+};
+
+// Hashed against when the username is unknown, so a miss takes as long as a
+// wrong password and doesn't reveal which usernames exist.
+const DUMMY_HASH = hashPassword(randomUUID());
+
+const identity = (user: UserRecord): SessionIdentity => ({
+  username: user.username,
+  role: user.role,
+  version: user.sessionVersion ?? 0,
+});
+
+const nextSessionVersion = (user: UserRecord | null) =>
+  (user?.sessionVersion ?? 0) + 1;
+
+const findUser = async (username: string) => {
+  const wanted = normalizeUsername(username);
+  return (
+    (await store.list()).find((user) => user.username === wanted) ?? null
+  );
+};
+
+export const listUsers = async (): Promise<UserSummary[]> =>
+  (await store.list())
+    .map(summarize)
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+/**
+ * Creates the user, or resets the password and role of an existing one. Either
+ * way the user's existing sessions stop working.
+ */
+export const saveUser = async (
+  username: string,
+  password: string,
+  role: Role,
+): Promise<UserSummary> => {
+  const existing = await findUser(username);
+  const now = new Date().toISOString();
+  return summarize(
+    await store.put({
+      id: existing?.id ?? randomUUID(),
+      username: normalizeUsername(username),
+      role,
+      passwordHash: await hashPassword(password),
+      sessionVersion: nextSessionVersion(existing),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    }),
+  );
+};
+
+/** Changes a user's role and signs them out everywhere. */
+export const setUserRole = async (
+  username: string,
+  role: Role,
+): Promise<UserSummary | null> => {
+  const user = await findUser(username);
+  return user
+    ? summarize(
+        await store.put({
+          ...user,
+          role,
+          sessionVersion: nextSessionVersion(user),
+          updatedAt: new Date().toISOString(),
+        }),
+      )
+    : null;
+};
+
+export const deleteUser = async (username: string) => {
+  const user = await findUser(username);
+  return user ? store.remove(user.id) : false;
+};
+
+/**
+ * The user's current role and session version, or null once the user has been
+ * deleted. Sessions keep what they were signed in with, so callers compare
+ * against this to pick up changes straight away.
+ */
+export const findSessionUser = async (
+  username: string,
+): Promise<SessionIdentity | null> => {
+  const user = await findUser(username);
+  return user ? identity(user) : null;
+};
+
+/** Checks a username and password; returns the session identity on success. */
+export const authenticate = async (
+  username: string,
+  password: string,
+): Promise<SessionIdentity | null> => {
+  const user = await findUser(username);
+  const valid = await verifyPassword(
+    password,
+    user?.passwordHash ?? (await DUMMY_HASH),
+  );
+  return user && valid ? identity(user) : null;
+};
@@ -0,0 +1,82 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { isPublicPath, requiredRole } from "@/lib/accessPolicy";
+import {
+  ROLE_HEADER,
+  SESSION_COOKIE,
+  USER_HEADER,
+  hasRole,
+  isSessionConfigured,
+  isSessionCurrent,
+  readSessionToken,
+} from "@/lib/session";
+import { findSessionUser } from "@/lib/userStore";
+
+/**
+ * Gates every page and API route behind a signed session cookie and the
+ * caller's role. Pages redirect to the login screen; API routes answer with
+ * 401 or 403 JSON. The role comes from the user store rather than the cookie,
+ * and sessions from before a password reset or role change are refused, so
+ * changes and deleted users apply on the next request.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  // Never trust identity headers from the client.
+  const headers = new Headers(request.headers);
+  headers.delete(USER_HEADER);
+  headers.delete(ROLE_HEADER);
+
+  if (isPublicPath(pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (!isSessionConfigured()) {
+    return NextResponse.json(
+      {
+        error: "SESSION_SECRET is not configured on the server.",
+      },
+      { status: 500 },
+    );
+  }
+
+  const session = await readSessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value,
+  );
+  const user = session ? await findSessionUser(session.username) : null;
+
+  if (!session || !user || !isSessionCurrent(session, user)) {
+    if (isApi) {
+      return NextResponse.json(
+        {
+          error: "Sign in to continue.",
+        },
+        { status: 401 },
+      );
+    }
+    const login = new URL("/login", request.url);
+    login.searchParams.set("next", `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(login);
+  }
+
+  const required = requiredRole(request.method, request.nextUrl);
+
+  if (!hasRole(user.role, required)) {
+    return NextResponse.json(
+      {
+        error: `This action needs the ${required} role; your role is ${user.role}.`,
+      },
+      { status: 403 },
+    );
+  }
+
+  headers.set(USER_HEADER, user.username);
+  headers.set(ROLE_HEADER, user.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  // The user store reads from disk, which the Edge runtime can't do.
+  runtime: "nodejs",
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+
+type AccountsRoute = typeof import("@/app/api/accounts/route");
+type AccountRoute = typeof import("@/app/api/accounts/[id]/route");
+
+const request = (method: string, body: unknown) =>
+  new Request("http://localhost/api/accounts", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("account routes", () => {
+  let dataDir: string;
+  let accounts: AccountsRoute;
+  let account: AccountRoute;
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "flow-builder-accounts-"));
+    // Read when the modules load, so they're set before importing them.
+    process.env.DATA_DIR = dataDir;
+    process.env.ACCOUNTS_SECRET = "test-accounts-secret";
+    accounts = await import("@/app/api/accounts/route");
+    account = await import("@/app/api/accounts/[id]/route");
+  });
+
+  after(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("rejects fields of the wrong type instead of failing", async () => {
+    for (const body of [
+      null,
+      { name: 1, apiKey: "pk_test_1234" },
+      { name: "Brand", apiKey: "pk_test_1234", defaults: [] },
+      {
+        name: "Brand",
+        apiKey: "pk_test_1234",
+        defaults: { trackingParams: {} },
+      },
+      { name: "Brand", apiKey: "pk_test_1234", defaults: { timezone: 5 } },
+    ]) {
+      const response = await accounts.POST(request("POST", body));
+      assert.equal(response.status, 400, JSON.stringify(body));
+    }
+  });
+
+  test("updates check field types too", async () => {
+    const created = await accounts.POST(
+      request("POST", { name: "Brand", apiKey: "pk_test_1234" }),
+    );
+    assert.equal(created.status, 201);
+    const { id } = (await created.json()).data;
+    const update = (body: unknown) =>
+      account.PUT(request("PUT", body), { params: Promise.resolve({ id }) });
+
+    assert.equal(
+      (await update({ defaults: { trackingParams: [{ param: 1 }] } })).status,
+      400,
+    );
+    assert.equal((await update({ name: ["Brand"] })).status, 400);
+
+    const renamed = await update({ name: "Renamed" });
+    assert.equal(renamed.status, 200);
+    assert.equal((await renamed.json()).data.name, "Renamed");
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { AuditEntry } from "@/lib/auditLog";
+import { createFileStore, type FileStore } from "@/lib/fileStore";
+import { listFlow } from "./fixtures";
+
+type AuditRoute = typeof import("@/app/api/audit/route");
+
+const entry = (flowName: string, createdAt: string): AuditEntry => ({
+  id: randomUUID(),
+  createdAt,
+  user: "pat",
+  accountId: null,
+  accountName: null,
+  source: "builder",
+  flowName,
+  outcome: "created",
+  status: 201,
+  flowId: "FlOw01",
+  error: null,
+  errors: [],
+  attempts: [],
+  payload: listFlow({ flowName }),
+  definition: {
+    triggers: [],
+    profile_filter: null,
+    actions: [],
+    entry_action_id: "1",
+  },
+});
+
+describe("GET /api/audit", () => {
+  let dataDir: string;
+  let audit: AuditRoute;
+  let store: FileStore<AuditEntry>;
+
+  const search = async (query: string) => {
+    const response = await audit.GET(
+      new Request(`http://localhost/api/audit${query}`),
+    );
+    return { status: response.status, body: await response.json() };
+  };
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "flow-builder-audit-"));
+    // Read when the module loads, so it's set before importing it.
+    process.env.AUDIT_DIR = dataDir;
+    audit = await import("@/app/api/audit/route");
+    store = createFileStore<AuditEntry>(dataDir);
+    await store.put(entry("Older", "2026-01-01T00:00:00.000Z"));
+    await store.put(entry("Newer", "2026-02-01T00:00:00.000Z"));
+  });
+
+  after(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("clamps the limit to at least one entry", async () => {
+    for (const limit of ["-1", "0", "0.5"]) {
+      const { status, body } = await search(`?limit=${limit}`);
+      assert.equal(status, 200);
+      assert.deepEqual(
+        body.data.map((summary: AuditEntry) => summary.flowName),
+        ["Newer"],
+      );
+    }
+  });
+
+  test("rejects a limit that isn't a number", async () => {
+    const { status, body } = await search("?limit=ten");
+    assert.equal(status, 400);
+    assert.match(body.error, /limit must be a number/);
+  });
+
+  test("picks up new entries and drops removed ones", async () => {
+    const added = entry("Newest", "2026-03-01T00:00:00.000Z");
+    await store.put(added);
+    assert.equal((await search("?limit=1")).body.data[0].flowName, "Newest");
+
+    await store.remove(added.id);
+    assert.equal((await search("?limit=1")).body.data[0].flowName, "Newer");
+  });
+});
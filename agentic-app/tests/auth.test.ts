@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { NextRequest } from "next/server";
+import {
+  MAX_LOGIN_FAILURES,
+  clearLoginFailures,
+  loginRetryAfter,
+  loginThrottleKeys,
+  recordLoginFailure,
+} from "@/lib/loginThrottle";
+import { SESSION_COOKIE, createSessionToken } from "@/lib/session";
+
+type Middleware = typeof import("@/middleware");
+type UserStore = typeof import("@/lib/userStore");
+
+describe("sessions", () => {
+  let dataDir: string;
+  let middleware: Middleware["middleware"];
+  let users: UserStore;
+
+  const deleteFlow = async (token: string) =>
+    (
+      await middleware(
+        new NextRequest("http://localhost/api/flows/abc", {
+          method: "DELETE",
+          headers: { cookie: `${SESSION_COOKIE}=${token}` },
+        }),
+      )
+    ).status;
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "flow-builder-auth-"));
+    // Read when the modules load, so they're set before importing them.
+    process.env.DATA_DIR = dataDir;
+    process.env.SESSION_SECRET = "test-session-secret";
+    ({ middleware } = await import("@/middleware"));
+    users = await import("@/lib/userStore");
+  });
+
+  after(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("a password reset ends existing sessions", async () => {
+    await users.saveUser("alice", "correct horse battery", "publisher");
+    const signedIn = await users.authenticate("alice", "correct horse battery");
+    assert.ok(signedIn);
+    const token = await createSessionToken(signedIn);
+    assert.equal(await deleteFlow(token), 200);
+
+    await users.saveUser("alice", "another long password", "publisher");
+
+    assert.equal(await deleteFlow(token), 401);
+  });
+
+  test("a role change ends existing sessions", async () => {
+    await users.saveUser("bob", "correct horse battery", "publisher");
+    const signedIn = await users.authenticate("bob", "correct horse battery");
+    assert.ok(signedIn);
+    const token = await createSessionToken(signedIn);
+
+    await users.setUserRole("bob", "editor");
+
+    assert.equal(await deleteFlow(token), 401);
+  });
+
+  test("a deleted user is signed out", async () => {
+    await users.saveUser("cy", "correct horse battery", "viewer");
+    const signedIn = await users.authenticate("cy", "correct horse battery");
+    assert.ok(signedIn);
+    const token = await createSessionToken(signedIn);
+
+    await users.deleteUser("cy");
+
+    assert.equal(await deleteFlow(token), 401);
+  });
+});
+
+describe("login throttle", () => {
+  const request = (client?: string) =>
+    new Request("http://localhost/api/auth/login", {
+      headers: client ? { "x-forwarded-for": `${client}, 10.0.0.1` } : {},
+    });
+
+  test("locks a username out after repeated failures", () => {
+    const keys = loginThrottleKeys(request(), " Dana ");
+    for (let failure = 1; failure < MAX_LOGIN_FAILURES; failure += 1) {
+      recordLoginFailure(keys);
+      assert.equal(loginRetryAfter(keys), 0);
+    }
+
+    recordLoginFailure(keys);
+
+    assert.ok(loginRetryAfter(keys) > 0);
+    assert.ok(loginRetryAfter(loginThrottleKeys(request(), "dana")) > 0);
+    clearLoginFailures(keys);
+    assert.equal(loginRetryAfter(keys), 0);
+  });
+
+  test("locks a client out across usernames", () => {
+    for (let failure = 0; failure < MAX_LOGIN_FAILURES; failure += 1) {
+      recordLoginFailure(
+        loginThrottleKeys(request("203.0.113.7"), `u${failure}`),
+      );
+    }
+
+    assert.ok(
+      loginRetryAfter(loginThrottleKeys(request("203.0.113.7"), "eve")) > 0,
+    );
+    assert.equal(
+      loginRetryAfter(loginThrottleKeys(request("203.0.113.8"), "eve")),
+      0,
+    );
+  });
+});
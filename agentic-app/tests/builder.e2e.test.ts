@@ -0,0 +1,214 @@
+import "global-jsdom/register";
+import assert from "node:assert/strict";
+import type { ChildProcess } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import {
+  AppRouterContext,
+  type AppRouterInstance,
+} from "next/dist/shared/lib/app-router-context.shared-runtime";
+import React, { createElement } from "react";
+import { ROLE_HEADER, USER_HEADER, type Role } from "@/lib/session";
+import { freePort, startMock, type MockRequest } from "./klaviyoMock";
+
+// Renders the builder page in jsdom, fills in and submits the form, then
+// approves and publishes the review against scripts/klaviyo-mock.ts and
+// checks what the mock received. The page's `/api` requests go straight to
+// the route handlers, with the identity headers the middleware would add.
+
+type Handler = (
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) => Promise<Response>;
+
+type RouteModule = Partial<Record<"GET" | "POST" | "PUT" | "DELETE", Handler>>;
+
+type FlowsRoute = typeof import("@/app/api/flows/route");
+type DecisionRoute = typeof import("@/app/api/reviews/[id]/decision/route");
+
+const API_KEY = "pk_builder_test";
+const EDITOR = { username: "ed", role: "editor" as Role };
+const PUBLISHER = { username: "pat", role: "publisher" as Role };
+
+const realFetch = globalThis.fetch;
+
+// The page only navigates with the router on sign-out.
+const router: AppRouterInstance = {
+  back: () => undefined,
+  forward: () => undefined,
+  refresh: () => undefined,
+  push: () => undefined,
+  replace: () => undefined,
+  prefetch: () => undefined,
+};
+
+const asUser = (
+  url: string,
+  user: { username: string; role: Role },
+  init: RequestInit = {},
+) => {
+  const headers = new Headers(init.headers);
+  headers.set(USER_HEADER, user.username);
+  headers.set(ROLE_HEADER, user.role);
+  return new Request(new URL(url, "http://localhost"), { ...init, headers });
+};
+
+const routeTo = (routes: [RegExp, RouteModule][]) =>
+  (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(
+      input instanceof Request ? input.url : String(input),
+      "http://localhost",
+    );
+    if (url.origin !== "http://localhost") {
+      return realFetch(input, init);
+    }
+
+    const method = (init?.method ?? "GET").toUpperCase() as keyof RouteModule;
+    for (const [pattern, route] of routes) {
+      const match = pattern.exec(url.pathname);
+      const handler = match && route[method];
+      if (handler) {
+        return handler(asUser(url.href, EDITOR, init), {
+          params: Promise.resolve({ id: match[1] ?? "" }),
+        });
+      }
+    }
+    return Response.json({ error: "Not found." }, { status: 404 });
+  }) as typeof fetch;
+
+let mock: ChildProcess;
+let mockUrl: string;
+let dataDir: string;
+let flows: FlowsRoute;
+let decision: DecisionRoute;
+let Home: typeof import("@/app/page").default;
+
+before(async () => {
+  const port = await freePort();
+  mockUrl = `http://localhost:${port}`;
+  dataDir = await mkdtemp(path.join(tmpdir(), "flow-builder-page-"));
+
+  // Read when the app modules load, so they're set before importing them.
+  process.env.KLAVIYO_BASE_URL = `${mockUrl}/api`;
+  process.env.KLAVIYO_API_KEY = API_KEY;
+  process.env.DATA_DIR = dataDir;
+
+  mock = await startMock(port, API_KEY);
+  flows = await import("@/app/api/flows/route");
+  decision = await import("@/app/api/reviews/[id]/decision/route");
+  Home = (await import("@/app/page")).default;
+  // Next compiles the page's JSX itself, so tsconfig leaves it alone and tsx
+  // falls back to the classic runtime, which calls a global `React`.
+  Object.assign(globalThis, { React });
+
+  globalThis.fetch = routeTo([
+    [/^\/api\/auth\/session$/, await import("@/app/api/auth/session/route")],
+    [/^\/api\/accounts$/, await import("@/app/api/accounts/route")],
+    [/^\/api\/drafts$/, await import("@/app/api/drafts/route")],
+    [
+      /^\/api\/tracking-presets$/,
+      await import("@/app/api/tracking-presets/route"),
+    ],
+    [/^\/api\/lists$/, await import("@/app/api/lists/route")],
+    [/^\/api\/lists\/([^/]+)$/, await import("@/app/api/lists/[id]/route")],
+    [/^\/api\/reviews$/, await import("@/app/api/reviews/route")],
+    [/^\/api\/flows$/, flows],
+  ]);
+});
+
+after(async () => {
+  cleanup();
+  globalThis.fetch = realFetch;
+  mock?.removeAllListeners("exit");
+  mock?.kill();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+test("the builder form's flow reaches Klaviyo as entered", async () => {
+  render(
+    createElement(
+      AppRouterContext.Provider,
+      { value: router },
+      createElement(Home),
+    ),
+  );
+
+  const submit = screen.getByRole<HTMLButtonElement>("button", {
+    name: "Submit for review",
+  });
+  // Editing waits for the session to load.
+  await waitFor(() => assert.equal(submit.disabled, false));
+
+  const fill = (field: HTMLElement, value: string) =>
+    fireEvent.change(field, { target: { value } });
+  fill(screen.getByLabelText("Flow name"), "Builder welcome");
+  fill(
+    screen.getByPlaceholderText("Search lists or enter a list ID"),
+    "LiSt01",
+  );
+  fill(screen.getByLabelText(/Subject line/), "Welcome from the builder");
+  fill(screen.getByLabelText(/From name/), "Example");
+  fill(screen.getByLabelText(/From email/), "hello@example.com");
+  fill(screen.getByLabelText("Template ID (optional)"), "TmPl01");
+  fireEvent.click(submit);
+
+  const link = await screen.findByRole("link", { name: "Open review" });
+  const reviewId = new URL(
+    link.getAttribute("href") ?? "",
+    "http://localhost",
+  ).searchParams.get("id");
+  assert.ok(reviewId);
+
+  const approved = await decision.POST(
+    asUser(`/api/reviews/${reviewId}/decision`, PUBLISHER, {
+      method: "POST",
+      body: JSON.stringify({ decision: "approve" }),
+    }),
+    { params: Promise.resolve({ id: reviewId }) },
+  );
+  assert.equal(approved.status, 200);
+  const published = await flows.POST(
+    asUser(`/api/flows?review=${reviewId}`, PUBLISHER, { method: "POST" }),
+  );
+  assert.equal(published.status, 200);
+
+  const requests: MockRequest[] = (
+    await (await realFetch(`${mockUrl}/__mock/requests`)).json()
+  ).data;
+  const creates = requests.filter(
+    (request) => request.method === "POST" && request.path === "/api/flows/",
+  );
+  assert.equal(creates.length, 1);
+
+  const { attributes } = (
+    creates[0].body as {
+      data: {
+        attributes: {
+          name: string;
+          definition: {
+            triggers: { type: string; id: string }[];
+            actions: { data: { message: Record<string, unknown> } }[];
+          };
+        };
+      };
+    }
+  ).data;
+  assert.equal(attributes.name, "Builder welcome");
+  assert.deepEqual(attributes.definition.triggers, [
+    { type: "list", id: "LiSt01" },
+  ]);
+  const { message } = attributes.definition.actions[0].data;
+  assert.equal(message.subject_line, "Welcome from the builder");
+  assert.equal(message.from_label, "Example");
+  assert.equal(message.from_email, "hello@example.com");
+  assert.equal(message.template_id, "TmPl01");
+});
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseCsv } from "@/lib/csv";
+
+test("parseCsv keys each row by the trimmed headers", () => {
+  assert.deepEqual(parseCsv("\uFEFFbrand , list_id\r\nAcme,L1\r\n\r\nBeta\n"), {
+    headers: ["brand", "list_id"],
+    rows: [
+      { brand: "Acme", list_id: "L1" },
+      { brand: "Beta", list_id: "" },
+    ],
+  });
+});
+
+test("parseCsv keeps commas, quotes and line breaks inside quoted fields", () => {
+  const { rows } = parseCsv('name,note\n"Acme, Inc.","Say ""hi""\nthen go"');
+
+  assert.deepEqual(rows, [{ name: "Acme, Inc.", note: 'Say "hi"\nthen go' }]);
+});
+
+test("parseCsv rejects a quoted field that never closes", () => {
+  assert.throws(() => parseCsv('name\n"Acme'), /inside a quoted field/);
+});
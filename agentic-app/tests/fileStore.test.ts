@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createFileStore } from "@/lib/fileStore";
+
+test("overlapping puts of one record leave a whole record", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "flow-builder-store-"));
+  try {
+    const store = createFileStore<{ id: string; body: string }>(dir);
+    const id = randomUUID();
+    const bodies = Array.from({ length: 20 }, (_, index) =>
+      String(index).repeat(5_000 * (index % 4)),
+    );
+
+    await Promise.all(bodies.map((body) => store.put({ id, body })));
+
+    assert.deepEqual(await readdir(dir), [`${id}.json`]);
+    assert.ok(bodies.includes((await store.get(id))?.body ?? "missing"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,32 @@
+import type { EmailStepPayload, FlowRequestPayload } from "@/lib/klaviyo";
+
+/** A complete email step that passes validation against the mock's seed data. */
+export const emailStep = (
+  overrides: Partial<EmailStepPayload> = {},
+): EmailStepPayload => ({
+  kind: "email",
+  internalName: "",
+  subjectLine: "Welcome aboard",
+  previewText: "",
+  fromEmail: "hello@example.com",
+  fromName: "Example",
+  replyToEmail: "",
+  ccEmail: "",
+  bccEmail: "",
+  templateId: "TmPl01",
+  smartSendingEnabled: true,
+  status: "draft",
+  delay: null,
+  customTracking: [],
+  ...overrides,
+});
+
+/** A one-email flow triggered by the mock's seeded `LiSt01` list. */
+export const listFlow = (
+  overrides: Partial<FlowRequestPayload> = {},
+): FlowRequestPayload => ({
+  flowName: "Welcome",
+  trigger: { type: "list", id: "LiSt01" },
+  steps: [emailStep()],
+  ...overrides,
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { prepareFlow } from "@/lib/flowPayload";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { emailStep, listFlow } from "./fixtures";
+
+const email = emailStep();
+
+// Payloads come from parsed JSON, so steps can be anything at runtime.
+const flow = (steps: unknown[]) =>
+  listFlow({ steps: steps as FlowRequestPayload["steps"] });
+
+// Parses a request body the way the routes do, without checking its shape.
+const prepareJson = (json: string) =>
+  prepareFlow(JSON.parse(json) as FlowRequestPayload);
+
+test("a payload that isn't an object is reported, not thrown", () => {
+  for (const body of ["null", "[]", '"flow"', "7"]) {
+    const prepared = prepareJson(body);
+    assert.ok("error" in prepared);
+    assert.equal(prepared.issues?.[0].code, "invalid_structure");
+  }
+});
+
+test("steps that aren't objects are reported at their path", () => {
+  const prepared = prepareFlow(flow([email, null, "step"]));
+
+  assert.ok("error" in prepared);
+  assert.deepEqual(
+    prepared.issues?.map((issue) => issue.path),
+    ["steps[1]", "steps[2]"],
+  );
+});
+
+test("delay weekdays must be a list of day names", () => {
+  const prepared = prepareFlow(
+    flow([
+      {
+        ...email,
+        delay: { value: 1, unit: "days", weekdays: "monday" },
+      },
+    ]),
+  );
+
+  assert.ok("error" in prepared);
+  assert.equal(prepared.issues?.[0].path, "steps[0].delay.weekdays");
+});
+
+test("non-string fields are coerced instead of throwing", () => {
+  const prepared = prepareFlow(
+    flow([{ ...email, templateId: 123456, previewText: 7 }]),
+  );
+
+  assert.ok("payload" in prepared);
+  assert.equal(
+    prepared.payload.steps[0].kind === "email" &&
+      prepared.payload.steps[0].templateId,
+    "123456",
+  );
+});
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { findPlaceholders, renderFlowTemplate } from "@/lib/flowTemplate";
+import { emailStep, listFlow } from "./fixtures";
+
+const template = listFlow({
+  flowName: "{{brand}} welcome",
+  trigger: { type: "list", id: "{{list_id}}" },
+  trackingDefaults: [{ param: "utm_campaign", value: "{{ flow_name }}" }],
+  steps: [
+    emailStep({
+      subjectLine: "Hi {{ first_name }}",
+      customTracking: [
+        { param: "utm_content", value: "{{step_name}}-{{subject_line}}" },
+      ],
+    }),
+  ],
+});
+
+test("findPlaceholders skips the tracking tokens", () => {
+  assert.deepEqual(findPlaceholders(template), [
+    "brand",
+    "list_id",
+    "first_name",
+  ]);
+});
+
+test("renderFlowTemplate leaves tracking tokens for the flow build", () => {
+  const rendered = renderFlowTemplate(template, {
+    brand: "Acme",
+    list_id: "L1",
+    flow_name: "overridden",
+    step_name: "overridden",
+  });
+
+  assert.equal(rendered.flowName, "Acme welcome");
+  assert.equal(rendered.trigger.id, "L1");
+  assert.equal(rendered.trackingDefaults?.[0].value, "{{ flow_name }}");
+  assert.equal(
+    rendered.steps[0].kind === "email" &&
+      rendered.steps[0].customTracking?.[0].value,
+    "{{step_name}}-{{subject_line}}",
+  );
+});
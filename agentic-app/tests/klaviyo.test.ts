@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildFlowDefinition, parseFlowDefinition } from "@/lib/klaviyo";
+import { emailStep, listFlow } from "./fixtures";
+
+// Names and reply-to addresses are filled in when the flow is built, so the
+// fixtures set them to what comes back.
+const namedEmail = (subjectLine: string) =>
+  emailStep({
+    internalName: subjectLine,
+    subjectLine,
+    replyToEmail: "hello@example.com",
+  });
+
+test("parseFlowDefinition reads back what buildFlowDefinition wrote", () => {
+  const flow = listFlow({
+    profileFilters: [{ property: "country", operator: "equals", value: "US" }],
+    steps: [
+      namedEmail("Welcome aboard"),
+      {
+        kind: "conditional-split",
+        internalName: "",
+        delay: { value: 2, unit: "days", timezone: "profile" },
+        condition: {
+          type: "profile-property",
+          property: "vip",
+          operator: "is-set",
+          value: "",
+        },
+        yes: [
+          {
+            ...namedEmail("Thanks for being a VIP"),
+            customTracking: [{ param: "utm_source", value: "klaviyo" }],
+          },
+        ],
+        no: [],
+      },
+    ],
+  });
+
+  const parsed = parseFlowDefinition(buildFlowDefinition(flow));
+
+  assert.deepEqual(parsed.unsupported, []);
+  assert.deepEqual(parsed.trigger, { ...flow.trigger, filters: [] });
+  assert.deepEqual(parsed.profileFilters, flow.profileFilters);
+  assert.deepEqual(parsed.steps, flow.steps);
+});
+
+test("parseFlowDefinition notes what it can't import", () => {
+  const definition = buildFlowDefinition(
+    listFlow({ steps: [namedEmail("First"), namedEmail("Second")] }),
+  );
+  // Point the second email back at the first.
+  definition.actions[1].links.next = definition.actions[0].temporary_id;
+
+  const parsed = parseFlowDefinition({
+    ...definition,
+    triggers: [{ type: "price-drop", id: "x" }],
+  });
+
+  assert.deepEqual(parsed.trigger, { type: "list", id: "", filters: [] });
+  assert.equal(parsed.steps.length, 2);
+  assert.equal(parsed.unsupported.length, 2);
+  assert.match(parsed.unsupported[0], /Trigger type "price-drop"/);
+  assert.match(parsed.unsupported[1], /more than one path/);
+});
+
+test("parseFlowDefinition tolerates a definition that isn't one", () => {
+  const parsed = parseFlowDefinition("not a definition");
+
+  assert.deepEqual(parsed.steps, []);
+  assert.match(parsed.unsupported[0], /Trigger type "unknown"/);
+});
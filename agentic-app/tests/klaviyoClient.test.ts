@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { afterEach, test } from "node:test";
+import { KlaviyoNetworkError, klaviyoRequest } from "@/lib/klaviyoClient";
+
+const FLOWS_URL = "https://klaviyo.test/api/flows/";
+const realFetch = globalThis.fetch;
+
+type Reply = Response | Error;
+
+/** Answers each request with the next reply, recording the methods sent. */
+const stubFetch = (...replies: Reply[]) => {
+  const methods: string[] = [];
+  globalThis.fetch = async (_input, init) => {
+    methods.push(init?.method ?? "GET");
+    const reply = replies.shift();
+    if (!reply) {
+      throw new Error("Unexpected request.");
+    }
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  };
+  return methods;
+};
+
+// `Retry-After: 0` keeps retries from sleeping through the backoff.
+const reply = (status: number, retryAfter = "0") =>
+  new Response(JSON.stringify({ data: { id: "FlOw01" } }), {
+    status,
+    headers: { "Retry-After": retryAfter },
+  });
+
+// Each test gets its own key, so they don't share a request budget.
+const send = (method = "GET") =>
+  klaviyoRequest(`pk_${randomUUID()}`, FLOWS_URL, { method });
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+test("retries a rate-limited create until it goes through", async () => {
+  const methods = stubFetch(reply(429), reply(429), reply(201));
+
+  const result = await send("POST");
+
+  assert.equal(result.status, 201);
+  assert.deepEqual(methods, ["POST", "POST", "POST"]);
+  assert.deepEqual(
+    result.attempts.map(({ status }) => status),
+    [429, 429, 201],
+  );
+});
+
+test("gives up after the last attempt", async () => {
+  stubFetch(reply(429), reply(429), reply(429), reply(429));
+
+  const result = await send();
+
+  assert.equal(result.ok, false);
+  assert.equal(result.status, 429);
+  assert.equal(result.attempts.length, 4);
+});
+
+test("retries server errors only for idempotent methods", async () => {
+  stubFetch(reply(503), reply(200));
+  assert.equal((await send("GET")).attempts.length, 2);
+
+  stubFetch(reply(503));
+  const create = await send("POST");
+  assert.equal(create.status, 503);
+  assert.equal(create.attempts.length, 1);
+});
+
+test("doesn't wait out a Retry-After past the longest backoff", async () => {
+  stubFetch(reply(429, "120"));
+
+  const result = await send();
+
+  assert.equal(result.status, 429);
+  assert.equal(result.attempts.length, 1);
+});
+
+test("never resends a create after a network error", async () => {
+  stubFetch(new Error("socket hang up"));
+
+  await assert.rejects(send("POST"), (error) => {
+    assert.ok(error instanceof KlaviyoNetworkError);
+    assert.equal(error.message, "socket hang up");
+    assert.deepEqual(
+      error.attempts.map(({ status }) => status),
+      [null],
+    );
+    return true;
+  });
+});
+
+test("retries reads after a network error", async () => {
+  stubFetch(new Error("socket hang up"), reply(200));
+
+  const result = await send();
+
+  assert.equal(result.status, 200);
+  assert.equal(result.attempts[0].error, "socket hang up");
+  assert.deepEqual(result.json, { data: { id: "FlOw01" } });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { mapKlaviyoErrors } from "@/lib/klaviyoErrors";
+
+const actionPaths = ["steps[0]", "steps[1].delay", "steps[1]"];
+
+test("maps definition pointers to builder paths and step labels", () => {
+  const issues = mapKlaviyoErrors(
+    {
+      errors: [
+        {
+          status: 400,
+          code: "invalid",
+          detail: "Unknown template.",
+          source: {
+            pointer:
+              "/data/attributes/definition/actions/2/data/message/template_id",
+          },
+        },
+        {
+          detail: "Bad unit.",
+          source: {
+            pointer: "/data/attributes/definition/actions/1/data/unit",
+          },
+        },
+        {
+          detail: "Unknown list.",
+          source: { pointer: "/data/attributes/definition/triggers/0/id" },
+        },
+        { title: "Name taken.", source: { pointer: "/data/attributes/name" } },
+      ],
+    },
+    actionPaths,
+  );
+
+  assert.deepEqual(
+    issues.map(({ path, message }) => ({ path, message })),
+    [
+      { path: "steps[1].templateId", message: "Step 2: Unknown template." },
+      { path: "steps[1].delay.unit", message: "Step 2: Bad unit." },
+      { path: "trigger.id", message: "Unknown list." },
+      { path: "flowName", message: "Name taken." },
+    ],
+  );
+  assert.equal(issues[0].status, 400);
+  assert.equal(issues[0].code, "invalid");
+});
+
+test("skips malformed error items instead of throwing", () => {
+  const issues = mapKlaviyoErrors({
+    errors: [null, 3, "oops", [], { detail: "Kept.", source: { pointer: 5 } }],
+  });
+
+  assert.deepEqual(issues, [
+    {
+      path: "",
+      code: "klaviyo_error",
+      message: "Kept.",
+      status: null,
+      pointer: null,
+    },
+  ]);
+});
+
+test("returns nothing for bodies without an errors array", () => {
+  assert.deepEqual(mapKlaviyoErrors(null), []);
+  assert.deepEqual(mapKlaviyoErrors({ errors: "nope" }), []);
+});
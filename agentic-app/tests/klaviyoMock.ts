@@ -0,0 +1,55 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { createServer } from "node:net";
+import path from "node:path";
+
+/** One entry in the mock's `/__mock/requests` log. */
+export interface MockRequest {
+  method: string;
+  path: string;
+  revision: string | null;
+  body: unknown;
+  status: number;
+}
+
+export const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() =>
+        typeof address === "object" && address
+          ? resolve(address.port)
+          : reject(new Error("No port assigned.")),
+      );
+    });
+  });
+
+/**
+ * Starts scripts/klaviyo-mock.ts with the same TypeScript loader as this test
+ * process, resolving once it's listening.
+ */
+export const startMock = (port: number, apiKey: string) =>
+  new Promise<ChildProcess>((resolve, reject) => {
+    const mock = spawn(
+      process.execPath,
+      [
+        ...process.execArgv.filter((arg) => !arg.startsWith("--test")),
+        path.join(__dirname, "..", "scripts", "klaviyo-mock.ts"),
+        "--port",
+        String(port),
+        "--api-key",
+        apiKey,
+      ],
+      { stdio: ["ignore", "pipe", "inherit"] },
+    );
+    mock.once("error", reject);
+    mock.once("exit", (code) =>
+      reject(new Error(`Mock Klaviyo server exited with ${code}.`)),
+    );
+    mock.stdout?.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("listening")) {
+        resolve(mock);
+      }
+    });
+  });
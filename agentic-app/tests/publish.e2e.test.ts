@@ -0,0 +1,368 @@
+import assert from "node:assert/strict";
+import type { ChildProcess } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, test } from "node:test";
+import type { FlowRequestPayload } from "@/lib/klaviyo";
+import { ROLE_HEADER, USER_HEADER, type Role } from "@/lib/session";
+import { freePort, startMock, type MockRequest } from "./klaviyoMock";
+
+// Drives the route handlers against scripts/klaviyo-mock.ts, with
+// `KLAVIYO_BASE_URL` pointed at it, and checks what reached "Klaviyo" through
+// the mock's `/__mock/requests` log.
+
+type FlowsRoute = typeof import("@/app/api/flows/route");
+type ReviewsRoute = typeof import("@/app/api/reviews/route");
+type DecisionRoute = typeof import("@/app/api/reviews/[id]/decision/route");
+type FlowRoute = typeof import("@/app/api/flows/[id]/route");
+type ReconcileRoute = typeof import("@/app/api/reviews/[id]/reconcile/route");
+type ReviewStore = typeof import("@/lib/reviewStore");
+type BulkJobs = typeof import("@/lib/bulkJobs");
+type ListsRoute = typeof import("@/app/api/lists/route");
+type ListRoute = typeof import("@/app/api/lists/[id]/route");
+
+const API_KEY = "pk_e2e_test";
+
+const payload = (templateId = "TmPl01") =>
+  ({
+    flowName: "E2E welcome",
+    trigger: { type: "list", id: "LiSt01" },
+    steps: [
+      {
+        kind: "email",
+        subjectLine: "Welcome aboard",
+        fromEmail: "hello@example.com",
+        fromName: "Example",
+        templateId,
+      },
+    ],
+  }) as unknown as FlowRequestPayload;
+
+const call = (
+  url: string,
+  body?: unknown,
+  user: { username: string; role: Role } = {
+    username: "pat",
+    role: "publisher",
+  },
+) =>
+  new Request(`http://localhost${url}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [USER_HEADER]: user.username,
+      [ROLE_HEADER]: user.role,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+describe("publishing against the mock Klaviyo server", () => {
+  let mock: ChildProcess;
+  let mockUrl: string;
+  let dataDir: string;
+  let flows: FlowsRoute;
+  let reviews: ReviewsRoute;
+  let decision: DecisionRoute;
+  let flow: FlowRoute;
+  let reconcile: ReconcileRoute;
+  let reviewStore: ReviewStore;
+  let bulkJobs: BulkJobs;
+  let lists: ListsRoute;
+  let list: ListRoute;
+
+  const mockRequests = async (): Promise<MockRequest[]> =>
+    (await (await fetch(`${mockUrl}/__mock/requests`)).json()).data;
+
+  const flowCreates = async () =>
+    (await mockRequests()).filter(
+      (request) => request.method === "POST" && request.path === "/api/flows/",
+    );
+
+  // Submits as one editor and approves as a publisher, like the Reviews page.
+  const approvedReview = async (flow: FlowRequestPayload) => {
+    const submitted = await reviews.POST(
+      call(
+        "/api/reviews",
+        { payload: flow },
+        { username: "ed", role: "editor" },
+      ),
+    );
+    assert.equal(submitted.status, 201);
+    const review = (await submitted.json()).data;
+
+    const approved = await decision.POST(
+      call(`/api/reviews/${review.id}/decision`, { decision: "approve" }),
+      { params: Promise.resolve({ id: review.id }) },
+    );
+    assert.equal(approved.status, 200);
+    return review;
+  };
+
+  before(async () => {
+    const port = await freePort();
+    mockUrl = `http://localhost:${port}`;
+    dataDir = await mkdtemp(path.join(tmpdir(), "flow-builder-e2e-"));
+
+    // Read when the app modules load, so they're set before importing them.
+    process.env.KLAVIYO_BASE_URL = `${mockUrl}/api`;
+    process.env.KLAVIYO_API_KEY = API_KEY;
+    process.env.DATA_DIR = dataDir;
+
+    mock = await startMock(port, API_KEY);
+    flows = await import("@/app/api/flows/route");
+    reviews = await import("@/app/api/reviews/route");
+    decision = await import("@/app/api/reviews/[id]/decision/route");
+    flow = await import("@/app/api/flows/[id]/route");
+    reconcile = await import("@/app/api/reviews/[id]/reconcile/route");
+    reviewStore = await import("@/lib/reviewStore");
+    bulkJobs = await import("@/lib/bulkJobs");
+    lists = await import("@/app/api/lists/route");
+    list = await import("@/app/api/lists/[id]/route");
+  });
+
+  after(async () => {
+    mock?.removeAllListeners("exit");
+    mock?.kill();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await fetch(`${mockUrl}/__mock/reset`, { method: "POST" });
+  });
+
+  test("a dry run builds the flow without creating it", async () => {
+    const response = await flows.POST(call("/api/flows?dryRun=1", payload()));
+    assert.equal(response.status, 200);
+    const body = await response.json();
+
+    assert.equal(body.dryRun, true);
+    assert.equal(body.payload.data.attributes.name, "E2E welcome");
+    assert.deepEqual(await flowCreates(), []);
+  });
+
+  test("publishing an approved review sends the reviewed payload", async () => {
+    const review = await approvedReview(payload());
+
+    const response = await flows.POST(call(`/api/flows?review=${review.id}`));
+    assert.equal(response.status, 200);
+    const body = await response.json();
+
+    const [create, ...rest] = await flowCreates();
+    assert.equal(rest.length, 0);
+    assert.equal(create.status, 201);
+    assert.equal(create.revision, "2024-10-15");
+    assert.deepEqual(create.body, review.klaviyoPayload);
+    assert.equal(body.review.status, "published");
+    assert.equal(body.review.flowId, body.data.data.id);
+  });
+
+  test("publishing the same review twice creates one flow", async () => {
+    const review = await approvedReview(payload());
+
+    const responses = await Promise.all([
+      flows.POST(call(`/api/flows?review=${review.id}`)),
+      flows.POST(call(`/api/flows?review=${review.id}`)),
+    ]);
+
+    assert.deepEqual(
+      responses.map((response) => response.status).sort(),
+      [200, 409],
+    );
+    assert.equal((await flowCreates()).length, 1);
+  });
+
+  test("Klaviyo's errors are mapped back to the step", async () => {
+    const review = await approvedReview(payload("NoSuchTemplate"));
+
+    const response = await flows.POST(call(`/api/flows?review=${review.id}`));
+    assert.equal(response.status, 400);
+    const body = await response.json();
+
+    assert.equal(body.errors[0].path, "steps[0].templateId");
+    assert.equal((await flowCreates())[0].status, 400);
+  });
+
+  test("status changes send only the status, and renames are refused", async () => {
+    const review = await approvedReview(payload());
+    const published = await flows.POST(call(`/api/flows?review=${review.id}`));
+    const flowId = (await published.json()).data.data.id;
+    const patch = (body: unknown) =>
+      flow.PATCH(
+        new Request(`http://localhost/api/flows/${flowId}`, {
+          method: "PATCH",
+          body: JSON.stringify(body),
+        }),
+        { params: Promise.resolve({ id: flowId }) },
+      );
+
+    assert.equal((await patch({ name: "Renamed" })).status, 400);
+    assert.equal((await patch({ status: "manual" })).status, 200);
+
+    const updates = (await mockRequests()).filter(
+      (request) => request.method === "PATCH",
+    );
+    assert.equal(updates.length, 1);
+    assert.deepEqual(updates[0].body, {
+      data: { type: "flow", id: flowId, attributes: { status: "manual" } },
+    });
+
+    // The mock refuses what Klaviyo refuses, so a rename can't slip through.
+    const rename = await fetch(`${mockUrl}/api/flows/${flowId}/`, {
+      method: "PATCH",
+      headers: {
+        Authorization: `Klaviyo-API-Key ${API_KEY}`,
+        revision: "2024-10-15",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        data: { type: "flow", id: flowId, attributes: { name: "Renamed" } },
+      }),
+    });
+    assert.equal(rename.status, 400);
+  });
+
+  test("audience counts are looked up for one audience at a time", async () => {
+    const page = await lists.GET(new Request("http://localhost/api/lists"));
+    assert.equal(page.status, 200);
+    assert.equal((await mockRequests()).length, 1);
+
+    const selected = await list.GET(
+      new Request("http://localhost/api/lists/LiSt01"),
+      { params: Promise.resolve({ id: "LiSt01" }) },
+    );
+    assert.equal(selected.status, 200);
+    assert.equal((await selected.json()).data.profileCount, 1204);
+    assert.equal((await mockRequests()).length, 2);
+  });
+
+  test("a trigger check that fails is a warning on the review", async () => {
+    await fetch(`${mockUrl}/__mock/faults`, {
+      method: "POST",
+      body: JSON.stringify({
+        method: "GET",
+        path: "/api/lists/LiSt01/",
+        status: 403,
+      }),
+    });
+
+    const submitted = await reviews.POST(
+      call(
+        "/api/reviews",
+        { payload: payload() },
+        { username: "ed", role: "editor" },
+      ),
+    );
+
+    assert.equal(submitted.status, 201);
+    assert.match(
+      (await submitted.json()).data.warnings.join("\n"),
+      /Couldn't confirm list "LiSt01" exists in Klaviyo \(Klaviyo answered 403\)/,
+    );
+  });
+
+  test("a create lost in transit leaves the review to reconcile", async () => {
+    const review = await approvedReview(payload());
+    await fetch(`${mockUrl}/__mock/faults`, {
+      method: "POST",
+      body: JSON.stringify({ method: "POST", path: "/api/flows/", drop: true }),
+    });
+
+    const lost = await flows.POST(call(`/api/flows?review=${review.id}`));
+    assert.equal(lost.status, 502);
+    assert.equal((await lost.json()).review.status, "unconfirmed");
+
+    const again = await flows.POST(call(`/api/flows?review=${review.id}`));
+    assert.equal(again.status, 409);
+
+    const [created] = (await mockRequests()).filter(
+      (request) => request.method === "POST" && request.path === "/api/flows/",
+    );
+    const flowId = (
+      await (
+        await fetch(`${mockUrl}/api/flows/`, {
+          headers: {
+            Authorization: `Klaviyo-API-Key ${API_KEY}`,
+            revision: "2024-10-15",
+          },
+        })
+      ).json()
+    ).data[0].id;
+    assert.equal(created.status, 201);
+
+    const reconciled = await reconcile.POST(
+      call(`/api/reviews/${review.id}/reconcile`, { flowId }),
+      { params: Promise.resolve({ id: review.id }) },
+    );
+    assert.equal(reconciled.status, 200);
+    const settled = (await reconciled.json()).data;
+    assert.equal(settled.status, "published");
+    assert.equal(settled.flowId, flowId);
+  });
+
+  test("a status change keeps comments added since the review was loaded", async () => {
+    const review = await approvedReview(payload());
+    await reviewStore.addReviewComment(review.id, {
+      path: "",
+      author: "ed",
+      body: "Looks good.",
+    });
+
+    const published = await reviewStore.recordReviewStatus(
+      review,
+      "published",
+      "pat",
+    );
+
+    assert.deepEqual(
+      published.comments.map((comment) => comment.body),
+      ["Looks good."],
+    );
+    assert.deepEqual(
+      published.history.map((event) => event.status),
+      ["pending", "approved", "published"],
+    );
+  });
+
+  test("a bulk row lost in transit isn't retried until reconciled", async () => {
+    const created = await bulkJobs.createBulkJob(
+      "Welcome rollout",
+      { ...payload(), flowName: "Welcome {{brand}}" },
+      ["brand"],
+      [{ brand: "Acme" }, { brand: "Globex" }],
+      "ed",
+    );
+    const job = await bulkJobs.approveBulkJob(created, "pat");
+    await fetch(`${mockUrl}/__mock/faults`, {
+      method: "POST",
+      body: JSON.stringify({ method: "POST", path: "/api/flows/", drop: true }),
+    });
+    const run = () =>
+      bulkJobs.runBulkJob(job.id, API_KEY, { user: "pat", account: null });
+
+    const first = await run();
+    assert.deepEqual(
+      first?.rows.map((row) => row.status),
+      ["unconfirmed", "created"],
+    );
+
+    await run();
+    assert.equal((await flowCreates()).length, 2);
+
+    const reconciled = await bulkJobs.reconcileBulkRow(
+      (await bulkJobs.getBulkJob(job.id))!,
+      1,
+      undefined,
+    );
+    assert.equal(reconciled?.rows[0].status, "pending");
+    const rerun = await run();
+    assert.equal(rerun?.rows[0].status, "created");
+    assert.equal((await flowCreates()).length, 3);
+  });
+
+  test("publishing without an approved review never reaches Klaviyo", async () => {
+    const response = await flows.POST(call("/api/flows", payload()));
+    assert.equal(response.status, 400);
+    assert.deepEqual(await mockRequests(), []);
+  });
+});
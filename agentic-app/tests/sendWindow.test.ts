@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { FlowDelayPayload } from "@/lib/klaviyo";
+import {
+  effectiveSendTime,
+  offsetChanges,
+  parseZonedDateTime,
+} from "@/lib/sendWindow";
+
+const NEW_YORK = "America/New_York";
+
+const delay = (overrides: Partial<FlowDelayPayload>): FlowDelayPayload => ({
+  value: 1,
+  unit: "days",
+  timezone: NEW_YORK,
+  ...overrides,
+});
+
+const sendTime = (enteredAt: string, overrides: Partial<FlowDelayPayload>) =>
+  effectiveSendTime(
+    new Date(enteredAt),
+    delay(overrides),
+    NEW_YORK,
+  ).toISOString();
+
+test("a day's wait sends at the set time across a DST change", () => {
+  // Clocks go forward overnight on 8 March 2026.
+  assert.equal(
+    sendTime("2026-03-08T01:00:00.000Z", { sendAtTime: "09:00" }),
+    "2026-03-08T13:00:00.000Z",
+  );
+});
+
+test("a shorter wait that ends after the set time sends the next day", () => {
+  assert.equal(
+    sendTime("2026-06-01T14:00:00.000Z", {
+      value: 2,
+      unit: "hours",
+      sendAtTime: "09:00",
+    }),
+    "2026-06-02T13:00:00.000Z",
+  );
+});
+
+test("a wait ending on a blocked weekday rolls to the next allowed one", () => {
+  // Friday 5 June 2026, so the wait ends on the Saturday.
+  assert.equal(
+    sendTime("2026-06-05T14:00:00.000Z", {
+      sendAtTime: "09:00",
+      weekdays: ["monday", "tuesday"],
+    }),
+    "2026-06-08T13:00:00.000Z",
+  );
+});
+
+test("a past until date sends straight away", () => {
+  assert.equal(
+    sendTime("2026-06-05T14:00:00.000Z", { untilDate: "2026-01-01" }),
+    "2026-06-05T14:00:00.000Z",
+  );
+});
+
+test("parseZonedDateTime reads wall times in the zone", () => {
+  assert.equal(
+    parseZonedDateTime("2026-11-01T12:30", NEW_YORK)?.toISOString(),
+    "2026-11-01T17:30:00.000Z",
+  );
+  assert.equal(parseZonedDateTime("2026-02-30T12:30", NEW_YORK), null);
+  assert.equal(parseZonedDateTime("2026-11-01T24:00", NEW_YORK), null);
+});
+
+test("offsetChanges finds both DST changes in a year", () => {
+  assert.deepEqual(
+    offsetChanges(NEW_YORK, new Date("2026-01-01T00:00:00.000Z")).map(
+      ({ at, offsetBefore, offsetAfter }) => [
+        at.toISOString(),
+        offsetBefore,
+        offsetAfter,
+      ],
+    ),
+    [
+      ["2026-03-08T07:00:00.000Z", -300, -240],
+      ["2026-11-01T06:00:00.000Z", -240, -300],
+    ],
+  );
+});